@@ -52,12 +52,45 @@ export const Config = {
             offset: 1
         } */
     },
-    defaultRegion: "dev"
+    defaultRegion: "dev"/* ,
+    // The local stand-in started by `pnpm mockTimeBack` in the tests folder
+    timeBack: {
+        apiUrl: "http://127.0.0.1:8100",
+        caliperUrl: "http://127.0.0.1:8100",
+        authority: "http://127.0.0.1:8100",
+        clientId: "suroi-local"
+    } */
 } satisfies ConfigType as ConfigType;
 
 export interface ConfigType {
     readonly regions: Record<string, Region>
     readonly defaultRegion: string
+    /**
+     * Overrides the TimeBack endpoints of the current environment, e.g. to use a local stand-in
+     */
+    readonly timeBack?: TimeBackEndpoints
+}
+
+export interface TimeBackEndpoints {
+    /**
+     * Base URL of the TimeBack API, which the OneRoster gradebook is under
+     */
+    readonly apiUrl?: string
+
+    /**
+     * Base URL of the Caliper events endpoint
+     */
+    readonly caliperUrl?: string
+
+    /**
+     * The OIDC issuer players sign in with. Its metadata is fetched from `/.well-known/openid-configuration`,
+     * unless {@linkcode metadataUrl} is given
+     */
+    readonly authority?: string
+
+    readonly clientId?: string
+
+    readonly metadataUrl?: string
 }
 
 export interface Region {
@@ -1802,6 +1802,19 @@ export function setUpCommands(): void {
         }
     );
 
+    Command.createCommand(
+        "focus_math_panel",
+        function() {
+            UIManager.focusMathPanel();
+        },
+        {
+            short: "Focuses the math challenge",
+            long: "When invoked, the math challenge panel is focused, so that its answer can be typed in or its choices picked with the number keys",
+            allowOnlyWhenGameStarted: true,
+            signatures: [{ args: [], noexcept: true }]
+        }
+    );
+
     Command.createCommand(
         "fullscreen",
         requestFullscreen,
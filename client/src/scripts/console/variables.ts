@@ -400,6 +400,7 @@ export const defaultBinds = Object.freeze({
     "toggle_console": [],
     "+map_ping": [],
     "toggle_slot_lock": ["L"],
+    "focus_math_panel": ["B"],
     "screen_record": [],
     "toggle pf_net_graph 0 1 2": []
 } as Record<string, string[]>);
@@ -610,6 +610,12 @@ export const Game = new (class Game {
             case PacketType.MathFeedback:
                 UIManager.handleMathFeedback(packet);
                 break;
+            case PacketType.TeamMathChallenge:
+                UIManager.updateTeamMathChallenge(packet);
+                break;
+            case PacketType.MathStreak:
+                UIManager.addMathStreakMessage(packet);
+                break;
         }
     }
 
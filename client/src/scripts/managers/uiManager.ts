@@ -8,12 +8,17 @@ import { PerkCategories, PerkIds, type PerkDefinition } from "@common/definition
 import { DEFAULT_SCOPE, type ScopeDefinition } from "@common/definitions/items/scopes";
 import { Skins } from "@common/definitions/items/skins";
 import { Loots } from "@common/definitions/loots";
-import { type GameOverData } from "@common/packets/gameOverPacket";
+import { type GameOverData, type LearningSummary } from "@common/packets/gameOverPacket";
 import type { KillData } from "@common/packets/killPacket";
 import { DamageSources } from "@common/packets/killPacket";
+import { type MathFeedbackData } from "@common/packets/mathFeedbackPacket";
+import { type MathProblemData } from "@common/packets/mathProblemPacket";
+import { type MathStreakData } from "@common/packets/mathStreakPacket";
 import type { ReportData } from "@common/packets/reportPacket";
+import { TeamChallengeReward, type TeamMathChallengeData } from "@common/packets/teamMathChallengePacket";
 import { type PlayerData, type UpdateDataCommon } from "@common/packets/updatePacket";
 import { Numeric } from "@common/utils/math";
+import { AnswerType, type MathAnswer, MathAnswers, type MathHint, type MathOperand, MathOperator, OperandKind } from "@common/utils/mathProblems";
 import { ExtendedMap } from "@common/utils/misc";
 import { DefinitionType, type ReferenceTo } from "@common/utils/objectDefinitions";
 import { Vec, type Vector } from "@common/utils/vector";
@@ -26,6 +31,7 @@ import { Player } from "../objects/player";
 import { TEAMMATE_COLORS, UI_DEBUG_MODE } from "../utils/constants";
 import { formatDate, html } from "../utils/misc";
 import { SuroiSprite } from "../utils/pixi";
+import { formatMath, formatMathHint, formatMathWordProblem, parseMathAnswer, translatedNotation } from "../utils/translations/mathNotation";
 import { getTranslatedString, TRANSLATIONS } from "../utils/translations/translations";
 import { type TranslationKeys } from "../utils/translations/typings";
 import { CameraManager } from "./cameraManager";
@@ -36,6 +42,19 @@ import { PerkManager } from "./perkManager";
 import { ScreenRecordManager } from "./screenRecordManager";
 import { SoundManager } from "./soundManager";
 
+const mathAnswerPlaceholders: Record<AnswerType, TranslationKeys> = {
+    [AnswerType.Integer]: "math_placeholder_integer",
+    [AnswerType.Decimal]: "math_placeholder_decimal",
+    [AnswerType.Fraction]: "math_placeholder_fraction",
+    [AnswerType.Choice]: "math_placeholder_choice",
+    [AnswerType.Boolean]: "math_placeholder_boolean"
+};
+
+const teamChallengeRewardNames: Record<TeamChallengeReward, TranslationKeys> = {
+    [TeamChallengeReward.Airdrop]: "math_team_reward_airdrop",
+    [TeamChallengeReward.Heal]: "math_team_reward_heal"
+};
+
 function safeRound(value: number): number {
     if (0 < value && value <= 1) return 1;
     return Math.round(value);
@@ -281,6 +300,15 @@ class UIManagerClass {
         createTeamLock: $<HTMLInputElement>("#create-team-toggle-lock"),
         createTeamForceStart: $<HTMLInputElement>("#create-team-toggle-force-start"),
         createTeamPlayers: $<HTMLDivElement>("#create-team-players"),
+
+        classroomSettings: $<HTMLDivElement>("#classroom-settings"),
+        classroomRoster: $<HTMLTextAreaElement>("#classroom-roster"),
+        classroomTeamMode: $<HTMLSelectElement>("#classroom-team-mode"),
+        classroomMap: $<HTMLInputElement>("#classroom-map"),
+        classroomGenerators: $<HTMLInputElement>("#classroom-generators"),
+        classroomMinDifficulty: $<HTMLInputElement>("#classroom-min-difficulty"),
+        btnSaveClassroom: $<HTMLButtonElement>("#btn-save-classroom"),
+        btnClassroomDashboard: $<HTMLButtonElement>("#btn-classroom-dashboard"),
         closeCreateTeam: $<HTMLButtonElement>("#close-create-team"),
 
         c4Button: $<HTMLButtonElement>("#c4-detonate-btn"),
@@ -469,7 +497,7 @@ class UIManagerClass {
         const hasTeammates = teammates.length > 1;
         const teamEliminated = hasTeammates && teammates.every(teammate => !teammate.alive);
 
-        for (const { playerID, kills, damageDone, damageTaken, timeAlive, alive } of teammates) {
+        for (const { playerID, kills, damageDone, damageTaken, timeAlive, alive, learning } of teammates) {
             // Medals:
             // Dead: Simply indicates the player is no longer alive
             // Kills: More than 10 kills + most kills on team
@@ -542,6 +570,7 @@ class UIManagerClass {
                   <span class="stat-value">${formatDate(timeAlive)}</span>
                 </div>
               </div>
+              ${this.learningSummaryHTML(learning)}
             </div>
             `;
 
@@ -567,6 +596,53 @@ class UIManagerClass {
         setTimeout(() => ScreenRecordManager.endRecording(), 2500);
     }
 
+    /**
+     * The "what did I learn this round" part of a player's game over card
+     */
+    private learningSummaryHTML(learning: LearningSummary): string {
+        const { problemsAttempted, problemsCorrect, operations, fastestAnswer, xpEarned, itemsEarned } = learning;
+        const percent = (correct: number, attempted: number): string => `${Math.round(correct / attempted * 100)}%`;
+
+        const operationsHTML = operations.map(({ operation, attempted, correct }) => html`
+                <div class="stat learning-operation">
+                  <span class="stat-name">${getTranslatedString(`math_operation_${operation.toLowerCase()}` as TranslationKeys)}</span>
+                  <span class="stat-value">${correct}/${attempted} (${percent(correct, attempted)})</span>
+                </div>
+        `).join("");
+
+        const itemIcons = itemsEarned.map(({ item, count }) =>
+            html`<span class="learning-item"><img src="${this.getItemImagePath(item.idString)}" alt="${item.name}"/>${count}</span>`
+        ).join("");
+
+        const itemsHTML = itemsEarned.length
+            ? html`
+                <div class="stat">
+                  <span class="stat-name" translation="go_items_earned">${getTranslatedString("go_items_earned")}</span>
+                  <span class="stat-value learning-items">${itemIcons}</span>
+                </div>`
+            : "";
+
+        return html`
+              <div class="modal-item game-over-stats game-over-learning">
+                <h2 translation="go_learning">${getTranslatedString("go_learning")}</h2>
+                <div class="stat">
+                  <span class="stat-name" translation="go_problems_solved">${getTranslatedString("go_problems_solved")}</span>
+                  <span class="stat-value">${problemsCorrect}/${problemsAttempted}${problemsAttempted ? ` (${percent(problemsCorrect, problemsAttempted)})` : ""}</span>
+                </div>
+                ${operationsHTML}
+                <div class="stat">
+                  <span class="stat-name" translation="go_fastest_answer">${getTranslatedString("go_fastest_answer")}</span>
+                  <span class="stat-value">${fastestAnswer === undefined ? "-" : `${(fastestAnswer / 1000).toFixed(1)}s`}</span>
+                </div>
+                <div class="stat">
+                  <span class="stat-name" translation="go_xp_earned">${getTranslatedString("go_xp_earned")}</span>
+                  <span class="stat-value">${xpEarned}</span>
+                </div>
+                ${itemsHTML}
+              </div>
+        `;
+    }
+
     updateRequestableItems(): void {
         if (!Game.isTeamMode) return;
 
@@ -1709,34 +1785,197 @@ class UIManagerClass {
         this.killLeaderCache = undefined;
         this.oldKillLeaderId = undefined;
         this.skinID = undefined;
+
+        this.teamMathChallenge = undefined;
+        this.mathPractice = undefined;
+        window.clearTimeout(this.teamMathChallengeTimeout);
+        $("#math-team-challenge").hide();
+        $("#math-problem-help").empty().hide();
+
+        window.clearTimeout(this.mathStreakTimeout);
+        $("#math-streak").hide();
     }
 
-    showMathProblem(data: import("@common/packets/mathProblemPacket").MathProblemData): void {
+    /**
+     * Answers sent when picking each of the current problem's choices. Empty if the answer is typed in
+     */
+    private mathChoiceAnswers: readonly MathAnswer[] = [];
+
+    private mathAnswerType = AnswerType.Integer;
+
+    private mathTerminalStep?: MathProblemData["terminal"];
+
+    private mathPractice?: MathProblemData["practice"];
+
+    private teamMathChallenge?: TeamMathChallengeData;
+
+    private teamMathChallengeTimeout?: number;
+
+    private mathStreakTimeout?: number;
+
+    showMathProblem(data: MathProblemData): void {
         const questionElement = $("#math-problem-question");
         const rewardCountElement = $("#math-reward-count");
         const rewardImageElement = $("#math-reward-image");
         const answerInput = $("#math-answer-input");
-        const submitButton = $("#math-submit-button");
+        const choicesContainer = $("#math-problem-choices");
         const panel = $("#math-problem-panel");
 
-        // Update the problem display
-        questionElement.text(data.problem);
-        rewardCountElement.text(data.rewardCount.toString());
+        // Update the problem display. Word problems are worded, and their text is smaller to fit
+        questionElement
+            .text(data.words === undefined ? formatMath(data.expression) : formatMathWordProblem(data.words))
+            .toggleClass("math-word-problem", data.words !== undefined);
 
-        // Set the reward image based on the item type
-        const rewardImagePath = this.getItemImagePath(data.rewardType);
-        rewardImageElement.attr("src", rewardImagePath);
+        // Terminal and team challenge problems aren't rewarded individually
+        $("#math-reward-container").toggle(data.rewardCount > 0);
+        if (data.rewardCount > 0) {
+            rewardCountElement.text(data.rewardCount.toString());
+
+            // Set the reward image based on the item type
+            const rewardImagePath = this.getItemImagePath(data.rewardType);
+            rewardImageElement.attr("src", rewardImagePath);
+        }
 
         // Store the problem ID for when submitting
         panel.attr("data-problem-id", data.problemId.toString());
 
-        // Clear the input field
+        this.mathTerminalStep = data.terminal;
+        this.mathPractice = data.practice;
+        this.updateMathPanelHeader();
+
+        // Help given for the previous problem no longer applies
+        $("#math-problem-help").empty().hide();
+
+        // Clear the input field, and hint at the expected answer format
         answerInput.val("");
+        answerInput.attr("placeholder", getTranslatedString(mathAnswerPlaceholders[data.answerType]));
+        this.mathAnswerType = data.answerType;
+
+        // Problems with choices are answered by tapping a choice, or pressing its number
+        let labels: string[] = [];
+        switch (data.answerType) {
+            case AnswerType.Choice:
+                labels = (data.choices ?? []).map(choice => MathAnswers.toString(choice, translatedNotation));
+                this.mathChoiceAnswers = labels.map((_, index) => ({ type: AnswerType.Choice, index }));
+                break;
+            case AnswerType.Boolean:
+                labels = [getTranslatedString("math_true"), getTranslatedString("math_false")];
+                this.mathChoiceAnswers = [
+                    { type: AnswerType.Boolean, value: true },
+                    { type: AnswerType.Boolean, value: false }
+                ];
+                break;
+            default:
+                this.mathChoiceAnswers = [];
+        }
+
+        choicesContainer.empty();
+        for (const [index, label] of labels.entries()) {
+            choicesContainer.append(
+                $("<button class=\"math-choice-button\"></button>")
+                    .attr("data-choice", index)
+                    .append($("<span class=\"math-choice-key\"></span>").text(index + 1), $("<span></span>").text(label))
+            );
+        }
+        panel.toggleClass("choice-mode", labels.length > 0);
 
         // Show the panel (don't auto-focus, let user click to focus)
         panel.show();
     }
 
+    /**
+     * The header says where the current problem comes from: a terminal, a team challenge, practice, or none of these
+     */
+    private updateMathPanelHeader(): void {
+        const panel = $("#math-problem-panel");
+        const terminal = this.mathTerminalStep;
+        const practice = this.mathPractice;
+        const isTeamProblem = terminal === undefined
+            && this.teamMathChallenge?.problemIds.includes(Number(panel.attr("data-problem-id"))) === true;
+
+        let header = getTranslatedString("math_panel_header");
+        if (terminal !== undefined) {
+            header = getTranslatedString("math_panel_terminal", { step: terminal.step.toString(), steps: terminal.steps.toString() });
+        } else if (isTeamProblem) {
+            header = getTranslatedString("math_panel_team");
+        } else if (practice !== undefined) {
+            // Only verified students bank points
+            header = practice.maxPoints > 0
+                ? getTranslatedString("math_panel_practice_points", { points: practice.banked.toString(), max: practice.maxPoints.toString() })
+                : getTranslatedString("math_panel_practice");
+        }
+
+        $("#math-problem-header").text(header);
+        panel.toggleClass("terminal-mode", terminal !== undefined);
+        panel.toggleClass("team-mode", isTeamProblem);
+        panel.toggleClass("practice-mode", practice !== undefined);
+    }
+
+    updateTeamMathChallenge(data: TeamMathChallengeData): void {
+        const container = $("#math-team-challenge");
+        const progress = $("#math-team-challenge-progress");
+        const solved = data.solvedBy.length;
+        const complete = solved >= data.problemCount;
+
+        this.teamMathChallenge = complete ? undefined : data;
+        this.updateMathPanelHeader();
+
+        const reward = getTranslatedString(teamChallengeRewardNames[data.reward]);
+        $("#math-team-challenge-status").text(
+            complete
+                ? getTranslatedString("math_team_challenge_complete", { reward })
+                : getTranslatedString("math_team_challenge_progress", { solved: solved.toString(), count: data.problemCount.toString(), reward })
+        );
+
+        // One pip per problem, filled in with the name of whoever solved it
+        progress.empty();
+        for (let i = 0; i < data.problemCount; i++) {
+            const pip = $("<span class=\"math-team-pip\"></span>");
+            const solverId = data.solvedBy[i];
+            if (solverId !== undefined) {
+                pip.addClass("solved").attr("title", this.getRawPlayerName(solverId));
+            }
+            progress.append(pip);
+        }
+
+        container.toggleClass("complete", complete).show();
+
+        window.clearTimeout(this.teamMathChallengeTimeout);
+        if (complete) {
+            this.teamMathChallengeTimeout = window.setTimeout(() => container.fadeOut(), 5000);
+        }
+    }
+
+    /**
+     * Shows the player's streak of correct answers, and the multiplier the next one earns. Streaks
+     * of a single answer aren't shown, and the streak is hidden once it breaks from going idle
+     */
+    private updateMathStreak({ count, multiplier, expiresIn }: NonNullable<MathFeedbackData["streak"]>): void {
+        const streak = $("#math-streak");
+
+        window.clearTimeout(this.mathStreakTimeout);
+        if (count < 2) {
+            streak.hide();
+            return;
+        }
+
+        streak
+            .text(getTranslatedString("math_streak", { count: count.toString(), multiplier: translatedNotation.number(multiplier) }))
+            .toggleClass("boosted", multiplier > 1)
+            .show();
+        this.mathStreakTimeout = window.setTimeout(() => streak.fadeOut(), expiresIn);
+    }
+
+    /**
+     * Announces a streak milestone in the kill feed
+     */
+    addMathStreakMessage({ playerId, streak }: MathStreakData): void {
+        this._addKillFeedMessage(
+            getTranslatedString("math_streak_killfeed", { player: this._getNameAndBadge(playerId), streak: streak.toString() }),
+            [playerId === Game.activePlayerID ? "kill-feed-item-killer" : "kill-feed-math-streak"]
+        );
+    }
+
     private getItemImagePath(itemType: string): string {
         // Map item IDs to their image paths
         const itemImageMap: Record<string, string> = {
@@ -1763,11 +2002,13 @@ class UIManagerClass {
         setTimeout(() => {
             const answerInput = $("#math-answer-input");
             const submitButton = $("#math-submit-button");
+            const choicesContainer = $("#math-problem-choices");
             const panel = $("#math-problem-panel");
 
             // Remove any existing handlers to prevent duplicates
             submitButton.off("click.mathProblem");
             answerInput.off("keypress.mathProblem keydown.mathProblem focus.mathProblem blur.mathProblem");
+            choicesContainer.off("click.mathProblem keydown.mathProblem focus.mathProblem blur.mathProblem");
             panel.off("click.mathProblem");
             $(document).off("click.mathProblem");
 
@@ -1785,21 +2026,44 @@ class UIManagerClass {
             });
 
             // Simple focus/unfocus without triggering more events
-            answerInput.on("focus.mathProblem", () => {
+            const focusTargets = answerInput.add(choicesContainer);
+            focusTargets.on("focus.mathProblem", () => {
                 InputManager.isMathPanelFocused = true;
                 panel.addClass("focused");
             });
 
-            answerInput.on("blur.mathProblem", () => {
+            focusTargets.on("blur.mathProblem", () => {
                 // Small delay to allow for button clicks
                 setTimeout(() => {
-                    if (!answerInput.is(":focus")) {
+                    if (!focusTargets.is(":focus")) {
                         InputManager.isMathPanelFocused = false;
                         panel.removeClass("focused");
                     }
                 }, 150);
             });
 
+            // Handle tapping a choice
+            choicesContainer.on("click.mathProblem", ".math-choice-button", e => {
+                e.preventDefault();
+                e.stopPropagation();
+                void this.submitMathChoice(parseInt($(e.currentTarget).attr("data-choice") ?? ""));
+            });
+
+            // Handle picking a choice by its number, and Escape to unfocus
+            choicesContainer.on("keydown.mathProblem", e => {
+                if (e.which === 27) { // Escape key
+                    e.preventDefault();
+                    this.unfocusMathPanel();
+                    return;
+                }
+
+                const index = parseInt(e.key ?? "") - 1;
+                if (index >= 0 && index < this.mathChoiceAnswers.length) {
+                    e.preventDefault();
+                    void this.submitMathChoice(index);
+                }
+            });
+
             // Handle submit button click
             submitButton.on("click.mathProblem", e => {
                 e.preventDefault();
@@ -1825,21 +2089,55 @@ class UIManagerClass {
         }, 100);
     }
 
-    private focusMathPanel(): void {
-        const answerInput = $("#math-answer-input");
+    focusMathPanel(): void {
+        // Problems with choices are answered from the keyboard through the choices themselves
+        const target = $(this.mathChoiceAnswers.length ? "#math-problem-choices" : "#math-answer-input");
 
         // Simple focus without triggering events
-        if (!answerInput.is(":focus")) {
-            answerInput[0]?.focus();
+        if (!target.is(":focus")) {
+            target[0]?.focus();
         }
     }
 
-    private unfocusMathPanel(): void {
+    private mathLockoutTimer?: number;
+
+    /**
+     * Disables answering for the given time, in milliseconds, counting down in the answer field
+     */
+    private lockMathPanel(duration: number): void {
         const answerInput = $("#math-answer-input");
+        const panel = $("#math-problem-panel");
+        const lockedUntil = Date.now() + duration;
+
+        this.unfocusMathPanel();
+        panel.addClass("locked-out");
+        panel.find("input, button").prop("disabled", true);
+
+        window.clearInterval(this.mathLockoutTimer);
+        const update = (): void => {
+            const remaining = lockedUntil - Date.now();
+            if (remaining > 0) {
+                answerInput.val("");
+                answerInput.attr("placeholder", getTranslatedString("math_locked_out", { seconds: Math.ceil(remaining / 1000).toString() }));
+                return;
+            }
+
+            window.clearInterval(this.mathLockoutTimer);
+            this.mathLockoutTimer = undefined;
+            panel.removeClass("locked-out");
+            panel.find("input, button").prop("disabled", false);
+            answerInput.attr("placeholder", getTranslatedString(mathAnswerPlaceholders[this.mathAnswerType]));
+        };
+        update();
+        this.mathLockoutTimer = window.setInterval(update, 250);
+    }
+
+    private unfocusMathPanel(): void {
+        const focusTargets = $("#math-answer-input, #math-problem-choices");
 
         // Simple unfocus
-        if (answerInput.is(":focus")) {
-            answerInput[0]?.blur();
+        for (const element of focusTargets) {
+            if ($(element).is(":focus")) element.blur();
         }
 
         InputManager.isMathPanelFocused = false;
@@ -1850,10 +2148,10 @@ class UIManagerClass {
         const answerInput = $("#math-answer-input");
         const panel = $("#math-problem-panel");
 
-        const answer = parseInt(answerInput.val()!);
+        const answer = parseMathAnswer(String(answerInput.val() ?? ""));
         const problemId = parseInt(panel.attr("data-problem-id") || "0");
 
-        if (isNaN(answer)) {
+        if (answer === undefined) {
             // Visual feedback for invalid input
             answerInput.css("border-color", "#dc3545"); // Red border
             setTimeout(() => {
@@ -1862,6 +2160,24 @@ class UIManagerClass {
             return;
         }
 
+        await this.sendMathAnswer(answer, problemId);
+
+        // Clear the input
+        answerInput.val("");
+    }
+
+    async submitMathChoice(index: number): Promise<void> {
+        const answer = this.mathChoiceAnswers[index];
+        if (answer === undefined || $("#math-problem-panel").hasClass("locked-out")) return;
+
+        const problemId = parseInt($("#math-problem-panel").attr("data-problem-id") || "0");
+
+        // A new problem replaces this one either way, so give control back to the game
+        this.unfocusMathPanel();
+        await this.sendMathAnswer(answer, problemId);
+    }
+
+    private async sendMathAnswer(answer: MathAnswer, problemId: number): Promise<void> {
         // Send the answer to the server using a separate packet
         try {
             const { MathAnswerPacket } = await import("@common/packets/mathAnswerPacket");
@@ -1872,12 +2188,42 @@ class UIManagerClass {
         } catch (error) {
             console.error("Error submitting math answer:", error);
         }
+    }
 
-        // Clear the input
-        answerInput.val("");
+    /**
+     * Shows a hint for the current problem, or the worked solution of a problem that was given up on.
+     * Solutions arrive after the problem replacing it, so they're left up until the next one
+     */
+    private showMathHelp(hint?: MathHint, solution?: readonly MathOperand[]): void {
+        const help = $("#math-problem-help");
+
+        if (solution !== undefined) {
+            help.empty().append(
+                solution.map((step, i) => {
+                    // Equations stand on their own, other steps are equal to the problem on the first line
+                    const standalone = i === 0 || (step.kind === OperandKind.Expression && step.operator === MathOperator.Equals);
+                    const text = standalone ? formatMath(step) : getTranslatedString("math_solution_step", { step: formatMath(step) });
+                    return $("<div class=\"math-solution-step\"></div>").text(text);
+                })
+            );
+        } else if (hint !== undefined) {
+            help.empty().append($("<div class=\"math-hint\"></div>").text(getTranslatedString("math_hint", { hint: formatMathHint(hint) })));
+        } else {
+            return;
+        }
+
+        help.show();
     }
 
-    handleMathFeedback(packet: { isCorrect: boolean; problemId: number; xpEarned?: number; totalXP?: number }): void {
+    handleMathFeedback(packet: MathFeedbackData): void {
+        if (packet.lockedFor !== undefined) {
+            this.lockMathPanel(packet.lockedFor);
+        }
+
+        if (packet.streak !== undefined) {
+            this.updateMathStreak(packet.streak);
+        }
+
         // Visual feedback
         const panel = $("#math-problem-panel");
         const answerInput = $("#math-answer-input");
@@ -1930,6 +2276,8 @@ class UIManagerClass {
             
             // Shake animation for incorrect answer
             panel.addClass("shake-animation");
+
+            this.showMathHelp(packet.hint, packet.solution);
             
             // Remove visual feedback after delay
             setTimeout(() => {
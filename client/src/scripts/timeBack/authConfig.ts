@@ -3,14 +3,22 @@
  * Based on FastMathGames integration pattern
  */
 
+import { Config } from "../config";
+
 // Environment detection
 const getEnvironment = (): "staging" | "production" => {
     // Use staging for development, production can be set via build process
     return (globalThis as any).__TIMEBACK_ENV__ || "staging";
 };
 
+interface AuthEndpoints {
+    readonly authority: string
+    readonly client_id: string
+    readonly metadataUrl: string
+}
+
 // Auth endpoints based on environment
-const AUTH_ENDPOINTS = {
+const AUTH_ENDPOINTS: Record<ReturnType<typeof getEnvironment>, AuthEndpoints> = {
     staging: {
         authority: "https://alpha-auth-development-idp.auth.us-west-2.amazoncognito.com",
         client_id: "3drsutrtfjm75v158vdm89pe6f", // FastMathGames test credentials
@@ -24,7 +32,17 @@ const AUTH_ENDPOINTS = {
 };
 
 const currentEnvironment = getEnvironment();
-const authConfig = AUTH_ENDPOINTS[currentEnvironment];
+const endpointOverrides = Config.timeBack ?? {};
+const defaultEndpoints = AUTH_ENDPOINTS[currentEnvironment];
+const authConfig: AuthEndpoints = {
+    authority: endpointOverrides.authority ?? defaultEndpoints.authority,
+    client_id: endpointOverrides.clientId ?? defaultEndpoints.client_id,
+    metadataUrl: endpointOverrides.metadataUrl ?? (
+        endpointOverrides.authority !== undefined
+            ? `${endpointOverrides.authority}/.well-known/openid-configuration`
+            : defaultEndpoints.metadataUrl
+    )
+};
 
 export const getTimeBackAuthConfig = () => ({
     authority: authConfig.authority,
@@ -39,15 +57,19 @@ export const getTimeBackAuthConfig = () => ({
 });
 
 export const getTimeBackApiUrl = (): string => {
-    return currentEnvironment === "production"
-        ? "https://api.alpha-1edtech.com"
-        : "https://api.staging.alpha-1edtech.com";
+    return endpointOverrides.apiUrl ?? (
+        currentEnvironment === "production"
+            ? "https://api.alpha-1edtech.com"
+            : "https://api.staging.alpha-1edtech.com"
+    );
 };
 
 export const getCaliperApiUrl = (): string => {
-    return currentEnvironment === "production"
-        ? "https://caliper.alpha-1edtech.com"
-        : "https://caliper-staging.alpha-1edtech.com";
+    return endpointOverrides.caliperUrl ?? (
+        currentEnvironment === "production"
+            ? "https://caliper.alpha-1edtech.com"
+            : "https://caliper-staging.alpha-1edtech.com"
+    );
 };
 
 export const getCurrentEnvironment = () => currentEnvironment;
@@ -75,6 +75,8 @@ let joinedTeam = false;
 let autoFill = false;
 let globalIsLeader = false;
 let globalReady = false;
+let inClassroom = false;
+let classroomDashboardKey: string | undefined;
 
 export let autoPickup = true;
 
@@ -541,7 +543,8 @@ export async function setUpUI(): Promise<void> {
                     teamID = teamID.split("#")[1];
                 }
 
-                if (/^[a-zA-Z0-9]{4}$/.test(teamID)) {
+                // Team codes are 4 characters long, and classroom codes are 6
+                if (/^[a-zA-Z0-9]{4}([a-zA-Z0-9]{2})?$/.test(teamID)) {
                     break;
                 }
 
@@ -575,9 +578,22 @@ export async function setUpUI(): Promise<void> {
 
         teamSocket = new WebSocket(`${selectedRegion.mainAddress.replace("http", "ws")}/team?${params.toString()}`);
 
+        // Classrooms check students against their roster using this
+        teamSocket.onopen = (): void => {
+            teamSocket?.send(JSON.stringify({
+                type: CustomTeamMessages.Authenticate,
+                token: Game.timeBackAuthToken
+            }));
+        };
+
         const updateTeamStartButton = (isLeader: boolean, ready: boolean, forceStart: boolean): void => {
+            // In classrooms, only the teacher starts the match
+            ui.btnStartGame.prop("disabled", inClassroom && !isLeader);
+
             let str: TranslationKeys;
-            if (isLeader && forceStart) {
+            if (inClassroom) {
+                str = isLeader ? "create_team_play" : "classroom_waiting";
+            } else if (isLeader && forceStart) {
                 str = "create_team_play";
             } else if (ready) {
                 str = "create_team_not_ready";
@@ -648,6 +664,28 @@ export async function setUpUI(): Promise<void> {
                     updateTeamStartButton(globalIsLeader, globalReady, !!forceStart);
                     break;
                 }
+                case CustomTeamMessages.Classroom: {
+                    inClassroom = true;
+
+                    // Only the teacher is sent the roster, and only they can change the settings
+                    const { roster, dashboardKey, teamMode, map, generators, minDifficulty } = data.settings;
+                    const isTeacher = roster !== undefined;
+                    ui.createTeamToggles.hide();
+                    ui.classroomSettings.show().toggleClass("disabled", !isTeacher);
+                    ui.classroomRoster.parent().toggle(isTeacher);
+                    ui.btnSaveClassroom.toggle(isTeacher);
+                    ui.btnClassroomDashboard.toggle(isTeacher);
+
+                    if (roster !== undefined) ui.classroomRoster.val(roster.join("\n"));
+                    if (dashboardKey !== undefined) classroomDashboardKey = dashboardKey;
+                    if (teamMode !== undefined) ui.classroomTeamMode.val(teamMode);
+                    if (map !== undefined) ui.classroomMap.val(map);
+                    if (generators !== undefined) ui.classroomGenerators.val(generators.join(", "));
+                    if (minDifficulty !== undefined) ui.classroomMinDifficulty.val(minDifficulty);
+
+                    updateTeamStartButton(globalIsLeader, globalReady, false);
+                    break;
+                }
                 case CustomTeamMessages.Started: {
                     createTeamMenu.hide();
                     void joinGame();
@@ -674,7 +712,9 @@ export async function setUpUI(): Promise<void> {
                     joinedTeam
                         ? e.reason === "kicked"
                             ? "msg_error_kicked_team"
-                            : "msg_lost_team_connection"
+                            : e.reason === "classroom closed"
+                                ? "msg_classroom_closed"
+                                : "msg_lost_team_connection"
                         : "msg_error_joining_team"
                 ));
                 ui.splashMsg.show();
@@ -683,6 +723,11 @@ export async function setUpUI(): Promise<void> {
             teamSocket = undefined;
             teamID = undefined;
             joinedTeam = false;
+            inClassroom = false;
+            classroomDashboardKey = undefined;
+            ui.classroomSettings.hide();
+            ui.createTeamToggles.show();
+            ui.btnStartGame.prop("disabled", false);
             window.location.hash = "";
             createTeamMenu.fadeOut(250);
 
@@ -800,6 +845,28 @@ export async function setUpUI(): Promise<void> {
         teamSocket?.send(JSON.stringify({ type: CustomTeamMessages.Start }));
     });
 
+    ui.btnSaveClassroom.on("click", () => {
+        teamSocket?.send(JSON.stringify({
+            type: CustomTeamMessages.Classroom,
+            settings: {
+                // Student IDs can be pasted one per line, or separated by commas
+                roster: ui.classroomRoster.val()?.split(/[\s,]+/).filter(id => id.length),
+                teamMode: parseInt(ui.classroomTeamMode.val() as string),
+                map: ui.classroomMap.val()?.trim(),
+                generators: ui.classroomGenerators.val()?.split(",").map(family => family.trim()).filter(family => family.length),
+                minDifficulty: parseInt(ui.classroomMinDifficulty.val() ?? "")
+            }
+        }));
+    });
+
+    ui.btnClassroomDashboard.on("click", () => {
+        if (!teamID || selectedRegion === undefined || classroomDashboardKey === undefined) return;
+
+        // Only the teacher leading the classroom was sent its key, so it's all the dashboard needs to check
+        const params = new URLSearchParams({ key: classroomDashboardKey });
+        window.open(`${selectedRegion.mainAddress}/classroom/${teamID}?${params.toString()}`, "_blank");
+    });
+
     const nameColor = params.get("nameColor");
     if (nameColor) {
         GameConsole.setBuiltInCVar("dv_name_color", nameColor);
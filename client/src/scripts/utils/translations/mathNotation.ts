@@ -0,0 +1,91 @@
+import { type MathAnswer, MathAnswers, type MathHint, type MathNotation, type MathOperand, type MathWordProblem, MathExpressions, MathOperator } from "@common/utils/mathProblems";
+import { getTranslatedString } from "./translations";
+import { type TranslationKeys } from "./typings";
+
+const operationKeys: Record<MathOperator, TranslationKeys> = {
+    [MathOperator.Add]: "math_expression_add",
+    [MathOperator.Subtract]: "math_expression_subtract",
+    [MathOperator.Multiply]: "math_expression_multiply",
+    [MathOperator.Divide]: "math_expression_divide",
+    [MathOperator.FractionOf]: "math_expression_fraction_of",
+    [MathOperator.PercentOf]: "math_expression_percent_of",
+    [MathOperator.Equals]: "math_expression_equals"
+};
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+function numberFormat(): Intl.NumberFormat {
+    const locale = getTranslatedString("math_locale");
+
+    let format = numberFormats.get(locale);
+    if (format === undefined) {
+        try {
+            format = new Intl.NumberFormat(locale, { maximumFractionDigits: 10 });
+        } catch {
+            // Invalid locale tag in a translation file
+            format = new Intl.NumberFormat(undefined, { maximumFractionDigits: 10 });
+        }
+        numberFormats.set(locale, format);
+    }
+    return format;
+}
+
+/**
+ * Writes out math in the selected language, with its operator symbols and digit grouping
+ */
+export const translatedNotation: MathNotation = Object.freeze({
+    number: (value: number) => numberFormat().format(value),
+    fraction: (numerator: string, denominator: string) => getTranslatedString("math_fraction", { a: numerator, b: denominator }),
+    get unknown() {
+        return getTranslatedString("math_unknown");
+    },
+    operation: (operator: MathOperator, left: string, right: string) => getTranslatedString(operationKeys[operator], { a: left, b: right })
+});
+
+/**
+ * Parses a typed answer, accepting the digit grouping and decimal separator of the selected language
+ * as well as the plain notation, e.g. both `1.234,5` and `1234.5` in German
+ */
+export function parseMathAnswer(text: string): MathAnswer | undefined {
+    const parts = numberFormat().formatToParts(12345.5);
+    const group = parts.find(({ type }) => type === "group")?.value;
+    const decimal = parts.find(({ type }) => type === "decimal")?.value ?? ".";
+
+    let normalized = text;
+    if (group !== undefined) {
+        // Some languages group digits with (narrow) non-breaking spaces, which are hard to type
+        const separators = /\s/.test(group) ? /(?<=\d)\s(?=\d{3}\b)/g : new RegExp(`(?<=\\d)\\${group}(?=\\d{3}\\b)`, "g");
+        normalized = normalized.replace(separators, "");
+    }
+    if (decimal !== ".") normalized = normalized.replace(decimal, ".");
+
+    return MathAnswers.parse(normalized);
+}
+
+export function formatMath(operand: MathOperand): string {
+    return MathExpressions.format(operand, translatedNotation);
+}
+
+/**
+ * Fills in a hint's translation with its operands, written out as `<a>`, `<b>` and so on
+ */
+export function formatMathHint(hint: MathHint): string {
+    return getTranslatedString(
+        `math_hint_${hint.key}` as TranslationKeys,
+        Object.fromEntries(hint.operands.map((operand, i) => [String.fromCharCode(97 + i), formatMath(operand)]))
+    );
+}
+
+/**
+ * Fills in a word problem's translation with its operands, written out as `<a>`, `<b>` and so on,
+ * and the names of its items, as `<item_a>`, `<item_b>` and so on
+ */
+export function formatMathWordProblem(words: MathWordProblem): string {
+    return getTranslatedString(
+        `math_word_${words.key}` as TranslationKeys,
+        Object.fromEntries([
+            ...words.operands.map((operand, i): [string, string] => [String.fromCharCode(97 + i), formatMath(operand)]),
+            ...words.items.map((item, i): [string, string] => [`item_${String.fromCharCode(97 + i)}`, getTranslatedString(item as TranslationKeys)])
+        ])
+    );
+}
@@ -1575,6 +1575,78 @@ const shed = (num: number, ceilingTint: number): BuildingDefinition => ({
     ]
 });
 
+const armoryVault = (
+    idString: string,
+    name: string,
+    puzzle: NonNullable<BuildingDefinition["puzzle"]>,
+    controls: readonly BuildingObstacle[]
+): BuildingDefinition => ({
+    idString,
+    name,
+    defType: DefinitionType.Building,
+    material: "stone",
+    particle: "rock_particle",
+    particleVariations: 2,
+    hitbox: new GroupHitbox(
+        RectangleHitbox.fromRect(2.09, 36, Vec(36.03, -2)),
+        RectangleHitbox.fromRect(2.09, 11.67, Vec(-13.96, -15.1)),
+        RectangleHitbox.fromRect(13.4, 2.09, Vec(30.37, 16.52)),
+        RectangleHitbox.fromRect(74.12, 2.09, Vec(0.01, -20.98)),
+        RectangleHitbox.fromRect(2.09, 11.07, Vec(-13.96, 10.47)),
+        RectangleHitbox.fromRect(29, 2.09, Vec(21.9, -6.66)),
+        RectangleHitbox.fromRect(2.07, 37, Vec(-36.01, -2.5)),
+        RectangleHitbox.fromRect(35.39, 2.09, Vec(-19.35, 16.52)),
+        RectangleHitbox.fromRect(4.16, 2.09, Vec(10.5, 16.52))
+    ),
+    spawnHitbox: RectangleHitbox.fromRect(72, 38, Vec(0, -2)),
+    ceilingHitbox: RectangleHitbox.fromRect(72, 38, Vec(0, -2)),
+    puzzle,
+    floorImages: [
+        {
+            key: "armory_vault_floor_1",
+            position: Vec(-16.6, 0)
+        },
+        {
+            key: "armory_vault_floor_2",
+            position: Vec(20.2, 0)
+        }
+    ],
+    ceilingImages: [{
+        key: "armory_vault_ceiling",
+        position: Vec(0, -2.5),
+        scale: Vec(2, 2)
+    }],
+    ceilingZIndex: ZIndexes.BuildingsCeiling + 1,
+    floors: [{
+        type: FloorNames.Wood,
+        hitbox: RectangleHitbox.fromRect(72, 38, Vec(0, -2))
+    }],
+    subBuildings: IS_CLIENT ? undefined : [{
+        idString: "armory_inner_vault",
+        position: Vec(-25, -2.25)
+    }],
+    obstacles: IS_CLIENT ? undefined : [
+        { idString: "door", position: Vec(3.8, 16.5), rotation: 0 },
+        { idString: "window", position: Vec(18.1, 16.5), rotation: 1 },
+        { idString: "gun_case", position: Vec(31.9, 10), rotation: 3 },
+        { idString: "gun_case", position: Vec(-7.5, 12.4), rotation: 2 },
+        { idString: "ammo_crate", position: Vec(29.5, -0.45), rotation: 0 },
+        { idString: "ammo_crate", position: Vec(12.85, -0.45), rotation: 0 },
+        { idString: "tear_gas_crate", position: Vec(21.2, -0.45), rotation: 1 },
+        { idString: "grenade_crate", position: Vec(-9.1, -15.9) },
+        ...controls,
+        { idString: "ammo_crate", position: Vec(-20, -14.8), rotation: 0 },
+        { idString: "regular_crate", position: Vec(-29.8, -14.8), rotation: 0 },
+        { idString: "barrel", position: Vec(-30.9, 11.3) },
+        { idString: "briefcase", position: Vec(-20.7, 10.85), rotation: 2 },
+        { idString: "vault_door", position: Vec(-14.1, -3.22), rotation: 3 }
+    ],
+    lootSpawners: IS_CLIENT ? undefined : [{
+        position: Vec(-25.5, -1),
+        table: "armory_skin"
+    }]
+});
+
 export const Buildings = new ObjectDefinitions<BuildingDefinition>([
     pallet(1, [
         { idString: "box", position: Vec(-2.2, -1.9) },
@@ -5155,66 +5227,17 @@ export const Buildings = new ObjectDefinitions<BuildingDefinition>([
             { idString: "trash_can", position: Vec(12, 17.5) }
         ]
     },
-    {
-        idString: "armory_vault",
-        name: "Armory Vault",
-        defType: DefinitionType.Building,
-        material: "stone",
-        particle: "rock_particle",
-        particleVariations: 2,
-        hitbox: new GroupHitbox(
-            RectangleHitbox.fromRect(2.09, 36, Vec(36.03, -2)),
-            RectangleHitbox.fromRect(2.09, 11.67, Vec(-13.96, -15.1)),
-            RectangleHitbox.fromRect(13.4, 2.09, Vec(30.37, 16.52)),
-            RectangleHitbox.fromRect(74.12, 2.09, Vec(0.01, -20.98)),
-            RectangleHitbox.fromRect(2.09, 11.07, Vec(-13.96, 10.47)),
-            RectangleHitbox.fromRect(29, 2.09, Vec(21.9, -6.66)),
-            RectangleHitbox.fromRect(2.07, 37, Vec(-36.01, -2.5)),
-            RectangleHitbox.fromRect(35.39, 2.09, Vec(-19.35, 16.52)),
-            RectangleHitbox.fromRect(4.16, 2.09, Vec(10.5, 16.52))
-        ),
-        spawnHitbox: RectangleHitbox.fromRect(72, 38, Vec(0, -2)),
-        ceilingHitbox: RectangleHitbox.fromRect(72, 38, Vec(0, -2)),
-        puzzle: {
+    armoryVault(
+        "armory_vault",
+        "Armory Vault",
+        {
             triggerOnSolve: "vault_door",
             delay: 1500,
             order: ["o", "l", "j", "y"],
             solvedSound: true,
             setSolvedImmediately: true
         },
-        floorImages: [
-            {
-                key: "armory_vault_floor_1",
-                position: Vec(-16.6, 0)
-            },
-            {
-                key: "armory_vault_floor_2",
-                position: Vec(20.2, 0)
-            }
-        ],
-        ceilingImages: [{
-            key: "armory_vault_ceiling",
-            position: Vec(0, -2.5),
-            scale: Vec(2, 2)
-        }],
-        ceilingZIndex: ZIndexes.BuildingsCeiling + 1,
-        floors: [{
-            type: FloorNames.Wood,
-            hitbox: RectangleHitbox.fromRect(72, 38, Vec(0, -2))
-        }],
-        subBuildings: IS_CLIENT ? undefined : [{
-            idString: "armory_inner_vault",
-            position: Vec(-25, -2.25)
-        }],
-        obstacles: IS_CLIENT ? undefined : [
-            { idString: "door", position: Vec(3.8, 16.5), rotation: 0 },
-            { idString: "window", position: Vec(18.1, 16.5), rotation: 1 },
-            { idString: "gun_case", position: Vec(31.9, 10), rotation: 3 },
-            { idString: "gun_case", position: Vec(-7.5, 12.4), rotation: 2 },
-            { idString: "ammo_crate", position: Vec(29.5, -0.45), rotation: 0 },
-            { idString: "ammo_crate", position: Vec(12.85, -0.45), rotation: 0 },
-            { idString: "tear_gas_crate", position: Vec(21.2, -0.45), rotation: 1 },
-            { idString: "grenade_crate", position: Vec(-9.1, -15.9) },
+        [
             ...Array.from(
                 { length: 4 },
                 (_, i) => ({
@@ -5225,18 +5248,21 @@ export const Buildings = new ObjectDefinitions<BuildingDefinition>([
                     puzzlePiece: ["y", "o", "j", "l"][i]
                 } satisfies BuildingObstacle)
             ),
-            { idString: "control_panel2", position: Vec(30.7, -14), rotation: 3 },
-            { idString: "ammo_crate", position: Vec(-20, -14.8), rotation: 0 },
-            { idString: "regular_crate", position: Vec(-29.8, -14.8), rotation: 0 },
-            { idString: "barrel", position: Vec(-30.9, 11.3) },
-            { idString: "briefcase", position: Vec(-20.7, 10.85), rotation: 2 },
-            { idString: "vault_door", position: Vec(-14.1, -3.22), rotation: 3 }
-        ],
-        lootSpawners: IS_CLIENT ? undefined : [{
-            position: Vec(-25.5, -1),
-            table: "armory_skin"
-        }]
-    },
+            { idString: "control_panel2", position: Vec(30.7, -14), rotation: 3 }
+        ]
+    ),
+    // Opened by solving the problems on its terminal, rather than by pressing buttons in the right order
+    armoryVault(
+        "math_vault",
+        "Math Vault",
+        {
+            triggerOnSolve: "vault_door",
+            delay: 1500,
+            solvedSound: true,
+            setSolvedImmediately: true
+        },
+        [{ idString: "math_terminal", position: Vec(30.7, -14), rotation: 3, puzzlePiece: true }]
+    ),
     {
         idString: "armory_inner_vault",
         name: "Armory Inner Vault",
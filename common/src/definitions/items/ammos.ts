@@ -19,6 +19,10 @@ export interface AmmoDefinition extends ItemDefinition {
     readonly ephemeral?: boolean
     readonly defaultCasingFrame?: string
     readonly hideUnlessPresent?: boolean
+    /**
+     * @see {@link HealingItemDefinition.mathGated}
+     */
+    readonly mathGated?: boolean
 }
 
 export const Ammos = new ObjectDefinitions<AmmoDefinition>([
@@ -26,6 +30,7 @@ export const Ammos = new ObjectDefinitions<AmmoDefinition>([
         idString: "12g",
         name: "12 gauge",
         defType: DefinitionType.Ammo,
+        mathGated: true,
         maxStackSize: 20,
         minDropAmount: 3,
         characteristicColor: {
@@ -39,6 +44,7 @@ export const Ammos = new ObjectDefinitions<AmmoDefinition>([
         idString: "556mm",
         name: "5.56mm",
         defType: DefinitionType.Ammo,
+        mathGated: true,
         maxStackSize: 60,
         minDropAmount: 5,
         characteristicColor: {
@@ -52,6 +58,7 @@ export const Ammos = new ObjectDefinitions<AmmoDefinition>([
         idString: "762mm",
         name: "7.62mm",
         defType: DefinitionType.Ammo,
+        mathGated: true,
         maxStackSize: 60,
         minDropAmount: 5,
         characteristicColor: {
@@ -65,6 +72,7 @@ export const Ammos = new ObjectDefinitions<AmmoDefinition>([
         idString: "9mm",
         name: "9mm",
         defType: DefinitionType.Ammo,
+        mathGated: true,
         maxStackSize: 90,
         minDropAmount: 5,
         characteristicColor: {
@@ -78,6 +86,7 @@ export const Ammos = new ObjectDefinitions<AmmoDefinition>([
         idString: "50cal",
         name: ".50 Cal",
         defType: DefinitionType.Ammo,
+        mathGated: true,
         maxStackSize: 9,
         minDropAmount: 3,
         characteristicColor: {
@@ -92,6 +101,7 @@ export const Ammos = new ObjectDefinitions<AmmoDefinition>([
         idString: "338lap",
         name: ".338 Lapua Magnum",
         defType: DefinitionType.Ammo,
+        mathGated: true,
         maxStackSize: 9,
         minDropAmount: 3,
         characteristicColor: {
@@ -106,6 +116,7 @@ export const Ammos = new ObjectDefinitions<AmmoDefinition>([
         idString: "545mm",
         name: "5.45mm",
         defType: DefinitionType.Ammo,
+        mathGated: true,
         maxStackSize: 60,
         minDropAmount: 5,
         characteristicColor: {
@@ -120,6 +131,7 @@ export const Ammos = new ObjectDefinitions<AmmoDefinition>([
         idString: "firework_rocket",
         name: "Firework Rocket",
         defType: DefinitionType.Ammo,
+        mathGated: true,
         maxStackSize: 5,
         minDropAmount: 1,
         characteristicColor: {
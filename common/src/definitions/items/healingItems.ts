@@ -12,6 +12,11 @@ export interface HealingItemDefinition extends ItemDefinition {
         readonly restoreAmounts?: Heal[]
     }
     readonly hideUnlessPresent?: boolean
+    /**
+     * Whether this item is part of the math-gated economy: in games where it's enabled,
+     * the item doesn't spawn on the ground and can only be obtained by solving math problems
+     */
+    readonly mathGated?: boolean
 }
 interface Heal {
     readonly healType: HealType
@@ -28,6 +33,7 @@ export const HealingItems = new ObjectDefinitions<HealingItemDefinition>([
         idString: "gauze",
         name: "Gauze",
         defType: DefinitionType.HealingItem,
+        mathGated: true,
         healType: HealType.Health,
         restoreAmount: 20,
         useTime: 3
@@ -36,6 +42,7 @@ export const HealingItems = new ObjectDefinitions<HealingItemDefinition>([
         idString: "medikit",
         name: "Medikit",
         defType: DefinitionType.HealingItem,
+        mathGated: true,
         healType: HealType.Health,
         restoreAmount: 100,
         useTime: 6
@@ -45,6 +52,7 @@ export const HealingItems = new ObjectDefinitions<HealingItemDefinition>([
         idString: "cola",
         name: "Cola",
         defType: DefinitionType.HealingItem,
+        mathGated: true,
         healType: HealType.Adrenaline,
         restoreAmount: 25,
         useTime: 3
@@ -53,6 +61,7 @@ export const HealingItems = new ObjectDefinitions<HealingItemDefinition>([
         idString: "tablets",
         name: "Tablets",
         defType: DefinitionType.HealingItem,
+        mathGated: true,
         healType: HealType.Adrenaline,
         restoreAmount: 50,
         useTime: 4
@@ -61,6 +70,7 @@ export const HealingItems = new ObjectDefinitions<HealingItemDefinition>([
         idString: "vaccine_syringe",
         name: "Vaccine Syringe",
         defType: DefinitionType.HealingItem,
+        mathGated: true,
         healType: HealType.Special,
         restoreAmount: 0,
         useTime: 2,
@@ -91,6 +91,10 @@ export type ThrowableDefinition = InventoryItemDefinition & {
     }
 
     readonly activeSound?: string
+    /**
+     * @see {@link HealingItemDefinition.mathGated}
+     */
+    readonly mathGated?: boolean
 };
 
 export const Throwables = new InventoryItemDefinitions<ThrowableDefinition>([
@@ -98,6 +102,7 @@ export const Throwables = new InventoryItemDefinitions<ThrowableDefinition>([
         idString: "frag_grenade",
         name: "Frag Grenade",
         defType: DefinitionType.Throwable,
+        mathGated: true,
         tier: Tier.C,
         cookable: true,
         fuseTime: 4000,
@@ -143,6 +148,7 @@ export const Throwables = new InventoryItemDefinitions<ThrowableDefinition>([
         idString: "smoke_grenade",
         name: "Smoke Grenade",
         defType: DefinitionType.Throwable,
+        mathGated: true,
         tier: Tier.D,
         cookable: false,
         fuseTime: 2000,
@@ -189,6 +195,7 @@ export const Throwables = new InventoryItemDefinitions<ThrowableDefinition>([
         idString: "confetti_grenade",
         name: "Confetti Grenade",
         defType: DefinitionType.Throwable,
+        mathGated: true,
         tier: Tier.S,
         fuseTime: 4000,
         cookTime: 150,
@@ -234,6 +241,7 @@ export const Throwables = new InventoryItemDefinitions<ThrowableDefinition>([
         idString: "c4",
         name: "C4",
         defType: DefinitionType.Throwable,
+        mathGated: true,
         tier: Tier.S,
         c4: true,
         cookable: false,
@@ -281,6 +289,7 @@ export const Throwables = new InventoryItemDefinitions<ThrowableDefinition>([
         idString: "flare",
         name: "Flare",
         defType: DefinitionType.Throwable,
+        mathGated: true,
         tier: Tier.S,
         cookable: false,
         summonAirdrop: true,
@@ -332,6 +341,7 @@ export const Throwables = new InventoryItemDefinitions<ThrowableDefinition>([
         idString: "proj_seed",
         name: "Seed",
         defType: DefinitionType.Throwable,
+        mathGated: true,
         tier: Tier.S,
         cookable: true,
         fuseTime: 1500,
@@ -230,6 +230,18 @@ type ActivatableMixin = {
         readonly idString: ReferenceOrRandom<ObstacleDefinition>
         readonly delay: number
     }
+    /**
+     * Makes the obstacle a math terminal: interacting with it gives the player a series of problems,
+     * and it's only activated once they've solved every one of them
+     */
+    readonly mathTerminal?: {
+        readonly steps: number
+        /**
+         * The difficulty level the terminal's problems start at. Problem families that don't go
+         * this high are given at their hardest level instead
+         */
+        readonly minDifficulty: number
+    }
 } | { readonly isActivatable?: false };
 
 export const Materials = [
@@ -2232,6 +2244,40 @@ export const Obstacles = new ObjectDefinitions<ObstacleDefinition>(([
         },
         airdropUnlock: true
     },
+    {
+        idString: "math_crate_locked",
+        name: "Math Crate",
+        defType: DefinitionType.Obstacle,
+        material: "metal_light",
+        health: 10000,
+        indestructible: true,
+        reflectBullets: true,
+        hitbox: RectangleHitbox.fromRect(8.7, 8.7),
+        spawnHitbox: RectangleHitbox.fromRect(10, 10),
+        spawnMode: MapObjectSpawnMode.GrassAndSand,
+        rotationMode: RotationMode.None,
+        hideOnMap: true,
+        isActivatable: true,
+        zIndex: ZIndexes.ObstaclesLayer2,
+        sound: {
+            name: "airdrop_unlock",
+            maxRange: 64,
+            falloff: 0.3
+        },
+        replaceWith: {
+            idString: "aegis_crate",
+            delay: 800
+        },
+        mathTerminal: {
+            steps: 2,
+            minDifficulty: 3
+        },
+        noResidue: true,
+        frames: {
+            base: "airdrop_crate_locked",
+            particle: "metal_particle"
+        }
+    },
     {
         idString: "airdrop_crate_locked_force",
         name: "Airdrop",
@@ -4305,6 +4351,24 @@ export const Obstacles = new ObjectDefinitions<ObstacleDefinition>(([
             residue: "barrel_residue"
         }
     },
+    {
+        ...controlPanel("math_terminal", "Math Terminal"),
+        indestructible: true,
+        isActivatable: true,
+        sound: {
+            names: ["button_press", "puzzle_solved"]
+        },
+        mathTerminal: {
+            steps: 3,
+            minDifficulty: 4
+        },
+        frames: {
+            base: "control_panel",
+            activated: "control_panel_activated",
+            particle: "metal_particle",
+            residue: "barrel_residue"
+        }
+    },
     {
         ...controlPanel("control_panel2", "Control Panel"),
         waterOverlay: {
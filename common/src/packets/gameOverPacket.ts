@@ -1,5 +1,31 @@
+import { Loots, type LootDefinition } from "../definitions/loots";
 import { Packet, PacketType } from "../packets/packet";
 
+export interface OperationSummary {
+    readonly operation: string
+    readonly attempted: number
+    readonly correct: number
+}
+
+/**
+ * What a player did in the math challenge over the course of a match.
+ * Only first attempts count towards the numbers of problems attempted and solved
+ */
+export interface LearningSummary {
+    readonly problemsAttempted: number
+    readonly problemsCorrect: number
+    readonly operations: readonly OperationSummary[]
+    /**
+     * Time taken to give the quickest correct answer, in milliseconds
+     */
+    readonly fastestAnswer?: number
+    readonly xpEarned: number
+    readonly itemsEarned: ReadonlyArray<{
+        readonly item: LootDefinition
+        readonly count: number
+    }>
+}
+
 export interface TeammateGameOverData {
     readonly playerID: number
     readonly kills: number
@@ -7,6 +33,7 @@ export interface TeammateGameOverData {
     readonly damageTaken: number
     readonly timeAlive: number
     readonly alive: boolean
+    readonly learning: LearningSummary
 }
 
 export interface GameOverData {
@@ -18,14 +45,30 @@ export interface GameOverData {
 export const GameOverPacket = new Packet<GameOverData>(PacketType.GameOver, {
     serialize(strm, data) {
         strm.writeUint8(data.rank);
-        strm.writeArray(data.teammates, teammate =>
+        strm.writeArray(data.teammates, teammate => {
             strm.writeObjectId(teammate.playerID)
                 .writeUint8(teammate.kills)
                 .writeUint16(teammate.damageDone)
                 .writeUint16(teammate.damageTaken)
                 .writeUint16(teammate.timeAlive)
-                .writeUint8(teammate.alive ? 1 : 0)
-        );
+                .writeUint8(teammate.alive ? 1 : 0);
+
+            const { learning } = teammate;
+            strm.writeUint16(learning.problemsAttempted)
+                .writeUint16(learning.problemsCorrect)
+                .writeArray(learning.operations, ({ operation, attempted, correct }) =>
+                    strm.writeString(32, operation)
+                        .writeUint16(attempted)
+                        .writeUint16(correct)
+                )
+                // 0 means there was no correct answer
+                .writeUint32(learning.fastestAnswer ?? 0)
+                .writeUint16(learning.xpEarned)
+                .writeArray(learning.itemsEarned, ({ item, count }) => {
+                    Loots.writeToStream(strm, item);
+                    strm.writeUint16(count);
+                });
+        });
     },
 
     deserialize(stream, data) {
@@ -36,7 +79,22 @@ export const GameOverPacket = new Packet<GameOverData>(PacketType.GameOver, {
             damageDone: stream.readUint16(),
             damageTaken: stream.readUint16(),
             timeAlive: stream.readUint16(),
-            alive: stream.readUint8() === 1
+            alive: stream.readUint8() === 1,
+            learning: {
+                problemsAttempted: stream.readUint16(),
+                problemsCorrect: stream.readUint16(),
+                operations: stream.readArray(() => ({
+                    operation: stream.readString(32),
+                    attempted: stream.readUint16(),
+                    correct: stream.readUint16()
+                })),
+                fastestAnswer: stream.readUint32() || undefined,
+                xpEarned: stream.readUint16(),
+                itemsEarned: stream.readArray(() => ({
+                    item: Loots.readFromStream(stream),
+                    count: stream.readUint16()
+                }))
+            }
         }));
     }
 });
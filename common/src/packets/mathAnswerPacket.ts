@@ -1,19 +1,26 @@
+import { MATH_ANSWER_ENCODING_VERSION, type MathAnswer } from "../utils/mathProblems";
 import { Packet, PacketType } from "./packet";
 
 export interface MathAnswerData {
     readonly type: PacketType.MathAnswer
-    readonly answer: number
+    readonly answer: MathAnswer
     readonly problemId: number
 }
 
 export const MathAnswerPacket = new Packet<MathAnswerData>(PacketType.MathAnswer, {
     serialize(stream, data) {
-        stream.writeInt16(data.answer);
+        stream.writeUint8(MATH_ANSWER_ENCODING_VERSION);
+        stream.writeMathAnswer(data.answer);
         stream.writeUint16(data.problemId);
     },
 
     deserialize(stream, data, saveIndex, recordTo) {
-        data.answer = stream.readInt16();
+        const version = stream.readUint8();
+        if (version !== MATH_ANSWER_ENCODING_VERSION) {
+            throw new RangeError(`Unsupported math answer encoding (expected version ${MATH_ANSWER_ENCODING_VERSION}, got ${version})`);
+        }
+
+        data.answer = stream.readMathAnswer();
         data.problemId = stream.readUint16();
     }
 });
@@ -1,3 +1,4 @@
+import { type MathHint, type MathOperand } from "../utils/mathProblems";
 import { Packet, PacketType } from "./packet";
 
 export interface MathFeedbackData {
@@ -6,27 +7,75 @@ export interface MathFeedbackData {
     readonly problemId: number
     readonly xpEarned?: number
     readonly totalXP?: number
+    /**
+     * Set while the player is locked out for answering wrong too many times: how long until they may answer again, in milliseconds
+     */
+    readonly lockedFor?: number
+    /**
+     * A nudge towards the method, sent after the first wrong answer to a problem
+     */
+    readonly hint?: MathHint
+    /**
+     * A short worked solution, starting with the problem and followed by each step towards its answer.
+     * Sent once the player has missed a problem too many times, at which point it's replaced with a new one
+     */
+    readonly solution?: readonly MathOperand[]
+    /**
+     * The player's streak of correct answers after this one, which is 0 if this answer broke it.
+     * Not sent if streaks are disabled
+     */
+    readonly streak?: {
+        readonly count: number
+        /**
+         * Multiplier applied to the XP and items earned for the next problem, if it's solved too
+         */
+        readonly multiplier: number
+        /**
+         * How long until the streak breaks if the player doesn't answer, in milliseconds
+         */
+        readonly expiresIn: number
+    }
 }
 
 export const MathFeedbackPacket = new Packet<MathFeedbackData>(PacketType.MathFeedback, {
     serialize(stream, data) {
-        const hasXpEarned = data.xpEarned !== undefined;
-        const hasTotalXP = data.totalXP !== undefined;
-        
         stream.writeBooleanGroup(
             data.isCorrect,
-            hasXpEarned,
-            hasTotalXP
+            data.xpEarned !== undefined,
+            data.totalXP !== undefined,
+            data.lockedFor !== undefined,
+            data.hint !== undefined,
+            data.solution !== undefined,
+            data.streak !== undefined
         );
-        
+
         stream.writeUint16(data.problemId);
-        
-        if (hasXpEarned) {
-            stream.writeUint16(data.xpEarned!);
+
+        if (data.xpEarned !== undefined) {
+            stream.writeUint16(data.xpEarned);
         }
-        
-        if (hasTotalXP) {
-            stream.writeUint32(data.totalXP!);
+
+        if (data.totalXP !== undefined) {
+            stream.writeUint32(data.totalXP);
+        }
+
+        if (data.lockedFor !== undefined) {
+            stream.writeUint32(data.lockedFor);
+        }
+
+        if (data.hint !== undefined) {
+            stream.writeString(32, data.hint.key);
+            stream.writeArray(data.hint.operands, operand => stream.writeMathOperand(operand));
+        }
+
+        if (data.solution !== undefined) {
+            stream.writeArray(data.solution, step => stream.writeMathOperand(step));
+        }
+
+        if (data.streak !== undefined) {
+            stream.writeUint16(data.streak.count);
+            stream.writeFloat32(data.streak.multiplier);
+            stream.writeUint32(data.streak.expiresIn);
         }
     },
 
@@ -34,18 +83,45 @@ export const MathFeedbackPacket = new Packet<MathFeedbackData>(PacketType.MathFe
         const [
             isCorrect,
             hasXpEarned,
-            hasTotalXP
+            hasTotalXP,
+            hasLockedFor,
+            hasHint,
+            hasSolution,
+            hasStreak
         ] = stream.readBooleanGroup();
-        
+
         data.isCorrect = isCorrect;
         data.problemId = stream.readUint16();
-        
+
         if (hasXpEarned) {
             data.xpEarned = stream.readUint16();
         }
-        
+
         if (hasTotalXP) {
             data.totalXP = stream.readUint32();
         }
+
+        if (hasLockedFor) {
+            data.lockedFor = stream.readUint32();
+        }
+
+        if (hasHint) {
+            data.hint = {
+                key: stream.readString(32),
+                operands: stream.readArray(stream => stream.readMathOperand())
+            };
+        }
+
+        if (hasSolution) {
+            data.solution = stream.readArray(stream => stream.readMathOperand());
+        }
+
+        if (hasStreak) {
+            data.streak = {
+                count: stream.readUint16(),
+                multiplier: stream.readFloat32(),
+                expiresIn: stream.readUint32()
+            };
+        }
     }
-});
\ No newline at end of file
+});
@@ -1,26 +1,111 @@
-import { type ReferenceTo } from "../utils/objectDefinitions";
+import { type AnswerType, type MathAnswer, type MathExpression, type MathWordProblem, OperandKind } from "../utils/mathProblems";
 import { Packet, PacketType } from "./packet";
 
 export interface MathProblemData {
     readonly type: PacketType.MathProblem
-    readonly problem: string
+    readonly expression: MathExpression
+    /**
+     * Set for problems set in the game, which are shown worded instead of as their expression
+     */
+    readonly words?: MathWordProblem
+    /**
+     * The kind of answer expected. Players may still answer in another numeric form, e.g. `0.5` for `1/2`
+     */
+    readonly answerType: AnswerType
+    /**
+     * The choices to pick from when {@link MathProblemData.answerType} is {@link AnswerType.Choice}
+     */
+    readonly choices?: readonly MathAnswer[]
     readonly rewardType: string
     readonly rewardCount: number
     readonly problemId: number
+    /**
+     * Set for problems given by a math terminal, which are solved one after the other instead of
+     * being rewarded individually. Steps are numbered from 1
+     */
+    readonly terminal?: {
+        readonly step: number
+        readonly steps: number
+    }
+    /**
+     * Set for practice problems, given to players after they die. Solving them banks points towards
+     * a starter kit for the next match, which only verified students can bank, so `maxPoints` is 0 for others
+     */
+    readonly practice?: {
+        readonly banked: number
+        readonly maxPoints: number
+    }
 }
 
 export const MathProblemPacket = new Packet<MathProblemData>(PacketType.MathProblem, {
     serialize(stream, data) {
-        stream.writeString(32, data.problem);
+        stream.writeMathOperand(data.expression);
+        stream.writeUint8(data.answerType);
+
+        // Word problems always have a translation key, so an empty key means there are no words
+        stream.writeString(32, data.words?.key ?? "");
+        if (data.words !== undefined) {
+            stream.writeArray(data.words.operands, operand => stream.writeMathOperand(operand));
+            stream.writeArray(data.words.items, item => stream.writeString(32, item));
+        }
+
+        const choices = data.choices ?? [];
+        stream.writeUint8(choices.length);
+        for (const choice of choices) {
+            stream.writeMathAnswer(choice);
+        }
+
         stream.writeString(32, data.rewardType);
         stream.writeUint8(data.rewardCount);
         stream.writeUint16(data.problemId);
+
+        // Terminals always have at least one step, so a step count of 0 means there's no terminal
+        stream.writeUint8(data.terminal?.steps ?? 0);
+        if (data.terminal !== undefined) {
+            stream.writeUint8(data.terminal.step);
+        }
+
+        stream.writeBooleanGroup(data.practice !== undefined);
+        if (data.practice !== undefined) {
+            stream.writeUint16(data.practice.banked);
+            stream.writeUint16(data.practice.maxPoints);
+        }
     },
 
     deserialize(stream, data, saveIndex, recordTo) {
-        data.problem = stream.readString(32);
+        const expression = stream.readMathOperand();
+        if (expression.kind !== OperandKind.Expression) {
+            throw new TypeError("Math problem is not an expression");
+        }
+        data.expression = expression;
+        data.answerType = stream.readUint8();
+
+        const key = stream.readString(32);
+        if (key) {
+            data.words = {
+                key,
+                operands: stream.readArray(stream => stream.readMathOperand()),
+                items: stream.readArray(stream => stream.readString(32))
+            };
+        }
+
+        const choiceCount = stream.readUint8();
+        if (choiceCount) {
+            data.choices = Array.from({ length: choiceCount }, () => stream.readMathAnswer());
+        }
+
         data.rewardType = stream.readString(32);
         data.rewardCount = stream.readUint8();
         data.problemId = stream.readUint16();
+
+        const steps = stream.readUint8();
+        if (steps) {
+            data.terminal = { step: stream.readUint8(), steps };
+        }
+
+        const [isPractice] = stream.readBooleanGroup();
+        if (isPractice) {
+            data.practice = { banked: stream.readUint16(), maxPoints: stream.readUint16() };
+        }
     }
 });
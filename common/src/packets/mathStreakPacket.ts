@@ -0,0 +1,22 @@
+import { Packet, PacketType } from "./packet";
+
+/**
+ * Announces a player reaching a streak milestone, sent to everyone for the kill feed
+ */
+export interface MathStreakData {
+    readonly type: PacketType.MathStreak
+    readonly playerId: number
+    readonly streak: number
+}
+
+export const MathStreakPacket = new Packet<MathStreakData>(PacketType.MathStreak, {
+    serialize(stream, data) {
+        stream.writeObjectId(data.playerId);
+        stream.writeUint16(data.streak);
+    },
+
+    deserialize(stream, data) {
+        data.playerId = stream.readObjectId();
+        data.streak = stream.readUint16();
+    }
+});
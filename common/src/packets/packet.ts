@@ -17,7 +17,9 @@ export enum PacketType {
     Update,
     MathProblem,
     MathAnswer,
-    MathFeedback
+    MathFeedback,
+    TeamMathChallenge,
+    MathStreak
 }
 
 export const enum DataSplitTypes {
@@ -8,10 +8,12 @@ import { MapPacket } from "./mapPacket";
 import { MathAnswerPacket } from "./mathAnswerPacket";
 import { MathFeedbackPacket } from "./mathFeedbackPacket";
 import { MathProblemPacket } from "./mathProblemPacket";
+import { MathStreakPacket } from "./mathStreakPacket";
 import { DataSplit, MutablePacketDataIn, PacketDataOut } from "./packet";
 import { PickupPacket } from "./pickupPacket";
 import { ReportPacket } from "./reportPacket";
 import { SpectatePacket } from "./spectatePacket";
+import { TeamMathChallengePacket } from "./teamMathChallengePacket";
 import { UpdatePacket } from "./updatePacket";
 
 export const Packets = [
@@ -27,7 +29,9 @@ export const Packets = [
     UpdatePacket,
     MathProblemPacket,
     MathAnswerPacket,
-    MathFeedbackPacket
+    MathFeedbackPacket,
+    TeamMathChallengePacket,
+    MathStreakPacket
 ] as const;
 
 export class PacketStream {
@@ -0,0 +1,49 @@
+import { Packet, PacketType } from "./packet";
+
+export enum TeamChallengeReward {
+    /**
+     * An airdrop is called in next to the player who solved the last problem
+     */
+    Airdrop,
+    /**
+     * Every living team member is healed to full health
+     */
+    Heal
+}
+
+/**
+ * Progress on a team challenge: a set of problems shared by a whole team, which teammates split between them.
+ * Sent to every member of the team whenever the challenge starts, progresses or is completed
+ */
+export interface TeamMathChallengeData {
+    readonly type: PacketType.TeamMathChallenge
+    readonly challengeId: number
+    readonly reward: TeamChallengeReward
+    readonly problemCount: number
+    /**
+     * The IDs of the players who solved each of the problems solved so far, in the order they were solved
+     */
+    readonly solvedBy: readonly number[]
+    /**
+     * The IDs of the problems teammates are currently working on
+     */
+    readonly problemIds: readonly number[]
+}
+
+export const TeamMathChallengePacket = new Packet<TeamMathChallengeData>(PacketType.TeamMathChallenge, {
+    serialize(stream, data) {
+        stream.writeUint16(data.challengeId);
+        stream.writeUint8(data.reward);
+        stream.writeUint8(data.problemCount);
+        stream.writeArray(data.solvedBy, id => stream.writeObjectId(id));
+        stream.writeArray(data.problemIds, id => stream.writeUint16(id));
+    },
+
+    deserialize(stream, data) {
+        data.challengeId = stream.readUint16();
+        data.reward = stream.readUint8();
+        data.problemCount = stream.readUint8();
+        data.solvedBy = stream.readArray(() => stream.readObjectId());
+        data.problemIds = stream.readArray(() => stream.readUint16());
+    }
+});
@@ -1,3 +1,5 @@
+import { type TeamMode } from "./constants";
+
 export type Orientation = 0 | 1 | 2 | 3;
 export type Variation = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7;
 
@@ -28,7 +30,9 @@ export const enum CustomTeamMessages {
     Settings,
     KickPlayer,
     Start,
-    Started
+    Started,
+    Classroom,
+    Authenticate
 }
 
 export interface CustomTeamPlayerInfo {
@@ -41,6 +45,30 @@ export interface CustomTeamPlayerInfo {
     nameColor?: number
 }
 
+/**
+ * How a classroom's match is set up by its teacher
+ */
+export interface ClassroomSettings {
+    /**
+     * The IDs of the students allowed to join. Only sent to the teacher
+     */
+    roster?: string[]
+    /**
+     * Lets the teacher see the classroom's dashboard. Only sent to the teacher
+     */
+    dashboardKey?: string
+    teamMode: TeamMode
+    map: string
+    /**
+     * The math problem generator families problems are picked from
+     */
+    generators: string[]
+    /**
+     * The easiest difficulty level problems are picked at, from 0 to 10
+     */
+    minDifficulty: number
+}
+
 export type CustomTeamMessage =
     | {
         type: CustomTeamMessages.Join
@@ -69,4 +97,20 @@ export type CustomTeamMessage =
     }
     | {
         type: CustomTeamMessages.Start | CustomTeamMessages.Started
+    }
+    | {
+        /**
+         * Sent by the server when a classroom's settings change, and by its teacher to change them
+         */
+        type: CustomTeamMessages.Classroom
+        settings: Partial<ClassroomSettings>
+    }
+    | {
+        /**
+         * Sent by the client as soon as it connects, before anything else. Students only join
+         * a classroom once it's been checked; other teams ignore it. The token is sent here
+         * rather than in the URL, so that it doesn't end up in server and proxy logs
+         */
+        type: CustomTeamMessages.Authenticate
+        token?: string
     };
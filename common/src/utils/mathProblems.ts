@@ -0,0 +1,282 @@
+/**
+ * Version of the encoding used for answers in {@link MathAnswerPacket}. Increase this
+ * whenever the layout written by {@link SuroiByteStream.writeMathAnswer} changes
+ */
+export const MATH_ANSWER_ENCODING_VERSION = 2;
+
+export enum AnswerType {
+    Integer,
+    Decimal,
+    Fraction,
+    /**
+     * The answer is picked from a list of choices sent along with the problem
+     */
+    Choice,
+    /**
+     * The problem is a statement, such as `7 × 8 = 54`, to be marked as true or false
+     */
+    Boolean
+}
+
+export type MathAnswer =
+    | {
+        readonly type: AnswerType.Integer | AnswerType.Decimal
+        readonly value: number
+    }
+    | {
+        readonly type: AnswerType.Fraction
+        readonly numerator: number
+        /**
+         * Always positive; the sign is carried by the numerator
+         */
+        readonly denominator: number
+    }
+    | {
+        readonly type: AnswerType.Choice
+        readonly index: number
+    }
+    | {
+        readonly type: AnswerType.Boolean
+        readonly value: boolean
+    };
+
+export enum MathOperator {
+    Add,
+    Subtract,
+    Multiply,
+    Divide,
+    /**
+     * `3/4 of 20`
+     */
+    FractionOf,
+    /**
+     * `25% of 80`
+     */
+    PercentOf,
+    /**
+     * Used for equations, such as `7 × ? = 56`
+     */
+    Equals
+}
+
+export enum OperandKind {
+    Number,
+    Fraction,
+    /**
+     * The `?` in an equation
+     */
+    Unknown,
+    Expression
+}
+
+export type MathOperand =
+    | {
+        readonly kind: OperandKind.Number
+        readonly value: number
+    }
+    | {
+        readonly kind: OperandKind.Fraction
+        readonly numerator: number
+        readonly denominator: number
+    }
+    | { readonly kind: OperandKind.Unknown }
+    | MathExpression;
+
+export interface MathExpression {
+    readonly kind: OperandKind.Expression
+    readonly operator: MathOperator
+    readonly operands: [MathOperand, MathOperand]
+}
+
+/**
+ * A hint for solving a problem, sent as the name of the translation it's shown with, and the operands
+ * filling it in, as `<a>`, `<b>` and so on. Operands are written out in the player's notation
+ */
+export interface MathHint {
+    readonly key: string
+    readonly operands: readonly MathOperand[]
+}
+
+/**
+ * A problem set in the game, such as how many full reloads a player's ammo makes. It's sent as the name of
+ * the translation it's worded with, the operands filling it in, as `<a>`, `<b>` and so on, and the IDs of
+ * the items it mentions, filling in `<item_a>`, `<item_b>` and so on with their names
+ */
+export interface MathWordProblem {
+    readonly key: string
+    readonly operands: readonly MathOperand[]
+    readonly items: readonly string[]
+}
+
+/**
+ * How expressions are written out, so that clients can use the symbols and number formatting of their language
+ */
+export interface MathNotation {
+    /**
+     * Writes out a number, e.g. with digit grouping
+     */
+    number(value: number): string
+    fraction(numerator: string, denominator: string): string
+    readonly unknown: string
+    /**
+     * Writes out an operation between two operands that have already been written out
+     */
+    operation(operator: MathOperator, left: string, right: string): string
+}
+
+const operatorSymbols: Record<MathOperator, string> = {
+    [MathOperator.Add]: "+",
+    [MathOperator.Subtract]: "-",
+    [MathOperator.Multiply]: "×",
+    [MathOperator.Divide]: "÷",
+    [MathOperator.FractionOf]: "of",
+    [MathOperator.PercentOf]: "% of",
+    [MathOperator.Equals]: "="
+};
+
+/**
+ * Plain text notation, used for logs and learning records
+ */
+export const plainNotation: MathNotation = Object.freeze({
+    number: (value: number) => `${value}`,
+    fraction: (numerator: string, denominator: string) => `${numerator}/${denominator}`,
+    unknown: "?",
+    operation(operator: MathOperator, left: string, right: string): string {
+        return operator === MathOperator.PercentOf
+            ? `${left}% of ${right}`
+            : `${left} ${operatorSymbols[operator]} ${right}`;
+    }
+});
+
+const precedence: Record<MathOperator, number> = {
+    [MathOperator.Equals]: 0,
+    [MathOperator.Add]: 1,
+    [MathOperator.Subtract]: 1,
+    [MathOperator.Multiply]: 2,
+    [MathOperator.Divide]: 2,
+    [MathOperator.FractionOf]: 3,
+    [MathOperator.PercentOf]: 3
+};
+
+/**
+ * Tolerance used when comparing answers numerically, so that e.g. `0.1 + 0.2` matches `0.3`
+ */
+const EPSILON = 1e-9;
+
+export const MathAnswers = Object.freeze({
+    /**
+     * @returns The numeric value of an answer, or `undefined` for answers that aren't numbers
+     */
+    value(answer: MathAnswer): number | undefined {
+        switch (answer.type) {
+            case AnswerType.Integer:
+            case AnswerType.Decimal:
+                return answer.value;
+            case AnswerType.Fraction:
+                return answer.numerator / answer.denominator;
+            case AnswerType.Choice:
+            case AnswerType.Boolean:
+                return undefined;
+        }
+    },
+    /**
+     * Checks whether two answers are equivalent. Numeric answers are compared by value,
+     * so `3/4` matches `0.75` and `6/8`
+     */
+    equal(a: MathAnswer, b: MathAnswer): boolean {
+        if (a.type === AnswerType.Choice || b.type === AnswerType.Choice) {
+            return a.type === AnswerType.Choice && b.type === AnswerType.Choice && a.index === b.index;
+        }
+
+        if (a.type === AnswerType.Boolean || b.type === AnswerType.Boolean) {
+            return a.type === AnswerType.Boolean && b.type === AnswerType.Boolean && a.value === b.value;
+        }
+
+        const expected = this.value(a) ?? NaN;
+        return Math.abs(expected - (this.value(b) ?? NaN)) <= EPSILON * Math.max(1, Math.abs(expected));
+    },
+    /**
+     * Parses an answer typed in by a player, such as `12`, `-2.5` or `3/4`
+     * @returns The answer, or `undefined` if the text isn't a valid answer
+     */
+    parse(text: string): MathAnswer | undefined {
+        text = text.trim().replace(/^−/, "-");
+
+        const fraction = /^(-?\d+)\s*\/\s*(-?\d+)$/.exec(text);
+        if (fraction) {
+            let numerator = parseInt(fraction[1]);
+            let denominator = parseInt(fraction[2]);
+            if (denominator === 0) return;
+
+            if (denominator < 0) {
+                numerator = -numerator;
+                denominator = -denominator;
+            }
+            return { type: AnswerType.Fraction, numerator, denominator };
+        }
+
+        if (/^-?\d+$/.test(text)) {
+            return { type: AnswerType.Integer, value: parseInt(text) };
+        }
+
+        if (/^-?(\d+\.\d*|\.\d+)$/.test(text)) {
+            return { type: AnswerType.Decimal, value: parseFloat(text) };
+        }
+    },
+    toString(answer: MathAnswer, notation: MathNotation = plainNotation): string {
+        switch (answer.type) {
+            case AnswerType.Integer:
+            case AnswerType.Decimal:
+                return notation.number(answer.value);
+            case AnswerType.Fraction:
+                return notation.fraction(notation.number(answer.numerator), notation.number(answer.denominator));
+            case AnswerType.Choice:
+                return `#${answer.index + 1}`;
+            case AnswerType.Boolean:
+                return answer.value ? "true" : "false";
+        }
+    }
+});
+
+export const MathExpressions = Object.freeze({
+    /**
+     * Writes out an expression, e.g. `(3 + 4) × 5` or `7 × ? = 56`. Parentheses are only added where they're needed
+     * @param notation The symbols and number formatting to use. Defaults to plain text
+     */
+    format(operand: MathOperand, notation: MathNotation = plainNotation): string {
+        return formatOperand(operand, true, notation);
+    }
+});
+
+/**
+ * @param leftmost Whether this operand is written first, in which case a leading minus sign is unambiguous
+ */
+function formatOperand(operand: MathOperand, leftmost: boolean, notation: MathNotation): string {
+    switch (operand.kind) {
+        case OperandKind.Number: {
+            const value = notation.number(operand.value);
+            return operand.value < 0 && !leftmost ? `(${value})` : value;
+        }
+        case OperandKind.Fraction:
+            return notation.fraction(notation.number(operand.numerator), notation.number(operand.denominator));
+        case OperandKind.Unknown:
+            return notation.unknown;
+        case OperandKind.Expression: {
+            const { operator, operands: [left, right] } = operand;
+
+            const wrap = (child: MathOperand, isRight: boolean): string => {
+                // Each side of an equation is read on its own
+                if (operator === MathOperator.Equals) return formatOperand(child, true, notation);
+                if (child.kind !== OperandKind.Expression) return formatOperand(child, leftmost && !isRight, notation);
+
+                // Subtraction and division aren't associative, so `a - (b - c)` needs its parentheses
+                const needsParentheses = precedence[child.operator] < precedence[operator]
+                    || (isRight && precedence[child.operator] === precedence[operator] && (operator === MathOperator.Subtract || operator === MathOperator.Divide));
+
+                return needsParentheses ? `(${formatOperand(child, true, notation)})` : formatOperand(child, leftmost && !isRight, notation);
+            };
+
+            return notation.operation(operator, wrap(left, false), wrap(right, true));
+        }
+    }
+}
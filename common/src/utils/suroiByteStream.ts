@@ -2,6 +2,7 @@ import { GameConstants, ObjectCategory, RotationMode, type Layer } from "../cons
 import { type Orientation } from "../typings";
 import { ByteStream } from "./byteStream";
 import { Angle, halfπ } from "./math";
+import { AnswerType, type MathAnswer, type MathExpression, type MathOperand, OperandKind } from "./mathProblems";
 import { type Vector } from "./vector";
 
 export const calculateEnumPacketBits = (enumeration: Record<string | number, string | number>): number => Math.ceil(Math.log2(Object.keys(enumeration).length / 2));
@@ -244,4 +245,109 @@ export class SuroiByteStream extends ByteStream {
 
         return ByteStream.decoder.decode(new Uint8Array(chars));
     }
+
+    /**
+     * Writes an answer to a math problem to the stream. Fractions must have a positive denominator
+     */
+    writeMathAnswer(answer: MathAnswer): this {
+        this.writeUint8(answer.type);
+        switch (answer.type) {
+            case AnswerType.Integer: {
+                this.writeInt32(answer.value);
+                break;
+            }
+            case AnswerType.Decimal: {
+                this.writeFloat64(answer.value);
+                break;
+            }
+            case AnswerType.Fraction: {
+                this.writeInt32(answer.numerator);
+                this.writeUint32(answer.denominator);
+                break;
+            }
+            case AnswerType.Choice: {
+                this.writeUint8(answer.index);
+                break;
+            }
+            case AnswerType.Boolean: {
+                this.writeUint8(answer.value ? 1 : 0);
+                break;
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Reads an answer to a math problem from the stream
+     */
+    readMathAnswer(): MathAnswer {
+        const type = this.readUint8() as AnswerType;
+        switch (type) {
+            case AnswerType.Integer:
+            case AnswerType.Decimal:
+                return { type, value: type === AnswerType.Integer ? this.readInt32() : this.readFloat64() };
+            case AnswerType.Fraction:
+                return { type, numerator: this.readInt32(), denominator: this.readUint32() };
+            case AnswerType.Choice:
+                return { type, index: this.readUint8() };
+            case AnswerType.Boolean:
+                return { type, value: this.readUint8() !== 0 };
+            default:
+                throw new RangeError(`Unknown answer type ${type as number}`);
+        }
+    }
+
+    /**
+     * Writes a math expression to the stream, operands first-to-last and depth-first
+     */
+    writeMathOperand(operand: MathOperand): this {
+        this.writeUint8(operand.kind);
+        switch (operand.kind) {
+            case OperandKind.Number: {
+                this.writeFloat64(operand.value);
+                break;
+            }
+            case OperandKind.Fraction: {
+                this.writeInt32(operand.numerator);
+                this.writeUint32(operand.denominator);
+                break;
+            }
+            case OperandKind.Unknown: {
+                break;
+            }
+            case OperandKind.Expression: {
+                this.writeUint8(operand.operator);
+                this.writeMathOperand(operand.operands[0]);
+                this.writeMathOperand(operand.operands[1]);
+                break;
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Reads a math expression from the stream
+     * @param depth Used to reject absurdly nested expressions; leave this as is
+     */
+    readMathOperand(depth = 0): MathOperand {
+        if (depth > 16) throw new RangeError("Math expression is nested too deeply");
+
+        const kind = this.readUint8() as OperandKind;
+        switch (kind) {
+            case OperandKind.Number:
+                return { kind, value: this.readFloat64() };
+            case OperandKind.Fraction:
+                return { kind, numerator: this.readInt32(), denominator: this.readUint32() };
+            case OperandKind.Unknown:
+                return { kind };
+            case OperandKind.Expression:
+                return {
+                    kind,
+                    operator: this.readUint8(),
+                    operands: [this.readMathOperand(depth + 1), this.readMathOperand(depth + 1)]
+                } satisfies MathExpression;
+            default:
+                throw new RangeError(`Unknown operand kind ${kind as number}`);
+        }
+    }
 }
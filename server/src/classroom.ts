@@ -0,0 +1,175 @@
+import { TeamMode } from "@common/constants";
+import { type ClassroomSettings, CustomTeamMessages, type CustomTeamMessage } from "@common/typings";
+import { Numeric } from "@common/utils/math";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { Maps } from "./data/maps";
+import { type ClassroomGameOptions, type GameManager } from "./gameManager";
+import { ProblemGenerators } from "./math/problemGenerators";
+import { CustomTeam, type CustomTeamPlayer } from "./team";
+import { Config } from "./utils/config";
+import { modeFromMap } from "./utils/misc";
+
+/**
+ * A private match for one class, built on a custom team. The teacher who created it leads it: they set up
+ * the match, choose which students may join, and start it. Students join with its code, which is longer
+ * than a team's, and are checked against the roster before their connection is accepted
+ */
+export class Classroom extends CustomTeam {
+    static readonly codeLength = 6;
+
+    /**
+     * The IDs of the students allowed to join. Empty until the teacher sets it, so nobody can join before then
+     */
+    readonly roster = new Set<string>();
+
+    /**
+     * Only sent to the teacher who leads the classroom, so that nobody else can see its dashboard.
+     * It's good for this classroom only, so unlike an access token, it can go in the dashboard's URL
+     */
+    private readonly _dashboardKey = randomBytes(16).toString("hex");
+
+    teamMode: TeamMode;
+    map: string;
+    generators: readonly string[];
+    minDifficulty = 0;
+
+    constructor(gameManager: GameManager) {
+        super(gameManager, Classroom.codeLength);
+
+        this.teamMode = gameManager.teamMode.current;
+        this.map = gameManager.map.current;
+        this.generators = Config.math?.generators ?? ["basic"];
+    }
+
+    /**
+     * Students can only join if they're on the roster, and aren't in the classroom already
+     */
+    canJoin(studentId: string | undefined): boolean {
+        return studentId !== undefined
+            && this.roster.has(studentId)
+            && !this.players.some(player => player.studentId === studentId);
+    }
+
+    /**
+     * @param key The key the dashboard was opened with
+     */
+    canViewDashboard(key: string | null): boolean {
+        if (key === null) return false;
+
+        const given = Buffer.from(key);
+        const expected = Buffer.from(this._dashboardKey);
+        return given.length === expected.length && timingSafeEqual(given, expected);
+    }
+
+    override addPlayer(player: CustomTeamPlayer): void {
+        super.addPlayer(player);
+        player.sendMessage(this._settingsMessage(player.isLeader));
+    }
+
+    override removePlayer(player: CustomTeamPlayer): void {
+        // Students can't carry on without their teacher
+        if (player.isLeader) {
+            for (const student of [...this.players]) {
+                if (student !== player) student.socket?.end(1000, "classroom closed");
+            }
+        }
+
+        super.removePlayer(player);
+    }
+
+    override async onMessage(player: CustomTeamPlayer, message: CustomTeamMessage): Promise<void> {
+        if (!message || !player.isLeader) return;
+
+        switch (message.type) {
+            case CustomTeamMessages.Classroom: {
+                this._applySettings(message.settings);
+
+                // Students taken off the roster are let go
+                for (const student of [...this.players]) {
+                    if (student.isLeader || student.studentId === undefined || this.roster.has(student.studentId)) continue;
+                    student.socket?.end(1000, "kicked");
+                }
+
+                for (const member of this.players) {
+                    member.sendMessage(this._settingsMessage(member.isLeader));
+                }
+                break;
+            }
+            case CustomTeamMessages.KickPlayer: {
+                await super.onMessage(player, message);
+                break;
+            }
+            case CustomTeamMessages.Start: {
+                // Only the teacher starts the match, so students don't need to ready up
+                await this._startGame();
+                this._publishPlayerUpdate();
+                break;
+            }
+        }
+    }
+
+    /**
+     * Applies the settings that are valid, and ignores the others
+     */
+    private _applySettings({ roster, teamMode, map, generators, minDifficulty }: Partial<ClassroomSettings>): void {
+        if (Array.isArray(roster)) {
+            this.roster.clear();
+            for (const studentId of roster) {
+                if (typeof studentId === "string" && studentId) this.roster.add(studentId);
+            }
+        }
+
+        if (teamMode === TeamMode.Solo || teamMode === TeamMode.Duo || teamMode === TeamMode.Squad) {
+            this.teamMode = teamMode;
+        }
+
+        // Players have loaded the assets for the server's mode, so the map has to be in that mode too
+        if (typeof map === "string" && map.split(":")[0] in Maps && modeFromMap(map) === this.gameManager.mode) {
+            this.map = map;
+        }
+
+        if (Array.isArray(generators)) {
+            const families = generators.filter(family => ProblemGenerators.families.includes(family));
+            if (families.length) this.generators = families;
+        }
+
+        if (typeof minDifficulty === "number" && Number.isFinite(minDifficulty)) {
+            this.minDifficulty = Numeric.clamp(Math.round(minDifficulty), 0, 10);
+        }
+    }
+
+    /**
+     * @param forTeacher The roster is only shown to the teacher
+     */
+    private _settingsMessage(forTeacher: boolean): CustomTeamMessage {
+        return {
+            type: CustomTeamMessages.Classroom,
+            settings: {
+                roster: forTeacher ? [...this.roster] : undefined,
+                dashboardKey: forTeacher ? this._dashboardKey : undefined,
+                teamMode: this.teamMode,
+                map: this.map,
+                generators: [...this.generators],
+                minDifficulty: this.minDifficulty
+            }
+        };
+    }
+
+    get gameOptions(): ClassroomGameOptions {
+        return {
+            code: this.id,
+            roster: [...this.roster],
+            teamMode: this.teamMode,
+            map: this.map,
+            generators: this.generators,
+            minDifficulty: this.minDifficulty
+        };
+    }
+
+    /**
+     * Classrooms always play in a game of their own
+     */
+    protected override async _findGame(): Promise<number | undefined> {
+        return (await this.gameManager.newGame(undefined, this.gameOptions))?.id;
+    }
+}
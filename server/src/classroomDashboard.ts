@@ -0,0 +1,143 @@
+import { Numeric } from "@common/utils/math";
+import { type ClassroomStatus, type ClassroomStudentStatus } from "./gameManager";
+
+/**
+ * A classroom's match as the teacher's dashboard shows it
+ */
+export interface ClassroomLiveData {
+    readonly code: string
+    readonly started: boolean
+    /**
+     * How long the match has been going for, in seconds
+     */
+    readonly elapsed: number
+    readonly students: ReadonlyArray<{
+        readonly studentId: string
+        readonly name?: string
+        readonly state: ClassroomStudentStatus["state"]
+        readonly problemsAttempted: number
+        readonly problemsCorrect: number
+        /**
+         * The fraction of problems answered correctly on the first try, or `null` if none were attempted
+         */
+        readonly accuracy: number | null
+        readonly operations: ReadonlyArray<{
+            readonly operation: string
+            readonly attempted: number
+            readonly correct: number
+            readonly accuracy: number | null
+        }>
+        readonly streak: number
+        /**
+         * How long it's been since the student last answered a problem, in seconds, or `null` if they haven't joined
+         */
+        readonly idleTime: number | null
+    }>
+}
+
+function accuracyOf(attempted: number, correct: number): number | null {
+    return attempted ? Math.round(correct / attempted * 1000) / 1000 : null;
+}
+
+export function classroomLiveData({ code, startedTime, students }: ClassroomStatus, now = Date.now()): ClassroomLiveData {
+    const started = startedTime <= now;
+
+    return {
+        code,
+        started,
+        elapsed: started ? Math.floor((now - startedTime) / 1000) : 0,
+        students: students.map(({ studentId, name, state, problemsAttempted, problemsCorrect, operations, streak, lastActive }) => ({
+            studentId,
+            name,
+            state,
+            problemsAttempted,
+            problemsCorrect,
+            accuracy: accuracyOf(problemsAttempted, problemsCorrect),
+            operations: operations.map(({ operation, attempted, correct }) => ({
+                operation,
+                attempted,
+                correct,
+                accuracy: accuracyOf(attempted, correct)
+            })),
+            streak,
+            idleTime: lastActive === undefined ? null : Numeric.max(Math.floor((now - lastActive) / 1000), 0)
+        }))
+    };
+}
+
+function escapeHTML(text: string): string {
+    return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function formatAccuracy(accuracy: number | null): string {
+    return accuracy === null ? "-" : `${Math.round(accuracy * 100)}%`;
+}
+
+function formatDuration(seconds: number): string {
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+/**
+ * Students who have been idle for longer than this, in seconds, are highlighted
+ */
+const IDLE_WARNING = 60;
+
+/**
+ * Renders the teacher's dashboard, which reloads itself every few seconds
+ * @param data `undefined` if the classroom's match hasn't been created yet
+ */
+export function renderClassroomDashboard(code: string, data: ClassroomLiveData | undefined): string {
+    const rows = data?.students.map(({ studentId, name, state, problemsAttempted, problemsCorrect, accuracy, operations, streak, idleTime }) => `
+            <tr class="${state}${idleTime !== null && idleTime > IDLE_WARNING && state === "alive" ? " idle" : ""}">
+                <td>${escapeHTML(name ?? "-")}<br><small>${escapeHTML(studentId)}</small></td>
+                <td>${state}</td>
+                <td>${problemsCorrect} / ${problemsAttempted}</td>
+                <td>${formatAccuracy(accuracy)}</td>
+                <td>${operations.map(({ operation, accuracy, attempted }) => `${escapeHTML(operation.toLowerCase())}: ${formatAccuracy(accuracy)} (${attempted})`).join("<br>") || "-"}</td>
+                <td>${streak}</td>
+                <td>${idleTime === null ? "-" : formatDuration(idleTime)}</td>
+            </tr>`
+    ).join("") ?? "";
+
+    let summary: string;
+    if (data === undefined) summary = "The match hasn't been created yet.";
+    else if (!data.started) summary = "Waiting for the match to start.";
+    else summary = `Match time: ${formatDuration(data.elapsed)}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <meta http-equiv="refresh" content="5">
+    <title>Classroom ${escapeHTML(code)}</title>
+    <style>
+        body { font-family: sans-serif; margin: 2rem; }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { border: 1px solid #ccc; padding: 6px 10px; text-align: left; vertical-align: top; }
+        small { color: #777; }
+        tr.dead, tr.absent, tr.disconnected { color: #999; }
+        tr.idle { background-color: #fff3cd; }
+    </style>
+</head>
+<body>
+    <h1>Classroom ${escapeHTML(code)}</h1>
+    <p>${summary}</p>
+    <table>
+        <thead>
+            <tr>
+                <th>Student</th>
+                <th>Status</th>
+                <th>Correct</th>
+                <th>Accuracy</th>
+                <th>By operation</th>
+                <th>Streak</th>
+                <th>Idle</th>
+            </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+    </table>
+</body>
+</html>
+`;
+}
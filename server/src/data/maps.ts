@@ -18,7 +18,7 @@ import { type GunItem } from "../inventory/gunItem";
 import { GameMap } from "../map";
 import { Player } from "../objects/player";
 import { GamePlugin } from "../pluginManager";
-import { getLootFromTable } from "../utils/lootHelpers";
+import { type ConsumableGating, getLootFromTable } from "../utils/lootHelpers";
 import { LootTables } from "./lootTables";
 import { ConfigSchema } from "../utils/config.d";
 
@@ -80,6 +80,18 @@ export interface MapDefinition {
     readonly obstacles?: Record<ReferenceTo<ObstacleDefinition>, number>
     readonly obstacleClumps?: readonly ObstacleClump[]
     readonly loots?: Record<keyof typeof LootTables[ModeName], number>
+    /**
+     * Overrides the `math.consumableGating` config option for games on this map
+     */
+    readonly consumableGating?: ConsumableGating
+    /**
+     * Math terminals, and the buildings and locked crates that hold them. These are only
+     * generated when the `math.terminals` config option is enabled
+     */
+    readonly mathTerminals?: {
+        readonly buildings?: Record<ReferenceTo<BuildingDefinition>, number>
+        readonly obstacles?: Record<ReferenceTo<ObstacleDefinition>, number>
+    }
 
     readonly places?: ReadonlyArray<{
         readonly name: string
@@ -214,6 +226,14 @@ const maps = {
             loot_barrel: 1,
             flint_lockbox: 1
         },
+        mathTerminals: {
+            buildings: {
+                math_vault: 1
+            },
+            obstacles: {
+                math_crate_locked: 4
+            }
+        },
         obstacleClumps: [
             {
                 clumpAmount: 100,
@@ -994,6 +1014,7 @@ const maps = {
     debug: {
         width: 1620,
         height: 1620,
+        consumableGating: "off",
         // spawn: { mode: "fixed" },
         oceanSize: 128,
         beachSize: 32,
@@ -1055,6 +1076,7 @@ const maps = {
     arena: {
         width: 512,
         height: 512,
+        consumableGating: "off",
         spawn: { mode: "fixed" },
         beachSize: 16,
         oceanSize: 40,
@@ -1504,7 +1526,7 @@ const maps = {
 
             Object.entries(loots ?? {}).forEach(([lootTable, count]) => {
                 for (let i = 0; i < count; i++) {
-                    const loot = getLootFromTable("normal", lootTable);
+                    const loot = getLootFromTable("normal", lootTable, map.game.consumableGating);
 
                     const position = map.getRandomPosition(
                         new CircleHitbox(5),
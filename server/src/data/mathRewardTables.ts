@@ -0,0 +1,121 @@
+import { type AmmoDefinition } from "@common/definitions/items/ammos";
+import { type HealingItemDefinition } from "@common/definitions/items/healingItems";
+import { type ThrowableDefinition } from "@common/definitions/items/throwables";
+import { type ModeName } from "@common/definitions/modes";
+import { type ReferenceTo } from "@common/utils/objectDefinitions";
+
+export interface MathReward {
+    readonly item: ReferenceTo<HealingItemDefinition | AmmoDefinition | ThrowableDefinition>
+    readonly weight: number
+    /**
+     * Range of counts given for the easiest problems
+     */
+    readonly min: number
+    readonly max: number
+    /**
+     * How much the count grows with each difficulty level above 1, as a fraction of the count
+     * given for the easiest problems. Harder problems pay more
+     */
+    readonly difficultyScaling?: number
+}
+
+export interface MathRewardRules {
+    /**
+     * Multiplies the weight of the ammo used by the player's equipped gun
+     */
+    readonly equippedAmmo?: number
+    /**
+     * Multiplies the weight of healing items while the player's health is below
+     * the threshold, given as a fraction of their maximum health
+     */
+    readonly lowHealth?: {
+        readonly threshold: number
+        readonly multiplier: number
+    }
+}
+
+export interface MathRewardTable {
+    readonly rewards: readonly MathReward[]
+    readonly rules?: MathRewardRules
+}
+
+const healingRewards: readonly MathReward[] = [
+    { item: "gauze", weight: 1, min: 2, max: 5, difficultyScaling: 0.1 },
+    { item: "medikit", weight: 1, min: 1, max: 1, difficultyScaling: 0.1 },
+    { item: "cola", weight: 1, min: 1, max: 1, difficultyScaling: 0.1 },
+    { item: "tablets", weight: 1, min: 1, max: 1, difficultyScaling: 0.1 }
+];
+
+const throwableRewards: readonly MathReward[] = [
+    { item: "frag_grenade", weight: 1, min: 1, max: 2 },
+    { item: "smoke_grenade", weight: 1, min: 1, max: 2 }
+];
+
+const rules: MathRewardRules = {
+    equippedAmmo: 3,
+    lowHealth: { threshold: 0.5, multiplier: 3 }
+};
+
+const normal: MathRewardTable = {
+    rewards: [
+        ...healingRewards,
+        { item: "12g", weight: 1, min: 5, max: 15, difficultyScaling: 0.15 },
+        { item: "556mm", weight: 1, min: 10, max: 30, difficultyScaling: 0.15 },
+        { item: "762mm", weight: 1, min: 10, max: 30, difficultyScaling: 0.15 },
+        { item: "9mm", weight: 1, min: 10, max: 30, difficultyScaling: 0.15 },
+        ...throwableRewards
+    ],
+    rules
+};
+
+/**
+ * Halloween and fall share their loot, which has no 9mm and more sniper ammo
+ */
+const autumn: MathRewardTable = {
+    rewards: [
+        ...healingRewards,
+        { item: "12g", weight: 1, min: 5, max: 15, difficultyScaling: 0.15 },
+        { item: "556mm", weight: 1, min: 10, max: 30, difficultyScaling: 0.15 },
+        { item: "762mm", weight: 1, min: 10, max: 30, difficultyScaling: 0.15 },
+        { item: "50cal", weight: 0.3, min: 5, max: 10, difficultyScaling: 0.15 },
+        { item: "338lap", weight: 0.1, min: 2, max: 4, difficultyScaling: 0.15 },
+        ...throwableRewards
+    ],
+    rules
+};
+
+/**
+ * Rewards for solving math problems, for each mode. Every mode lists its own, so that rewards follow
+ * the loot the mode overrides in its loot tables. Modes whose loot is the normal one share its table
+ */
+export const MathRewardTables: Record<ModeName, MathRewardTable> = {
+    normal,
+    birthday: normal,
+    halloween: autumn,
+    fall: autumn,
+    winter: {
+        rewards: [
+            ...normal.rewards,
+            { item: "firework_rocket", weight: 0.3, min: 1, max: 3 }
+        ],
+        rules
+    },
+    infection: {
+        rewards: [
+            ...normal.rewards,
+            { item: "vaccine_syringe", weight: 0.75, min: 1, max: 1 }
+        ],
+        rules
+    },
+    hunted: {
+        rewards: [
+            ...healingRewards,
+            { item: "545mm", weight: 0.75, min: 10, max: 30, difficultyScaling: 0.15 },
+            { item: "556mm", weight: 1, min: 10, max: 30, difficultyScaling: 0.15 },
+            { item: "762mm", weight: 1, min: 10, max: 30, difficultyScaling: 0.15 },
+            { item: "9mm", weight: 1, min: 10, max: 30, difficultyScaling: 0.15 },
+            ...throwableRewards
+        ],
+        rules
+    }
+};
@@ -26,7 +26,7 @@ import { DecalDefinition } from "@common/definitions/decals";
 import type { WebSocket } from "uWebSockets.js";
 import { GAME_SPAWN_WINDOW } from "./data/gasStages";
 import { MapName, Maps } from "./data/maps";
-import { type GameData } from "./gameManager";
+import { type ClassroomGameOptions, type ClassroomStudentStatus, type GameData, PrimaryMessages } from "./gameManager";
 import { Gas } from "./gas";
 import { GunItem } from "./inventory/gunItem";
 import type { MeleeItem } from "./inventory/meleeItem";
@@ -48,10 +48,14 @@ import { Team } from "./team";
 import { Config } from "./utils/config";
 import { Grid } from "./utils/grid";
 import { IDAllocator } from "./utils/idAllocator";
-import { Cache, getAllLoots, getSpawnableLoots, ItemRegistry } from "./utils/lootHelpers";
+import { Cache, type ConsumableGating, getAllLoots, getSpawnableLoots, ItemRegistry } from "./utils/lootHelpers";
 import { cleanUsername, modeFromMap } from "./utils/misc";
+import { isTeacher } from "./utils/serverHelpers";
 import { MapIndicator } from "./objects/mapIndicator";
+import { learningRecords } from "./learningRecords/learningRecordBackend";
+import { AnswerRejection } from "./math/answerGuard";
 import { MathProblemManager } from "./mathProblemManager";
+import { tokenVerifier } from "./timeBack/tokenVerifier";
 import { MathFeedbackPacket } from "@common/packets/mathFeedbackPacket";
 import { MathProblemPacket } from "@common/packets/mathProblemPacket";
 
@@ -62,13 +66,18 @@ export class Game implements GameData {
     readonly gas: Gas;
     readonly grid: Grid;
     readonly pluginManager = new PluginManager(this);
-    readonly mathProblemManager = new MathProblemManager();
+    readonly mathProblemManager: MathProblemManager;
     readonly mathProblemPacket = MathProblemPacket;
     readonly mathFeedbackPacket = MathFeedbackPacket;
 
     readonly modeName: ModeName;
     readonly mode: ModeDefinition;
 
+    /**
+     * How consumables are obtained in this game: only through math problems, partly, or as usual
+     */
+    readonly consumableGating: ConsumableGating;
+
     readonly partialDirtyObjects = new Set<BaseGameObject>();
     readonly fullDirtyObjects = new Set<BaseGameObject>();
 
@@ -95,6 +104,11 @@ export class Game implements GameData {
 
     readonly isTeamMode: boolean;
 
+    /**
+     * Set if the game is reserved for a classroom's match
+     */
+    readonly classroom?: ClassroomGameOptions;
+
     readonly teams = new (class SetArray<T> extends Set<T> {
         private _valueCache?: T[];
         get valueArray(): T[] {
@@ -241,10 +255,15 @@ export class Game implements GameData {
         return this._idAllocator.takeNext();
     }
 
-    constructor(id: number, teamMode: TeamMode, map: string, mapOptions: MapOptions = {}) {
+    constructor(id: number, teamMode: TeamMode, map: string, mapOptions: MapOptions = {}, classroom?: ClassroomGameOptions) {
         this.id = id;
         this.teamMode = teamMode;
         this.isTeamMode = this.teamMode > TeamMode.Solo;
+        this.classroom = classroom;
+        this.mathProblemManager = new MathProblemManager(classroom?.generators, classroom?.minDifficulty);
+
+        // Delivers any records that were still queued when this worker's last game ended
+        learningRecords.open(`game_${id}`);
         this.updateGameData({
             aliveCount: 0,
             allowJoin: false,
@@ -258,7 +277,8 @@ export class Game implements GameData {
 
         void this.pluginManager.loadPlugins();
 
-        const { width, height } = Maps[map.split(":")[0] as MapName];
+        const { width, height, consumableGating } = Maps[map.split(":")[0] as MapName];
+        this.consumableGating = consumableGating ?? Config.math?.consumableGating ?? "gated";
         this.grid = new Grid(this, width, height);
         this.map = new GameMap(this, map, mapOptions);
         this.gas = new Gas(this);
@@ -302,21 +322,28 @@ export class Game implements GameData {
                 case PacketType.Spectate:
                     player.spectate(packet);
                     break;
-                case PacketType.MathAnswer:
-                    // Ignore math answer packets from players that haven't finished joining or dead players
-                    if (!player.joined || player.dead) break;
-                    void this.mathProblemManager.validateAnswer(player, packet.answer, packet.problemId).then(result => {
-                        // Send feedback to client
-                        player.sendPacket(this.mathFeedbackPacket.create({
-                            isCorrect: result.isCorrect,
-                            problemId: packet.problemId,
-                            xpEarned: result.xpEarned > 0 ? result.xpEarned : undefined,
-                            totalXP: player.timeBackXP > 0 ? player.timeBackXP : undefined
-                        }));
-                    }).catch(error => {
-                        console.warn(`Math problem validation error for ${player.name}:`, error);
-                    });
+                case PacketType.MathAnswer: {
+                    // Ignore math answer packets from players that haven't finished joining,
+                    // and from dead players unless they're practicing
+                    if (!player.joined || (player.dead && this.mathProblemManager.getCurrentProblem(player)?.practice !== true)) break;
+                    const result = this.mathProblemManager.validateAnswer(player, packet.answer, packet.problemId);
+                    // Answers sent too quickly are dropped silently, so that spamming them gives nothing away
+                    if (result.rejection === AnswerRejection.RateLimited) break;
+
+                    const lockedFor = this.mathProblemManager.answerGuard.lockoutRemaining(player);
+                    // Send feedback to client
+                    player.sendPacket(this.mathFeedbackPacket.create({
+                        isCorrect: result.isCorrect,
+                        problemId: packet.problemId,
+                        xpEarned: result.xpEarned > 0 ? result.xpEarned : undefined,
+                        totalXP: player.timeBackXP > 0 ? player.timeBackXP : undefined,
+                        lockedFor: lockedFor > 0 ? lockedFor : undefined,
+                        hint: result.hint,
+                        solution: result.solution,
+                        streak: result.streak
+                    }));
                     break;
+                }
             }
         }
     }
@@ -572,7 +599,47 @@ export class Game implements GameData {
     }
 
     updateGameData(data: Partial<GameData>): void {
-        process.send?.(data);
+        process.send?.({ type: PrimaryMessages.UpdateGameData, data });
+    }
+
+    /**
+     * Reports what each student on the classroom's roster is doing to the primary process, for the teacher's dashboard
+     */
+    sendClassroomStatus(): void {
+        const { classroom } = this;
+        if (classroom === undefined || this._stopped) return;
+
+        const players = new Map<string, Player>(); // student id -> player
+        for (const player of this.grid.pool.getCategory(ObjectCategory.Player)) {
+            // A student who rejoins gets a new player, and the old one is left behind
+            if (player.studentId !== undefined && !(player.disconnected && players.has(player.studentId))) {
+                players.set(player.studentId, player);
+            }
+        }
+
+        const students = classroom.roster.map((studentId): ClassroomStudentStatus => {
+            const player = players.get(studentId);
+            if (player === undefined) {
+                return { studentId, state: "absent", problemsAttempted: 0, problemsCorrect: 0, operations: [], streak: 0 };
+            }
+
+            const { problemsAttempted, problemsCorrect, operations } = player.learningSummary.toSummary();
+            return {
+                studentId,
+                name: player.name,
+                state: player.disconnected ? "disconnected" : player.dead ? "dead" : "alive",
+                problemsAttempted,
+                problemsCorrect,
+                operations,
+                streak: this.mathProblemManager.streaks?.current(player) ?? 0,
+                lastActive: player.learningSummary.lastAnswer ?? player.joinTime
+            };
+        });
+
+        process.send?.({
+            type: PrimaryMessages.ClassroomStatus,
+            status: { code: classroom.code, startedTime: this.startedTime, students }
+        });
     }
 
     kill(): void {
@@ -586,6 +653,9 @@ export class Game implements GameData {
         });
         this._stopped = true;
 
+        // Records queued by the players that were just disconnected stay in the journal until the next game
+        void learningRecords.close();
+
         this.log("Killed");
     }
 
@@ -758,15 +828,35 @@ export class Game implements GameData {
 
         player.name = cleanUsername(packet.name);
 
-        // Extract TimeBack authentication data
-        if (packet.authToken && packet.studentId) {
-            player.authToken = packet.authToken;
-            player.studentId = packet.studentId;
-            this.log(`Player ${player.name} authenticated with TimeBack (ID: ${packet.studentId.substring(0, 8)}...)`);
+        // Verify TimeBack authentication data. The student ID sent by the client is never trusted;
+        // it's taken from the token instead, and players whose tokens can't be verified play anonymously
+        if (packet.authToken) {
+            const identity = tokenVerifier?.verify(packet.authToken) ?? { err: "token verification is not configured" };
+            if ("res" in identity) {
+                player.authToken = packet.authToken;
+                player.studentId = identity.res.studentId;
+                this.log(`Player ${player.name} authenticated with TimeBack (ID: ${player.studentId.substring(0, 8)}...)`);
+
+                if (packet.studentId !== undefined && packet.studentId !== player.studentId) {
+                    this.warn(`Player ${player.name} claimed a student ID that doesn't match their token`);
+                }
+            } else {
+                this.warn(`Player ${player.name} has an invalid TimeBack token (${identity.err}) - math rewards will be local only`);
+            }
         } else {
             this.warn(`Player ${player.name} has no TimeBack authentication - math rewards will be local only`);
         }
 
+        // Classroom matches are only open to the students on their roster, and to teachers
+        if (
+            this.classroom !== undefined
+            && !isTeacher(player.role)
+            && (player.studentId === undefined || !this.classroom.roster.includes(player.studentId))
+        ) {
+            player.disconnect("You aren't on this classroom's roster");
+            return;
+        }
+
         player.isMobile = packet.isMobile;
         const skin = packet.skin;
         if (
@@ -824,6 +914,7 @@ export class Game implements GameData {
                 this._started = true;
                 this.setGameData({ startedTime: this.now });
                 this.gas.advanceGasStage();
+                this.mathProblemManager.scheduleTeamChallenges(this);
 
                 this.addTimeout(() => {
                     this.log("Preventing new players from joining");
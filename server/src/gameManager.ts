@@ -32,8 +32,72 @@ export type WorkerMessage =
     }
     | {
         readonly type: WorkerMessages.NewGame
+        readonly classroom?: ClassroomGameOptions
     };
 
+/**
+ * Messages sent from game workers to the primary process
+ */
+export enum PrimaryMessages {
+    UpdateGameData,
+    ClassroomStatus
+}
+
+export type PrimaryMessage =
+    | {
+        readonly type: PrimaryMessages.UpdateGameData
+        readonly data: Partial<GameData>
+    }
+    | {
+        readonly type: PrimaryMessages.ClassroomStatus
+        readonly status: ClassroomStatus
+    };
+
+/**
+ * Set for games reserved for a classroom's match, which only the students on its roster can join
+ */
+export interface ClassroomGameOptions {
+    /**
+     * The classroom's join code
+     */
+    readonly code: string
+    readonly roster: readonly string[]
+    readonly teamMode: TeamMode
+    readonly map: string
+    readonly generators: readonly string[]
+    readonly minDifficulty: number
+}
+
+/**
+ * What each student on a classroom's roster is doing in its match, for the teacher's dashboard
+ */
+export interface ClassroomStatus {
+    readonly code: string
+    readonly startedTime: number
+    readonly students: readonly ClassroomStudentStatus[]
+}
+
+export interface ClassroomStudentStatus {
+    readonly studentId: string
+    /**
+     * `undefined` if the student hasn't joined the match
+     */
+    readonly name?: string
+    readonly state: "absent" | "alive" | "dead" | "disconnected"
+    readonly problemsAttempted: number
+    readonly problemsCorrect: number
+    readonly operations: ReadonlyArray<{
+        readonly operation: string
+        readonly attempted: number
+        readonly correct: number
+    }>
+    readonly streak: number
+    /**
+     * The value of `Date.now()` when the student last answered a problem, or joined if they haven't answered one yet
+     */
+    readonly lastActive?: number
+}
+
 export interface GameData {
     aliveCount: number
     allowJoin: boolean
@@ -58,24 +122,47 @@ export class GameContainer {
     get over(): boolean { return this._data.over; }
     get startedTime(): number { return this._data.startedTime; }
 
+    /**
+     * The join code of the classroom the current game is reserved for, if any
+     */
+    classroom?: string;
+
+    /**
+     * The latest status of the classroom's match, sent by the worker every few seconds
+     */
+    classroomStatus?: ClassroomStatus;
+
     constructor(
         readonly id: number,
         gameManager: GameManager,
-        resolve: (game: GameContainer) => void
+        resolve: (game: GameContainer) => void,
+        classroom?: ClassroomGameOptions
     ) {
         this.promiseCallbacks.push(resolve);
+        this.classroom = classroom?.code;
         this.worker = Cluster.fork({
             id,
             teamMode: gameManager.teamMode.current,
             map: gameManager.map.current,
-            mapScaleRange: gameManager.mapScaleRange
-        }).on("message", (data: Partial<GameData>): void => {
-            this._data = { ...this._data, ...data };
-
-            if (data.allowJoin === true) { // This means the game was just created
-                gameManager.creating = undefined;
-                for (const resolve of this.promiseCallbacks) resolve(this);
-                this.promiseCallbacks.length = 0;
+            mapScaleRange: gameManager.mapScaleRange,
+            classroom: classroom === undefined ? "" : JSON.stringify(classroom)
+        }).on("message", (message: PrimaryMessage): void => {
+            switch (message.type) {
+                case PrimaryMessages.UpdateGameData: {
+                    const { data } = message;
+                    this._data = { ...this._data, ...data };
+
+                    if (data.allowJoin === true) { // This means the game was just created
+                        gameManager.creating = undefined;
+                        for (const resolve of this.promiseCallbacks) resolve(this);
+                        this.promiseCallbacks.length = 0;
+                    }
+                    break;
+                }
+                case PrimaryMessages.ClassroomStatus: {
+                    this.classroomStatus = message.status;
+                    break;
+                }
             }
         });
     }
@@ -155,6 +242,7 @@ export class GameManager {
         const eligibleGames = this.games.filter((g?: GameContainer): g is GameContainer =>
             g !== undefined
             && g.allowJoin
+            && g.classroom === undefined
             && g.aliveCount < (Config.maxPlayersPerGame ?? Infinity)
         );
 
@@ -165,18 +253,28 @@ export class GameManager {
         )?.id;
     }
 
-    async newGame(id: number | undefined): Promise<GameContainer | undefined> {
+    /**
+     * @param classroom Reserves the game for a classroom's match. Classrooms always get a game of their own,
+     * rather than the one that's being created
+     */
+    async newGame(id: number | undefined, classroom?: ClassroomGameOptions): Promise<GameContainer | undefined> {
         return new Promise<GameContainer | undefined>(resolve => {
             if (this.creating) {
-                this.creating.promiseCallbacks.push(resolve);
+                this.creating.promiseCallbacks.push(
+                    classroom === undefined
+                        ? resolve
+                        : () => void this.newGame(id, classroom).then(resolve)
+                );
             } else if (id !== undefined) {
-                serverLog(`Creating new game with ID ${id}`);
+                serverLog(`Creating new game with ID ${id}${classroom === undefined ? "" : ` for classroom ${classroom.code}`}`);
                 const game = this.games[id];
                 if (!game) {
-                    this.creating = this.games[id] = new GameContainer(id, this, resolve);
+                    this.creating = this.games[id] = new GameContainer(id, this, resolve, classroom);
                 } else if (game.over) {
                     game.promiseCallbacks.push(resolve);
-                    game.sendMessage({ type: WorkerMessages.NewGame });
+                    game.classroom = classroom?.code;
+                    game.classroomStatus = undefined;
+                    game.sendMessage({ type: WorkerMessages.NewGame, classroom });
                     this.creating = game;
                 } else {
                     serverWarn(`Game with ID ${id} already exists`);
@@ -194,7 +292,7 @@ export class GameManager {
                         "aliveCount:", game?.aliveCount ?? "-"
                     );
                     if (!game || game.over) {
-                        void this.newGame(i).then(resolve);
+                        void this.newGame(i, classroom).then(resolve);
                         return;
                     }
                 }
@@ -228,13 +326,18 @@ if (!Cluster.isPrimary) {
         readonly teamMode: string
         readonly map: string
         readonly mapScaleRange: string
+        readonly classroom: string
     };
     const id = parseInt(data.id);
     let teamMode = parseInt(data.teamMode);
     let map = data.map;
     let mapOptions = data.mapScaleRange ? Config.mapScaleRanges?.[parseInt(data.mapScaleRange)] : undefined;
+    let classroom = data.classroom ? JSON.parse(data.classroom) as ClassroomGameOptions : undefined;
+
+    // Classroom matches are set up by their teacher, rather than following the server's schedule
+    const createGame = (): Game => new Game(id, classroom?.teamMode ?? teamMode, classroom?.map ?? map, mapOptions, classroom);
 
-    let game = new Game(id, teamMode, map, mapOptions);
+    let game = createGame();
 
     process.on("uncaughtException", e => {
         game.error("An unhandled error occurred. Details:", e);
@@ -249,7 +352,7 @@ if (!Cluster.isPrimary) {
             }
             case WorkerMessages.UpdateMap: {
                 map = message.map;
-                game.kill();
+                if (classroom === undefined) game.kill();
                 break;
             }
             case WorkerMessages.UpdateMapOptions: {
@@ -258,7 +361,8 @@ if (!Cluster.isPrimary) {
             }
             case WorkerMessages.NewGame: {
                 game.kill();
-                game = new Game(id, teamMode, map, mapOptions);
+                classroom = message.classroom;
+                game = createGame();
                 game.setGameData({ allowJoin: true });
                 break;
             }
@@ -270,6 +374,9 @@ if (!Cluster.isPrimary) {
         game.log(`RAM usage: ${Math.round(memoryUsage / 1024 / 1024 * 100) / 100} MB`);
     }, 60000);
 
+    // Keeps the teacher's dashboard up to date
+    setInterval(() => game.sendClassroomStatus(), 2000);
+
     const { maxSimultaneousConnections, maxJoinAttempts } = Config;
     const simultaneousConnections = maxSimultaneousConnections
         ? new RateLimiter(maxSimultaneousConnections)
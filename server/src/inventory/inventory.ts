@@ -10,7 +10,7 @@ import { Throwables, type ThrowableDefinition } from "@common/definitions/items/
 import { Numeric } from "@common/utils/math";
 import { ExtendedMap, type AbstractConstructor, type GetEnumMemberName, type PredicateFor, type Timeout } from "@common/utils/misc";
 import { DefinitionType, type ReferenceTo, type ReifiableDef } from "@common/utils/objectDefinitions";
-import { MathProblemManager } from "../mathProblemManager";
+import { isMathGated } from "../utils/lootHelpers";
 import { type ItemData } from "../objects/loot";
 import { type Player } from "../objects/player";
 import { HealingAction } from "./action";
@@ -579,7 +579,8 @@ export class Inventory {
                 && defType !== DefinitionType.Perk
             )
             || definition.noDrop
-            || MathProblemManager.isConsumable(idString) // Prevent dropping consumables
+            // Consumables can only be obtained through math problems in gated games, so they can't be handed out either
+            || (this.owner.game.consumableGating === "gated" && isMathGated(idString))
         ) return;
 
         switch (defType) {
@@ -0,0 +1,56 @@
+/**
+ * Local learning record backend: records are appended to a newline-delimited JSON file,
+ * so that development and offline deployments don't depend on a remote service
+ */
+
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { serverError } from "../utils/serverHelpers";
+import { type GameEventRecord, type Learner, type LearningRecordBackend, type MathProblemRecord } from "./learningRecordBackend";
+
+/**
+ * A line in the records file
+ */
+export type FileRecord =
+    | ({ readonly type: "math_problem" } & MathProblemRecord)
+    | ({ readonly type: "game_event" } & GameEventRecord);
+
+export class FileBackend implements LearningRecordBackend {
+    readonly path: string;
+
+    constructor(path: string) {
+        this.path = resolve(path);
+    }
+
+    open(): void {
+        mkdirSync(dirname(this.path), { recursive: true });
+    }
+
+    async close(): Promise<void> {
+        // Records are written as soon as they're made, so there's nothing to finish
+    }
+
+    recordMathProblem(record: MathProblemRecord): void {
+        this.write({ type: "math_problem", ...record, learner: FileBackend.withoutToken(record.learner) });
+    }
+
+    recordGameEvent(record: GameEventRecord): void {
+        this.write({ type: "game_event", ...record, learner: FileBackend.withoutToken(record.learner) });
+    }
+
+    /**
+     * Access tokens are credentials, and have no business being written to disk
+     */
+    private static withoutToken({ name, studentId }: Learner): Learner {
+        return { name, studentId };
+    }
+
+    private write(record: FileRecord): void {
+        try {
+            // Each record is appended in a single write, so that workers can share the file
+            appendFileSync(this.path, `${JSON.stringify(record)}\n`);
+        } catch (e) {
+            serverError(`Unable to write learning record to ${this.path}. Details:`, e);
+        }
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * Learning records (answered problems and game session events) are handed to a backend,
+ * which sends them to wherever the deployment keeps its learning data
+ */
+
+import { type Player } from "../objects/player";
+import { Config } from "../utils/config";
+import { FileBackend } from "./fileBackend";
+import { TimeBackBackend } from "./timeBackBackend";
+import { XAPIBackend } from "./xAPIBackend";
+
+export interface Learner {
+    readonly name: string
+    /**
+     * The student's ID, if they were verified when joining
+     */
+    readonly studentId?: string
+    /**
+     * The access token the student joined with, if any
+     */
+    readonly token?: string
+}
+
+// Game state at the time a record was created
+export interface GameContext {
+    readonly playersAlive: number
+    readonly gamePhase: string
+    readonly playerHealth: number
+    readonly survivalTime: number
+}
+
+// Outcome of a single answer to a math problem
+export interface MathProblemRecord {
+    readonly learner: Learner
+    /**
+     * When the answer was received, as an ISO 8601 string
+     */
+    readonly timestamp: string
+    readonly problem: string
+    /**
+     * Answers are written as the player would type them, e.g. `12`, `2.5` or `3/4`
+     */
+    readonly correctAnswer: string
+    readonly userAnswer: string
+    readonly isCorrect: boolean
+    readonly operation: string
+    readonly skillId: string
+    readonly difficulty: number
+    /**
+     * 1 for the first answer given to a problem, 2 for the second, and so on
+     */
+    readonly attemptNumber: number
+    /**
+     * Time between the problem being sent and this answer being received, in milliseconds
+     */
+    readonly responseTime?: number
+    readonly rewardType: string
+    readonly rewardCount: number
+    readonly xp: number
+    readonly baseXP: number
+    readonly multiplier: number
+    readonly context: GameContext
+}
+
+export type GameEventType = "started" | "ended" | "killed" | "won";
+
+export interface GameEventRecord {
+    readonly learner: Learner
+    readonly timestamp: string
+    readonly eventType: GameEventType
+    readonly data?: Record<string, unknown>
+}
+
+export interface LearningRecordBackend {
+    /**
+     * Prepares the backend for use by a game worker, for example by replaying records queued
+     * during a previous run. Each worker must use a different name
+     */
+    open(name: string): void
+    /**
+     * Stops any background work started by {@link LearningRecordBackend.open}, when the worker's game ends.
+     * Opening the backend again with the same name picks up where it left off
+     */
+    close(): Promise<void>
+    recordMathProblem(record: MathProblemRecord): void
+    recordGameEvent(record: GameEventRecord): void
+}
+
+export function learnerOf(player: Player): Learner {
+    return {
+        name: player.name,
+        studentId: player.studentId,
+        token: player.authToken
+    };
+}
+
+export function gameContextOf(player: Player): GameContext {
+    const stage = player.game.gas.stage;
+
+    return {
+        playersAlive: player.game.aliveCount,
+        gamePhase: stage === 0
+            ? "early_game"
+            : stage <= 3
+                ? "mid_game"
+                : stage <= 6
+                    ? "late_game"
+                    : "final_circle",
+        playerHealth: player.health,
+        survivalTime: Date.now() - player.joinTime
+    };
+}
+
+function createBackend(): LearningRecordBackend {
+    const options = Config.learningRecords;
+
+    switch (options?.backend ?? "timeBack") {
+        case "xapi": {
+            if (options?.xapi === undefined) {
+                throw new Error("The xapi learning record backend requires the learningRecords.xapi config option");
+            }
+            return new XAPIBackend(options.xapi);
+        }
+        case "file":
+            return new FileBackend(options?.file?.path ?? "learning-records.ndjson");
+        case "timeBack":
+            return new TimeBackBackend(Config.timeBack?.environment, Config.timeBack);
+    }
+}
+
+export const learningRecords = createBackend();
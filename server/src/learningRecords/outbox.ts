@@ -0,0 +1,316 @@
+/**
+ * Durable queue for learning records that need to reach a remote service.
+ * Records are journaled to disk in the background as soon as they're queued, and delivered in the background too,
+ * so neither a slow remote service nor a worker restart can hold up or lose a result.
+ * Payloads are journaled as they are, so they mustn't hold credentials
+ */
+
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { appendFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { Config } from "../utils/config";
+import { serverError, serverWarn } from "../utils/serverHelpers";
+
+export enum DeliveryStatus {
+    /**
+     * The remote service accepted the batch
+     */
+    Delivered,
+    /**
+     * The batch couldn't be delivered right now (network error, server error, rate limit…) and should be retried later
+     */
+    Retry,
+    /**
+     * The remote service refused the batch, and retrying won't change that
+     */
+    Rejected
+}
+
+export interface OutboxChannel<Payload = unknown> {
+    /**
+     * Maximum number of records handed to {@link OutboxChannel.send} at once. Defaults to 1
+     */
+    readonly batchSize?: number
+    /**
+     * Only records with the same key are delivered in the same batch,
+     * for example because they must be sent with the same credentials
+     */
+    batchKey?(payload: Payload): string
+    send(payloads: Payload[]): Promise<DeliveryStatus>
+}
+
+export interface OutboxOptions {
+    /**
+     * How often due records are delivered, in milliseconds
+     */
+    readonly flushInterval?: number
+    /**
+     * How long to wait before the first retry, in milliseconds. Doubles with every failed attempt
+     */
+    readonly baseRetryDelay?: number
+    /**
+     * Upper bound for the delay between retries, in milliseconds
+     */
+    readonly maxRetryDelay?: number
+    /**
+     * Number of failed deliveries after which a record is dropped
+     */
+    readonly maxAttempts?: number
+}
+
+interface OutboxEntry {
+    readonly id: string
+    readonly channel: string
+    readonly payload: unknown
+    attempts: number
+    nextAttempt: number
+}
+
+type JournalRecord =
+    | {
+        readonly op: "add"
+        readonly entry: OutboxEntry
+    }
+    | {
+        readonly op: "done"
+        readonly id: string
+    };
+
+/**
+ * Rewrite the journal once it holds this many more lines than there are pending records
+ */
+const COMPACTION_THRESHOLD = 1000;
+
+export class Outbox {
+    private readonly _channels = new Map<string, OutboxChannel<never>>();
+    private readonly _pending = new Map<string, OutboxEntry>();
+    private _journalLines = 0;
+    private _flushing = false;
+    private _flushTimer?: NodeJS.Timeout;
+
+    /**
+     * Lines waiting to be appended to the journal
+     */
+    private readonly _journalQueue: string[] = [];
+    /**
+     * Settles once everything written to the journal so far is on disk. Writes are chained, so that they happen in order
+     */
+    private _journalWrite = Promise.resolve();
+
+    get size(): number { return this._pending.size; }
+
+    readonly flushInterval: number;
+    readonly baseRetryDelay: number;
+    readonly maxRetryDelay: number;
+    readonly maxAttempts: number;
+
+    /**
+     * @param journalPath Where to journal queued records. Records left over from a previous run are replayed
+     */
+    constructor(readonly journalPath: string, options: OutboxOptions = {}) {
+        this.flushInterval = options.flushInterval ?? 5000;
+        this.baseRetryDelay = options.baseRetryDelay ?? 5000;
+        this.maxRetryDelay = options.maxRetryDelay ?? 600000;
+        this.maxAttempts = options.maxAttempts ?? 10;
+
+        this._replay();
+        this.start();
+    }
+
+    /**
+     * Starts delivering records every {@link Outbox.flushInterval} milliseconds. Outboxes start as soon as they're created
+     */
+    start(): void {
+        this._flushTimer ??= setInterval(() => void this.flush(), this.flushInterval);
+    }
+
+    /**
+     * Stops delivering records. Records still pending stay in the journal, and are delivered once the outbox is started again
+     * @returns A promise that resolves once the journal is up to date
+     */
+    async stop(): Promise<void> {
+        clearInterval(this._flushTimer);
+        this._flushTimer = undefined;
+        await this._journalWrite;
+    }
+
+    registerChannel<Payload>(name: string, channel: OutboxChannel<Payload>): void {
+        this._channels.set(name, channel);
+    }
+
+    enqueue(channel: string, payload: unknown): void {
+        const entry: OutboxEntry = {
+            id: randomUUID(),
+            channel,
+            payload,
+            attempts: 0,
+            nextAttempt: 0
+        };
+
+        this._pending.set(entry.id, entry);
+        this._writeJournal({ op: "add", entry });
+    }
+
+    /**
+     * Attempts to deliver every record that's due
+     */
+    async flush(): Promise<void> {
+        if (this._flushing) return;
+        this._flushing = true;
+
+        try {
+            const now = Date.now();
+            const groups = new Map<string, { readonly channel: OutboxChannel<never>, readonly entries: OutboxEntry[] }>();
+
+            for (const entry of this._pending.values()) {
+                if (entry.nextAttempt > now) continue;
+
+                // Records for channels that aren't registered (yet) are kept until they are
+                const channel = this._channels.get(entry.channel);
+                if (channel === undefined) continue;
+
+                const key = `${entry.channel}:${channel.batchKey?.(entry.payload as never) ?? ""}`;
+                let group = groups.get(key);
+                if (group === undefined) groups.set(key, group = { channel, entries: [] });
+                group.entries.push(entry);
+            }
+
+            const deliveries: Array<Promise<void>> = [];
+            for (const { channel, entries } of groups.values()) {
+                const batchSize = channel.batchSize ?? 1;
+                for (let i = 0; i < entries.length; i += batchSize) {
+                    deliveries.push(this._deliver(channel, entries.slice(i, i + batchSize)));
+                }
+            }
+            await Promise.all(deliveries);
+
+            if (this._journalLines - this._pending.size > COMPACTION_THRESHOLD) {
+                this._journalWrite = this._journalWrite.then(() => this._compact());
+            }
+        } finally {
+            this._flushing = false;
+        }
+    }
+
+    private async _deliver(channel: OutboxChannel<never>, entries: OutboxEntry[]): Promise<void> {
+        let status: DeliveryStatus;
+        try {
+            status = await channel.send(entries.map(({ payload }) => payload as never));
+        } catch (e) {
+            serverWarn("Learning record delivery failed. Details:", e);
+            status = DeliveryStatus.Retry;
+        }
+
+        for (const entry of entries) {
+            entry.attempts++;
+            if (status === DeliveryStatus.Retry && entry.attempts < this.maxAttempts) {
+                // Exponential backoff, with some jitter so that records queued together don't retry in lockstep
+                const delay = Math.min(this.baseRetryDelay * 2 ** (entry.attempts - 1), this.maxRetryDelay);
+                entry.nextAttempt = Date.now() + delay * (0.75 + Math.random() * 0.5);
+                continue;
+            }
+
+            if (status !== DeliveryStatus.Delivered) {
+                serverWarn(`Dropping learning record ${entry.id} (${entry.channel}) after ${entry.attempts} attempt(s)`);
+            }
+
+            this._pending.delete(entry.id);
+            this._writeJournal({ op: "done", id: entry.id });
+        }
+    }
+
+    /**
+     * Queues a line for the journal. Lines queued while a write is in progress are written together once it's done
+     */
+    private _writeJournal(record: JournalRecord): void {
+        this._journalQueue.push(`${JSON.stringify(record)}\n`);
+        this._journalLines++;
+
+        if (this._journalQueue.length === 1) {
+            this._journalWrite = this._journalWrite.then(() => this._appendQueued());
+        }
+    }
+
+    private async _appendQueued(): Promise<void> {
+        if (!this._journalQueue.length) return;
+
+        try {
+            await appendFile(this.journalPath, this._journalQueue.splice(0).join(""));
+        } catch (e) {
+            serverError(`Unable to write to outbox journal ${this.journalPath}. Details:`, e);
+        }
+    }
+
+    private _replay(): void {
+        mkdirSync(dirname(this.journalPath), { recursive: true });
+        if (!existsSync(this.journalPath)) return;
+
+        for (const line of readFileSync(this.journalPath, "utf8").split("\n")) {
+            if (!line) continue;
+
+            let record: JournalRecord;
+            try {
+                record = JSON.parse(line) as JournalRecord;
+            } catch {
+                // Most likely a line that was cut off by a crash
+                continue;
+            }
+
+            if (record.op === "add") {
+                // Retry replayed records right away; the backoff state isn't journaled
+                this._pending.set(record.entry.id, { ...record.entry, attempts: 0, nextAttempt: 0 });
+            } else {
+                this._pending.delete(record.id);
+            }
+        }
+
+        this._journalWrite = this._journalWrite.then(() => this._compact());
+    }
+
+    /**
+     * Rewrites the journal so that it only contains pending records. Lines still waiting to be
+     * written are dropped, since the pending records they describe are written out anyway
+     */
+    private async _compact(): Promise<void> {
+        this._journalQueue.length = 0;
+        this._journalLines = this._pending.size;
+
+        try {
+            await writeFile(
+                this.journalPath,
+                [...this._pending.values()].map(entry => `${JSON.stringify({ op: "add", entry } satisfies JournalRecord)}\n`).join("")
+            );
+        } catch (e) {
+            serverError(`Unable to compact outbox journal ${this.journalPath}. Details:`, e);
+        }
+    }
+}
+
+/**
+ * Maps an HTTP response to what the outbox should do with the records that were sent
+ */
+export function deliveryStatusOf(response: Response): DeliveryStatus {
+    if (response.ok) return DeliveryStatus.Delivered;
+
+    // Timeouts, rate limits and server errors are usually temporary
+    if (response.status === 408 || response.status === 429 || response.status >= 500) return DeliveryStatus.Retry;
+
+    return DeliveryStatus.Rejected;
+}
+
+/**
+ * Opens an outbox configured through the `learningRecords.outbox` config option
+ * @param name Identifies the journal. Each process must use a different name, so that they don't write to the same journal
+ */
+export function openOutbox(name: string): Outbox {
+    const options = Config.learningRecords?.outbox;
+
+    return new Outbox(
+        resolve(options?.directory ?? "outbox", `${name}.ndjson`),
+        {
+            flushInterval: options?.flushInterval,
+            maxAttempts: options?.maxAttempts
+        }
+    );
+}
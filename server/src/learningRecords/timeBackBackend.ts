@@ -0,0 +1,351 @@
+/**
+ * TimeBack learning record backend: results go to the OneRoster gradebook,
+ * and analytics events to the Caliper endpoint
+ */
+
+import { type ServiceCredentials, ServiceToken } from "../timeBack/serviceToken";
+import { Config } from "../utils/config";
+import { serverWarn } from "../utils/serverHelpers";
+import { type GameEventRecord, type LearningRecordBackend, type MathProblemRecord } from "./learningRecordBackend";
+import { DeliveryStatus, deliveryStatusOf, openOutbox, type Outbox } from "./outbox";
+
+// Assessment result structure for server-side submission
+export interface ServerAssessmentResult {
+    sourcedId: string
+    status: "active" | "inactive" | "tobedeleted"
+    dateLastModified: string
+    lineItem: {
+        sourcedId: string
+    }
+    student: {
+        sourcedId: string
+    }
+    scoreStatus: "fullyGraded" | "pending" | "invalid"
+    score: number
+    scoreDate: string
+    comment?: string
+    metadata?: {
+        // Game context
+        gameType: "suroi_battle_royale"
+        mathOperation: string
+        problem: string
+        correctAnswer: string
+        userAnswer: string
+        rewardType: string
+        rewardCount: number
+
+        // Performance metrics
+        accuracy: number
+        responseTime?: number
+        attempts: number
+
+        // XP tracking
+        xp: number
+        multiplier: number
+        baseXP: number
+
+        // Game state when problem was solved
+        playersAlive: number
+        gamePhase: string
+        playerHealth: number
+        survivalTime: number
+    }
+}
+
+// A OneRoster assessment result waiting in the outbox. Queued records are journaled, so they don't hold access tokens
+interface QueuedAssessmentResult {
+    readonly studentId: string
+    readonly studentName: string
+    readonly assessmentResult: ServerAssessmentResult
+}
+
+// A Caliper event waiting in the outbox
+interface QueuedCaliperEvent {
+    readonly studentId: string
+    readonly event: object
+}
+
+export class TimeBackBackend implements LearningRecordBackend {
+    private readonly baseUrl: string;
+    private readonly caliperUrl: string;
+
+    private _outbox?: Outbox;
+
+    /**
+     * The server's own credentials, if configured. Records are sent with them rather than with the students' tokens
+     */
+    private readonly _serviceToken?: ServiceToken;
+
+    /**
+     * The latest access token each student joined with. Only kept in memory
+     */
+    private readonly _studentTokens = new Map<string, string>();
+
+    /**
+     * @param options Override the environment's base URLs, e.g. to use a local stand-in,
+     * and set the credentials the server sends records with
+     */
+    constructor(
+        environment: "staging" | "production" = "staging",
+        options: { readonly apiUrl?: string, readonly caliperUrl?: string, readonly credentials?: ServiceCredentials } = {}
+    ) {
+        this.baseUrl = options.apiUrl ?? (
+            environment === "production"
+                ? "https://api.alpha-1edtech.com"
+                : "https://api.staging.alpha-1edtech.com"
+        );
+        this.caliperUrl = options.caliperUrl ?? (
+            environment === "production"
+                ? "https://caliper.alpha-1edtech.com"
+                : "https://caliper-staging.alpha-1edtech.com"
+        );
+
+        if (options.credentials !== undefined) {
+            this._serviceToken = new ServiceToken(options.credentials);
+        }
+    }
+
+    open(name: string): void {
+        if (this._outbox !== undefined) {
+            this._outbox.start();
+            return;
+        }
+
+        this._outbox = this.createOutbox(name);
+    }
+
+    /**
+     * Opens the outbox results and events are queued in, with a channel for OneRoster and one for Caliper
+     */
+    private createOutbox(name: string): Outbox {
+        const outbox = openOutbox(name);
+
+        outbox.registerChannel<QueuedAssessmentResult>("oneroster_results", {
+            send: async([{ studentId, studentName, assessmentResult }]) => {
+                const token = await this.tokenFor(studentId);
+                if (token === undefined) return DeliveryStatus.Retry;
+
+                const response = await fetch(`${this.baseUrl}/ims/oneroster/gradebook/v1p2/assessmentResults`, {
+                    method: "POST",
+                    headers: {
+                        "Authorization": `Bearer ${token}`,
+                        "Content-Type": "application/json"
+                    },
+                    body: JSON.stringify({ assessmentResult })
+                });
+
+                if (!response.ok) {
+                    serverWarn(`TimeBack assessment submission failed for ${studentName}: ${response.status} ${response.statusText}`);
+                }
+                return this.statusOf(response);
+            }
+        });
+
+        outbox.registerChannel<QueuedCaliperEvent>("caliper_events", {
+            batchSize: Config.learningRecords?.outbox?.batchSize ?? 50,
+            // Without the server's own credentials, events are sent with the token of the student they're about
+            batchKey: ({ studentId }) => (this._serviceToken !== undefined ? "" : studentId),
+            send: async payloads => {
+                const token = await this.tokenFor(payloads[0].studentId);
+                if (token === undefined) return DeliveryStatus.Retry;
+
+                const response = await fetch(`${this.caliperUrl}/events`, {
+                    method: "POST",
+                    headers: {
+                        "Authorization": `Bearer ${token}`,
+                        "Content-Type": "application/json"
+                    },
+                    body: JSON.stringify({
+                        sensor: "urn:app:suroi-battle-royale",
+                        sendTime: new Date().toISOString(),
+                        dataVersion: "http://purl.imsglobal.org/ctx/caliper/v1p2",
+                        data: payloads.map(({ event }) => event)
+                    })
+                });
+
+                if (!response.ok) {
+                    serverWarn(`Caliper API refused ${payloads.length} event(s): ${response.status} ${response.statusText}`);
+                }
+                return this.statusOf(response);
+            }
+        });
+
+        return outbox;
+    }
+
+    async close(): Promise<void> {
+        await this._outbox?.stop();
+    }
+
+    /**
+     * @returns The token to send a student's records with: the server's own if it has credentials, otherwise the one
+     * the student last joined with, if they joined since this worker started
+     */
+    private async tokenFor(studentId: string): Promise<string | undefined> {
+        if (this._serviceToken === undefined) return this._studentTokens.get(studentId);
+
+        try {
+            return await this._serviceToken.get();
+        } catch (e) {
+            serverWarn("Unable to get a TimeBack access token. Details:", e);
+            return undefined;
+        }
+    }
+
+    /**
+     * Refused tokens have most likely expired. Records sent with them are retried, with a new token
+     * or once the student joins again with theirs
+     */
+    private statusOf(response: Response): DeliveryStatus {
+        if (response.status !== 401) return deliveryStatusOf(response);
+
+        this._serviceToken?.invalidate();
+        return DeliveryStatus.Retry;
+    }
+
+    private get outbox(): Outbox {
+        return this._outbox ??= this.createOutbox("default");
+    }
+
+    // Generate a simple ID for server-side use
+    private generateId(): string {
+        return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+    }
+
+    /**
+     * Queues a math problem result for the TimeBack gradebook, along with a Caliper event
+     */
+    recordMathProblem(record: MathProblemRecord): void {
+        const { learner: { name, studentId, token }, context } = record;
+
+        // Anonymous players have nothing to submit to
+        if (!token || !studentId) return;
+        this._studentTokens.set(studentId, token);
+
+        const assessmentResult: ServerAssessmentResult = {
+            sourcedId: this.generateId(),
+            status: "active",
+            dateLastModified: record.timestamp,
+            lineItem: {
+                sourcedId: `suroi-math-${record.operation.toLowerCase()}`
+            },
+            student: {
+                sourcedId: studentId
+            },
+            scoreStatus: "fullyGraded",
+            score: record.isCorrect ? 100 : 0,
+            scoreDate: record.timestamp,
+            comment: `Suroi math problem: ${record.problem} = ${record.correctAnswer}`,
+            metadata: {
+                gameType: "suroi_battle_royale",
+                mathOperation: record.operation,
+                problem: record.problem,
+                correctAnswer: record.correctAnswer,
+                userAnswer: record.userAnswer,
+                rewardType: record.rewardType,
+                rewardCount: record.rewardCount,
+
+                accuracy: record.isCorrect ? 100 : 0,
+                responseTime: record.responseTime,
+                attempts: record.attemptNumber,
+
+                xp: record.xp,
+                multiplier: record.multiplier,
+                baseXP: record.baseXP,
+
+                // Game context
+                playersAlive: context.playersAlive,
+                gamePhase: context.gamePhase,
+                playerHealth: context.playerHealth,
+                survivalTime: context.survivalTime
+            }
+        };
+
+        this.outbox.enqueue("oneroster_results", {
+            studentId,
+            studentName: name,
+            assessmentResult
+        } satisfies QueuedAssessmentResult);
+
+        // Also track as Caliper event
+        this.outbox.enqueue("caliper_events", {
+            studentId,
+            event: {
+                "@context": "http://purl.imsglobal.org/ctx/caliper/v1p2",
+                "@type": "AssessmentEvent",
+                "id": this.generateId(),
+                "actor": {
+                    id: `urn:user:${studentId}`,
+                    type: "Person"
+                },
+                "action": record.isCorrect ? "Completed" : "Submitted",
+                "object": {
+                    id: `urn:assessment:suroi-math-${Date.parse(record.timestamp)}`,
+                    type: "Assessment"
+                },
+                "eventTime": record.timestamp,
+                "edApp": {
+                    id: "urn:app:suroi-battle-royale",
+                    type: "SoftwareApplication"
+                },
+                "extensions": {
+                    mathOperation: record.operation,
+                    problem: record.problem,
+                    correctAnswer: record.correctAnswer,
+                    userAnswer: record.userAnswer,
+                    isCorrect: record.isCorrect,
+                    attempts: record.attemptNumber,
+                    responseTime: record.responseTime,
+                    xpEarned: record.xp,
+                    rewardType: record.rewardType,
+                    gameContext: "battle_royale",
+                    playersAlive: context.playersAlive,
+                    playerHealth: context.playerHealth,
+                    survivalTime: context.survivalTime
+                }
+            }
+        } satisfies QueuedCaliperEvent);
+    }
+
+    // Track game session events
+    recordGameEvent(record: GameEventRecord): void {
+        const { learner: { name, studentId, token }, eventType } = record;
+        if (!token || !studentId) return;
+        this._studentTokens.set(studentId, token);
+
+        const actionMap = {
+            started: "Started",
+            ended: "Ended",
+            killed: "Exited",
+            won: "Completed"
+        };
+
+        this.outbox.enqueue("caliper_events", {
+            studentId,
+            event: {
+                "@context": "http://purl.imsglobal.org/ctx/caliper/v1p2",
+                "@type": "SessionEvent",
+                "id": this.generateId(),
+                "actor": {
+                    id: `urn:user:${studentId}`,
+                    type: "Person"
+                },
+                "action": actionMap[eventType],
+                "object": {
+                    id: `urn:session:suroi-${Date.parse(record.timestamp)}`,
+                    type: "Session"
+                },
+                "eventTime": record.timestamp,
+                "edApp": {
+                    id: "urn:app:suroi-battle-royale",
+                    type: "SoftwareApplication"
+                },
+                "extensions": {
+                    eventType,
+                    playerName: name,
+                    ...record.data
+                }
+            }
+        } satisfies QueuedCaliperEvent);
+    }
+}
@@ -0,0 +1,219 @@
+/**
+ * xAPI (Tin Can) learning record backend: every record becomes a statement sent to a Learning Record Store
+ */
+
+import { randomUUID } from "node:crypto";
+import { Config } from "../utils/config";
+import { type ConfigSchema } from "../utils/config.d";
+import { serverWarn } from "../utils/serverHelpers";
+import { type GameEventRecord, type GameEventType, type LearningRecordBackend, type Learner, type MathProblemRecord } from "./learningRecordBackend";
+import { deliveryStatusOf, openOutbox, type Outbox } from "./outbox";
+
+export type XAPIBackendOptions = NonNullable<NonNullable<ConfigSchema["learningRecords"]>["xapi"]>;
+
+/**
+ * The subset of an xAPI statement used by this backend
+ */
+export interface XAPIStatement {
+    readonly id: string
+    readonly actor: {
+        readonly objectType: "Agent"
+        readonly name: string
+        readonly account: {
+            readonly homePage: string
+            readonly name: string
+        }
+    }
+    readonly verb: {
+        readonly id: string
+        readonly display: Record<string, string>
+    }
+    readonly object: {
+        readonly objectType: "Activity"
+        readonly id: string
+        readonly definition?: {
+            readonly type?: string
+            readonly name?: Record<string, string>
+            readonly interactionType?: string
+            readonly correctResponsesPattern?: string[]
+        }
+    }
+    readonly result?: {
+        readonly success?: boolean
+        readonly completion?: boolean
+        readonly response?: string
+        readonly duration?: string
+        readonly score?: {
+            readonly scaled: number
+        }
+        readonly extensions?: Record<string, unknown>
+    }
+    readonly context?: {
+        readonly platform?: string
+        readonly extensions?: Record<string, unknown>
+    }
+    readonly timestamp: string
+}
+
+const XAPI_VERSION = "1.0.3";
+const ACTIVITY_ROOT = "https://suroi.io/xapi/activities";
+const EXTENSION_ROOT = "https://suroi.io/xapi/extensions";
+
+const verbs: Record<"answered" | GameEventType, XAPIStatement["verb"]> = {
+    answered: { id: "http://adlnet.gov/expapi/verbs/answered", display: { "en-US": "answered" } },
+    started: { id: "http://adlnet.gov/expapi/verbs/initialized", display: { "en-US": "initialized" } },
+    ended: { id: "http://adlnet.gov/expapi/verbs/terminated", display: { "en-US": "terminated" } },
+    killed: { id: "http://adlnet.gov/expapi/verbs/exited", display: { "en-US": "exited" } },
+    won: { id: "http://adlnet.gov/expapi/verbs/completed", display: { "en-US": "completed" } }
+};
+
+/**
+ * Prefixes each key with the extension IRI root, as xAPI requires extension keys to be IRIs
+ */
+function extensions(values: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(values).map(([key, value]) => [`${EXTENSION_ROOT}/${key}`, value]));
+}
+
+export class XAPIBackend implements LearningRecordBackend {
+    private readonly _endpoint: string;
+    private readonly _authorization?: string;
+
+    private _outbox?: Outbox;
+
+    constructor(readonly options: XAPIBackendOptions) {
+        this._endpoint = options.endpoint.replace(/\/+$/, "");
+        if (options.username !== undefined) {
+            this._authorization = `Basic ${Buffer.from(`${options.username}:${options.password ?? ""}`).toString("base64")}`;
+        }
+    }
+
+    open(name: string): void {
+        if (this._outbox !== undefined) {
+            this._outbox.start();
+            return;
+        }
+
+        this._outbox = this.createOutbox(name);
+    }
+
+    /**
+     * Opens the outbox statements are queued in, and the channel that sends them to the LRS
+     */
+    private createOutbox(name: string): Outbox {
+        const outbox = openOutbox(name);
+
+        outbox.registerChannel<XAPIStatement>("xapi_statements", {
+            batchSize: Config.learningRecords?.outbox?.batchSize ?? 50,
+            send: async statements => {
+                const response = await fetch(`${this._endpoint}/statements`, {
+                    method: "POST",
+                    headers: {
+                        ...(this._authorization ? { Authorization: this._authorization } : {}),
+                        "Content-Type": "application/json",
+                        "X-Experience-API-Version": XAPI_VERSION
+                    },
+                    body: JSON.stringify(statements)
+                });
+
+                if (!response.ok) {
+                    serverWarn(`LRS refused ${statements.length} xAPI statement(s): ${response.status} ${response.statusText}`);
+                }
+                return deliveryStatusOf(response);
+            }
+        });
+
+        return outbox;
+    }
+
+    async close(): Promise<void> {
+        await this._outbox?.stop();
+    }
+
+    private get outbox(): Outbox {
+        return this._outbox ??= this.createOutbox("default");
+    }
+
+    /**
+     * Statements are only sent for verified students, since the LRS needs a stable identity to attach them to
+     */
+    private actorOf({ name, studentId }: Learner): XAPIStatement["actor"] | undefined {
+        if (studentId === undefined) return;
+
+        return {
+            objectType: "Agent",
+            name,
+            account: {
+                homePage: this.options.homePage,
+                name: studentId
+            }
+        };
+    }
+
+    recordMathProblem(record: MathProblemRecord): void {
+        const actor = this.actorOf(record.learner);
+        if (actor === undefined) return;
+
+        this.outbox.enqueue("xapi_statements", {
+            id: randomUUID(),
+            actor,
+            verb: verbs.answered,
+            object: {
+                objectType: "Activity",
+                id: `${ACTIVITY_ROOT}/math/${record.skillId}`,
+                definition: {
+                    type: "http://adlnet.gov/expapi/activities/cmi.interaction",
+                    name: { "en-US": record.problem },
+                    // Fractions aren't numbers as far as xAPI is concerned
+                    interactionType: Number.isNaN(Number(record.correctAnswer)) ? "fill-in" : "numeric",
+                    correctResponsesPattern: [record.correctAnswer]
+                }
+            },
+            result: {
+                success: record.isCorrect,
+                response: record.userAnswer,
+                duration: record.responseTime !== undefined ? `PT${record.responseTime / 1000}S` : undefined,
+                score: { scaled: record.isCorrect ? 1 : 0 },
+                extensions: extensions({
+                    attempts: record.attemptNumber,
+                    xp: record.xp,
+                    multiplier: record.multiplier
+                })
+            },
+            context: {
+                platform: "Suroi",
+                extensions: extensions({
+                    operation: record.operation,
+                    difficulty: record.difficulty,
+                    reward: `${record.rewardCount}x ${record.rewardType}`,
+                    ...record.context
+                })
+            },
+            timestamp: record.timestamp
+        } satisfies XAPIStatement);
+    }
+
+    recordGameEvent(record: GameEventRecord): void {
+        const actor = this.actorOf(record.learner);
+        if (actor === undefined) return;
+
+        this.outbox.enqueue("xapi_statements", {
+            id: randomUUID(),
+            actor,
+            verb: verbs[record.eventType],
+            object: {
+                objectType: "Activity",
+                id: `${ACTIVITY_ROOT}/game`,
+                definition: {
+                    type: "http://adlnet.gov/expapi/activities/simulation",
+                    name: { "en-US": "Suroi" }
+                }
+            },
+            result: record.eventType === "won" ? { success: true, completion: true } : undefined,
+            context: {
+                platform: "Suroi",
+                extensions: record.data && extensions(record.data)
+            },
+            timestamp: record.timestamp
+        } satisfies XAPIStatement);
+    }
+}
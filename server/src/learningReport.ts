@@ -0,0 +1,393 @@
+/**
+ * Builds learning reports from recorded answers, for teachers and dashboards.
+ * Reads the records written by the `file` learning record backend, or the progress ledger,
+ * and writes per-student and per-class reports as CSV or JSON.
+ *
+ * ```
+ * pnpm learningReport [options] [files...]
+ *
+ * --format csv|json   Defaults to csv
+ * --out <folder>      Defaults to "reports"
+ * --period day|week   How accuracy over time is grouped. Defaults to week
+ * --since <date>      Only include answers from this date on
+ * --until <date>      Only include answers from before this date
+ * --roster <file>     Only include the students whose IDs are listed in the file, one per line
+ * ```
+ *
+ * Files default to `learning-records.ndjson`. The ledger doesn't record the problems themselves,
+ * so most-missed facts are only reported from learning records. Answers that were compacted out
+ * of the ledger are read from its archives
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { type FileRecord } from "./learningRecords/fileBackend";
+import { type LedgerEntry } from "./math/progressLedger";
+import { ProblemGenerators } from "./math/problemGenerators";
+
+/**
+ * A first or later attempt at a problem, from either source
+ */
+interface Answer {
+    readonly studentId: string
+    readonly name?: string
+    readonly time: number
+    readonly operation: string
+    readonly isCorrect: boolean
+    readonly attemptNumber: number
+    readonly xp: number
+    /**
+     * In milliseconds. Not recorded in the ledger
+     */
+    readonly responseTime?: number
+    /**
+     * Not recorded in the ledger
+     */
+    readonly fact?: {
+        readonly problem: string
+        readonly answer: string
+    }
+}
+
+interface Tally {
+    attempted: number
+    correct: number
+}
+
+export interface OperationAccuracy {
+    /**
+     * The first day of the period, as `YYYY-MM-DD`
+     */
+    readonly period: string
+    readonly operation: string
+    readonly attempted: number
+    readonly correct: number
+    readonly accuracy: number
+}
+
+export interface MissedFact {
+    readonly problem: string
+    readonly answer: string
+    readonly attempted: number
+    readonly missed: number
+}
+
+export interface LearningReport {
+    /**
+     * `undefined` for the whole class
+     */
+    readonly studentId?: string
+    readonly name?: string
+    /**
+     * Only first attempts count, so that retries don't skew accuracy
+     */
+    readonly problemsAttempted: number
+    readonly problemsCorrect: number
+    readonly accuracy: number
+    readonly xpEarned: number
+    /**
+     * Time spent answering problems, in minutes. Answers more than {@link SESSION_GAP} apart count as separate sessions
+     */
+    readonly minutesActive: number
+    readonly problemsPerMinute: number
+    readonly accuracyOverTime: readonly OperationAccuracy[]
+    readonly mostMissed: readonly MissedFact[]
+}
+
+/**
+ * Longest gap between two answers in the same session, in milliseconds
+ */
+const SESSION_GAP = 5 * 60 * 1000;
+
+const MOST_MISSED_COUNT = 10;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const operations = new Map([...ProblemGenerators].map(({ skillId, operation }) => [skillId, operation])); // skill id -> operation
+
+/**
+ * @returns The answers in a file of learning records or ledger entries, and whether any came from each source
+ */
+function readAnswers(path: string): { readonly answers: Answer[], readonly fromRecords: boolean, readonly fromLedger: boolean } {
+    const answers: Answer[] = [];
+    let fromRecords = false;
+    let fromLedger = false;
+
+    for (const line of readFileSync(path, "utf8").split("\n")) {
+        if (!line) continue;
+
+        let entry: FileRecord | LedgerEntry;
+        try {
+            entry = JSON.parse(line) as FileRecord | LedgerEntry;
+        } catch {
+            // Most likely a line that was cut off by a crash
+            continue;
+        }
+
+        switch (entry.type) {
+            case "math_problem": {
+                const { learner: { studentId, name }, timestamp, operation, isCorrect, attemptNumber, xp, responseTime, problem, correctAnswer } = entry;
+                if (studentId === undefined) continue; // Anonymous players can't be reported on
+
+                fromRecords = true;
+                answers.push({
+                    studentId,
+                    name,
+                    time: Date.parse(timestamp),
+                    operation,
+                    isCorrect,
+                    attemptNumber,
+                    xp,
+                    responseTime,
+                    fact: { problem, answer: correctAnswer }
+                });
+                break;
+            }
+            case "answer": {
+                const { studentId, time, skillId, isCorrect, attemptNumber, xp } = entry;
+
+                fromLedger = true;
+                answers.push({
+                    studentId,
+                    time: Date.parse(time),
+                    operation: operations.get(skillId) ?? skillId,
+                    isCorrect,
+                    attemptNumber,
+                    xp
+                });
+                break;
+            }
+        }
+    }
+
+    return { answers, fromRecords, fromLedger };
+}
+
+/**
+ * @returns The first day of the period the time falls in, as `YYYY-MM-DD`. Weeks start on Monday
+ */
+function periodOf(time: number, period: "day" | "week"): string {
+    let day = Math.floor(time / DAY);
+    // The epoch was a Thursday
+    if (period === "week") day -= (day + 3) % 7;
+    return new Date(day * DAY).toISOString().slice(0, 10);
+}
+
+function ratio(a: number, b: number): number {
+    return b ? Math.round(a / b * 1000) / 1000 : 0;
+}
+
+/**
+ * @param answers Sorted by time
+ */
+function buildReport(answers: readonly Answer[], period: "day" | "week", studentId?: string): LearningReport {
+    let problemsAttempted = 0;
+    let problemsCorrect = 0;
+    let xpEarned = 0;
+
+    const overTime = new Map<string, Tally>(); // period + operation -> tally
+    const facts = new Map<string, { -readonly [K in keyof MissedFact]: MissedFact[K] }>(); // problem -> tally
+
+    let active = 0;
+    const sessionEnds = new Map<string, number>(); // student id -> time of their last answer
+
+    for (const answer of answers) {
+        xpEarned += answer.xp;
+
+        // A session starts when the first problem in it was sent
+        const sessionEnd = sessionEnds.get(answer.studentId);
+        active += sessionEnd !== undefined && answer.time - sessionEnd <= SESSION_GAP
+            ? answer.time - sessionEnd
+            : answer.responseTime ?? 0;
+        sessionEnds.set(answer.studentId, answer.time);
+
+        if (answer.attemptNumber !== 1) continue;
+
+        problemsAttempted++;
+        if (answer.isCorrect) problemsCorrect++;
+
+        const key = `${periodOf(answer.time, period)} ${answer.operation}`;
+        let tally = overTime.get(key);
+        if (tally === undefined) overTime.set(key, tally = { attempted: 0, correct: 0 });
+        tally.attempted++;
+        if (answer.isCorrect) tally.correct++;
+
+        if (answer.fact !== undefined) {
+            const { problem, answer: correctAnswer } = answer.fact;
+            let fact = facts.get(problem);
+            if (fact === undefined) facts.set(problem, fact = { problem, answer: correctAnswer, attempted: 0, missed: 0 });
+            fact.attempted++;
+            if (!answer.isCorrect) fact.missed++;
+        }
+    }
+
+    const minutesActive = Math.round(active / 60000 * 10) / 10;
+
+    return {
+        studentId,
+        name: studentId === undefined ? undefined : answers.reduce<string | undefined>((latest, { name }) => name ?? latest, undefined),
+        problemsAttempted,
+        problemsCorrect,
+        accuracy: ratio(problemsCorrect, problemsAttempted),
+        xpEarned,
+        minutesActive,
+        problemsPerMinute: ratio(problemsAttempted, minutesActive),
+        accuracyOverTime: [...overTime].map(([key, { attempted, correct }]): OperationAccuracy => {
+            const [period, operation] = key.split(" ");
+            return { period, operation, attempted, correct, accuracy: ratio(correct, attempted) };
+        }).sort((a, b) => a.period.localeCompare(b.period) || a.operation.localeCompare(b.operation)),
+        mostMissed: [...facts.values()]
+            .filter(({ missed }) => missed > 0)
+            .sort((a, b) => b.missed - a.missed || b.missed / b.attempted - a.missed / a.attempted)
+            .slice(0, MOST_MISSED_COUNT)
+    };
+}
+
+function csvCell(value: string | number | undefined): string {
+    if (value === undefined) return "";
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replaceAll("\"", "\"\"")}"` : text;
+}
+
+function toCSV(header: readonly string[], rows: ReadonlyArray<ReadonlyArray<string | number | undefined>>): string {
+    return `${[header, ...rows].map(row => row.map(csvCell).join(",")).join("\n")}\n`;
+}
+
+/**
+ * @returns The files written
+ */
+function writeCSV(out: string, reports: readonly LearningReport[]): string[] {
+    // The class is listed first, under an empty student ID
+    const files: Record<string, string> = {
+        "summary.csv": toCSV(
+            ["student_id", "name", "problems_attempted", "problems_correct", "accuracy", "xp_earned", "minutes_active", "problems_per_minute"],
+            reports.map(report => [
+                report.studentId,
+                report.name,
+                report.problemsAttempted,
+                report.problemsCorrect,
+                report.accuracy,
+                report.xpEarned,
+                report.minutesActive,
+                report.problemsPerMinute
+            ])
+        ),
+        "accuracy_over_time.csv": toCSV(
+            ["student_id", "period", "operation", "attempted", "correct", "accuracy"],
+            reports.flatMap(({ studentId, accuracyOverTime }) => accuracyOverTime.map(({ period, operation, attempted, correct, accuracy }) =>
+                [studentId, period, operation, attempted, correct, accuracy]
+            ))
+        ),
+        "most_missed.csv": toCSV(
+            ["student_id", "problem", "answer", "attempted", "missed"],
+            reports.flatMap(({ studentId, mostMissed }) => mostMissed.map(({ problem, answer, attempted, missed }) =>
+                [studentId, problem, answer, attempted, missed]
+            ))
+        )
+    };
+
+    return Object.entries(files).map(([name, content]) => {
+        const path = resolve(out, name);
+        writeFileSync(path, content);
+        return path;
+    });
+}
+
+function fail(message: string): never {
+    console.error(message);
+    process.exit(1);
+}
+
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const files: string[] = [];
+    let format = "csv";
+    let out = "reports";
+    let period: "day" | "week" = "week";
+    let since = -Infinity;
+    let until = Infinity;
+    let roster: Set<string> | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith("--")) {
+            files.push(arg);
+            continue;
+        }
+
+        const value = args[++i];
+        if (value === undefined) fail(`Missing value for ${arg}`);
+
+        switch (arg) {
+            case "--format":
+                if (value !== "csv" && value !== "json") fail(`Unknown format: ${value}`);
+                format = value;
+                break;
+            case "--out":
+                out = value;
+                break;
+            case "--period":
+                if (value !== "day" && value !== "week") fail(`Unknown period: ${value}`);
+                period = value;
+                break;
+            case "--since":
+            case "--until": {
+                const time = Date.parse(value);
+                if (Number.isNaN(time)) fail(`Invalid date: ${value}`);
+                if (arg === "--since") since = time;
+                else until = time;
+                break;
+            }
+            case "--roster":
+                roster = new Set(readFileSync(value, "utf8").split(/[\s,]+/).filter(id => id.length));
+                break;
+            default:
+                fail(`Unknown option: ${arg}`);
+        }
+    }
+
+    if (!files.length) files.push("learning-records.ndjson");
+
+    const sources = files.map(file => {
+        if (!existsSync(file)) fail(`No such file: ${file}`);
+        return readAnswers(file);
+    });
+
+    // The ledger records the same answers as the learning records, so they'd be counted twice
+    const useLedger = !sources.some(({ fromRecords }) => fromRecords);
+    if (!useLedger && sources.some(({ fromLedger }) => fromLedger)) {
+        console.warn("Both learning records and ledger entries were given; only the learning records are used");
+    }
+
+    const answers = sources
+        .filter(({ fromRecords }) => fromRecords || useLedger)
+        .flatMap(({ answers }) => answers)
+        .filter(({ studentId, time }) => time >= since && time < until && (roster === undefined || roster.has(studentId)))
+        .sort((a, b) => a.time - b.time);
+
+    const byStudent = new Map<string, Answer[]>();
+    for (const answer of answers) {
+        let studentAnswers = byStudent.get(answer.studentId);
+        if (studentAnswers === undefined) byStudent.set(answer.studentId, studentAnswers = []);
+        studentAnswers.push(answer);
+    }
+
+    const reports = [
+        buildReport(answers, period),
+        ...[...byStudent].sort(([a], [b]) => a.localeCompare(b)).map(([studentId, studentAnswers]) => buildReport(studentAnswers, period, studentId))
+    ];
+
+    mkdirSync(out, { recursive: true });
+    let written: string[];
+    if (format === "json") {
+        const path = resolve(out, "learning-report.json");
+        const [classReport, ...students] = reports;
+        writeFileSync(path, JSON.stringify({ generated: new Date().toISOString(), period, class: classReport, students }, null, 4));
+        written = [path];
+    } else {
+        written = writeCSV(out, reports);
+    }
+
+    console.log(`Reported on ${answers.length} answers from ${byStudent.size} students`);
+    for (const path of written) console.log(`Wrote ${path}`);
+}
@@ -16,6 +16,7 @@ import { MapDefinition, MapName, Maps, ObstacleClump, RiverDefinition } from "./
 import { type Game } from "./game";
 import { Building } from "./objects/building";
 import { Obstacle } from "./objects/obstacle";
+import { Config } from "./utils/config";
 import { getLootFromTable } from "./utils/lootHelpers";
 import { CARDINAL_DIRECTIONS, getRandomIDString } from "./utils/misc";
 
@@ -187,6 +188,9 @@ export class GameMap {
 
         Object.entries(mapDef.buildings ?? {}).forEach(([building, count]) => this._generateBuildings(building, count));
 
+        const mathTerminals = Config.math?.terminals ? mapDef.mathTerminals : undefined;
+        Object.entries(mathTerminals?.buildings ?? {}).forEach(([building, count]) => this._generateBuildings(building, count));
+
         this._generateClearings(mapDef.clearings);
 
         if (mapDef.rivers) {
@@ -201,6 +205,7 @@ export class GameMap {
         }
 
         Object.entries(mapDef.obstacles ?? {}).forEach(([obstacle, count]) => this._generateObstacles(obstacle, count));
+        Object.entries(mathTerminals?.obstacles ?? {}).forEach(([obstacle, count]) => this._generateObstacles(obstacle, count));
 
         Object.entries(mapDef.loots ?? {}).forEach(([loot, count]) => this._generateLoots(loot, count));
 
@@ -740,7 +745,7 @@ export class GameMap {
         }
 
         for (const lootData of definition.lootSpawners ?? []) {
-            for (const item of getLootFromTable(this.game.modeName, lootData.table)) {
+            for (const item of getLootFromTable(this.game.modeName, lootData.table, this.game.consumableGating)) {
                 this.game.addLoot(
                     item.idString,
                     Vec.addAdjust(position, lootData.position, orientation),
@@ -959,7 +964,7 @@ export class GameMap {
 
     private _generateLoots(table: string, count: number): void {
         for (let i = 0; i < count; i++) {
-            const loot = getLootFromTable(this.game.modeName, table);
+            const loot = getLootFromTable(this.game.modeName, table, this.game.consumableGating);
 
             const position = this.getRandomPosition(
                 new CircleHitbox(5),
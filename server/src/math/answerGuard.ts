@@ -0,0 +1,142 @@
+import { Numeric } from "@common/utils/math";
+import { randomBytes } from "node:crypto";
+import { type Player } from "../objects/player";
+import { Config } from "../utils/config";
+import { RateLimiter, sendReport, serverWarn } from "../utils/serverHelpers";
+
+const limits = Config.math?.answerLimits;
+
+export enum AnswerRejection {
+    /**
+     * The player is answering faster than anyone could work the problems out
+     */
+    RateLimited,
+    /**
+     * The player got too many answers to one problem wrong, and has to wait before answering again
+     */
+    LockedOut
+}
+
+interface AnswerHistory {
+    /**
+     * Wrong answers given to the problem the player is working on
+     */
+    wrongAnswers: number
+    lockouts: number
+    /**
+     * The value of `Date.now()` at which the current lockout ends
+     */
+    lockedUntil: number
+    rateLimited: number
+    reported: boolean
+}
+
+/**
+ * Keeps answers from being brute-forced, by limiting how quickly each player can answer
+ * and locking them out for increasingly long after repeated wrong answers to one problem
+ */
+export class AnswerGuard {
+    private readonly _histories = new Map<number, AnswerHistory>(); // player id -> history
+
+    /**
+     * Counts each player's accepted answers until they're a window old, so that the window slides with
+     * each player's own answers, and answers can't be bunched up on either side of a reset
+     */
+    private readonly _answers = new RateLimiter((limits?.count ?? 3) - 1);
+
+    private getHistory(player: Player): AnswerHistory {
+        let history = this._histories.get(player.id);
+        if (history === undefined) {
+            this._histories.set(player.id, history = {
+                wrongAnswers: 0,
+                lockouts: 0,
+                lockedUntil: 0,
+                rateLimited: 0,
+                reported: false
+            });
+        }
+        return history;
+    }
+
+    /**
+     * Checks whether an answer from a player should be accepted. Refused answers are never checked,
+     * so that they don't give away whether they were right
+     * @returns Why the answer was refused, or `undefined` if it should be accepted
+     */
+    check(player: Player): AnswerRejection | undefined {
+        const history = this.getHistory(player);
+
+        if (Date.now() < history.lockedUntil) return AnswerRejection.LockedOut;
+
+        const key = `${player.id}`;
+        if (this._answers.isLimited(key)) {
+            history.rateLimited++;
+            this.reportIfSpamming(player, history);
+            return AnswerRejection.RateLimited;
+        }
+
+        this._answers.increment(key);
+        setTimeout(() => this._answers.decrement(key), limits?.duration ?? 1000);
+    }
+
+    /**
+     * @returns How long until the player may answer again, in milliseconds
+     */
+    lockoutRemaining(player: Player): number {
+        return Numeric.max(Math.ceil(this.getHistory(player).lockedUntil - Date.now()), 0);
+    }
+
+    /**
+     * Called whenever a player is given a new problem, which they get a fresh set of tries at
+     */
+    startProblem(player: Player): void {
+        this.getHistory(player).wrongAnswers = 0;
+    }
+
+    recordAnswer(player: Player, isCorrect: boolean): void {
+        if (isCorrect) return;
+
+        const history = this.getHistory(player);
+        if (++history.wrongAnswers < (limits?.wrongAnswersBeforeLockout ?? 3)) return;
+
+        // Each lockout lasts twice as long as the last
+        const duration = Numeric.min(
+            (limits?.lockoutDuration ?? 5000) * 2 ** history.lockouts,
+            limits?.maxLockoutDuration ?? 60000
+        );
+
+        history.wrongAnswers = 0;
+        history.lockouts++;
+        history.lockedUntil = Date.now() + duration;
+
+        this.reportIfSpamming(player, history);
+    }
+
+    delete(player: Player): void {
+        this._histories.delete(player.id);
+    }
+
+    private reportIfSpamming(player: Player, history: AnswerHistory): void {
+        if (history.reported) return;
+
+        const reportAfter = limits?.reportAfter;
+        if (
+            history.lockouts < (reportAfter?.lockouts ?? 3)
+            && history.rateLimited < (reportAfter?.rateLimited ?? 30)
+        ) return;
+
+        history.reported = true;
+
+        const reason = `Math answer spam: locked out ${history.lockouts} time(s), ${history.rateLimited} answer(s) refused for answering too quickly`;
+        serverWarn(`Reporting ${player.name} (${player.ip}): ${reason}`);
+
+        sendReport({
+            id: randomBytes(4).toString("hex"),
+            reporterName: "Server",
+            suspectName: player.name,
+            suspectIP: player.ip,
+            reason,
+            time: player.game.now
+        });
+    }
+}
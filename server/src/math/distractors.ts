@@ -0,0 +1,179 @@
+import { AnswerType, type MathAnswer, type MathExpression, type MathOperand, MathOperator, OperandKind } from "@common/utils/mathProblems";
+import { randomSign } from "@common/utils/random";
+
+/**
+ * Evaluates an operand. Unknowns and operations that aren't defined (such as a division by zero) evaluate to `NaN`
+ */
+export function evaluate(operand: MathOperand): number {
+    switch (operand.kind) {
+        case OperandKind.Number: return operand.value;
+        case OperandKind.Fraction: return operand.numerator / operand.denominator;
+        case OperandKind.Unknown: return NaN;
+        case OperandKind.Expression: {
+            const left = evaluate(operand.operands[0]);
+            const right = evaluate(operand.operands[1]);
+            return apply(operand.operator, left, right);
+        }
+    }
+}
+
+function apply(operator: MathOperator, left: number, right: number): number {
+    switch (operator) {
+        case MathOperator.Add: return left + right;
+        case MathOperator.Subtract: return left - right;
+        case MathOperator.Multiply:
+        case MathOperator.FractionOf: return left * right;
+        case MathOperator.Divide: return right === 0 ? NaN : left / right;
+        case MathOperator.PercentOf: return left * right / 100;
+        case MathOperator.Equals: return NaN;
+    }
+}
+
+/**
+ * Replaces the unknown in an equation with a value, turning `7 × ? = 56` into `7 × 9 = 56`
+ */
+function substituteUnknown(operand: MathOperand, value: number): MathOperand {
+    switch (operand.kind) {
+        case OperandKind.Unknown:
+            return { kind: OperandKind.Number, value };
+        case OperandKind.Expression:
+            return {
+                ...operand,
+                operands: [substituteUnknown(operand.operands[0], value), substituteUnknown(operand.operands[1], value)]
+            };
+        default:
+            return operand;
+    }
+}
+
+function containsUnknown(operand: MathOperand): boolean {
+    return operand.kind === OperandKind.Unknown
+        || (operand.kind === OperandKind.Expression && operand.operands.some(containsUnknown));
+}
+
+/**
+ * Turns a problem into a statement claiming that its answer is `value`, e.g. `7 × 8 = 54` or `7 × 9 = 56`
+ */
+export function claimAnswer(expression: MathExpression, value: number): MathExpression {
+    if (containsUnknown(expression)) {
+        return {
+            ...expression,
+            operands: [substituteUnknown(expression.operands[0], value), substituteUnknown(expression.operands[1], value)]
+        };
+    }
+
+    return {
+        kind: OperandKind.Expression,
+        operator: MathOperator.Equals,
+        operands: [expression, { kind: OperandKind.Number, value }]
+    };
+}
+
+/**
+ * Answers a student arrives at by using the wrong operation, or by doing the operations in the wrong order
+ */
+function wrongOperationResults(expression: MathExpression): number[] {
+    const { operator, operands: [left, right] } = expression;
+    const results: number[] = [];
+
+    if (operator === MathOperator.Equals) {
+        // `a ○ ? = c`: undoing the operation with anything but its inverse
+        const [unknownSide, result] = containsUnknown(left) ? [left, right] : [right, left];
+        if (unknownSide.kind !== OperandKind.Expression) return results;
+
+        const known = unknownSide.operands.find(operand => !containsUnknown(operand));
+        if (known === undefined) return results;
+
+        const a = evaluate(known);
+        const c = evaluate(result);
+        results.push(c + a, c - a, a - c, c * a, c / a);
+        return results;
+    }
+
+    const a = evaluate(left);
+    const b = evaluate(right);
+
+    switch (operator) {
+        case MathOperator.Add:
+        case MathOperator.Subtract:
+        case MathOperator.Multiply:
+        case MathOperator.Divide:
+            for (const other of [MathOperator.Add, MathOperator.Subtract, MathOperator.Multiply, MathOperator.Divide]) {
+                if (other !== operator) results.push(apply(other, a, b));
+            }
+            break;
+        case MathOperator.FractionOf:
+            // Forgetting to multiply by the numerator, or dividing by the numerator instead
+            if (left.kind === OperandKind.Fraction) {
+                results.push(b / left.denominator, b / left.numerator, b * left.numerator);
+            }
+            break;
+        case MathOperator.PercentOf:
+            // Misplacing the decimal point
+            results.push(a * b / 10, a * b / 1000, b - a);
+            break;
+    }
+
+    // Ignoring precedence, so that `a + b × c` is worked out as `(a + b) × c`
+    if (right.kind === OperandKind.Expression && right.operands[0].kind !== OperandKind.Expression) {
+        results.push(apply(right.operator, apply(operator, a, evaluate(right.operands[0])), evaluate(right.operands[1])));
+    }
+    if (left.kind === OperandKind.Expression && left.operands[1].kind !== OperandKind.Expression) {
+        results.push(apply(left.operator, evaluate(left.operands[0]), apply(operator, evaluate(left.operands[1]), b)));
+    }
+
+    return results;
+}
+
+/**
+ * Shuffles an array in place
+ * @returns The same array
+ */
+export function shuffle<T>(array: T[]): T[] {
+    for (let i = array.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [array[i], array[j]] = [array[j], array[i]];
+    }
+    return array;
+}
+
+/**
+ * Generates plausible wrong answers for a problem, based on common error patterns:
+ * using the wrong operation, ignoring the order of operations, and being off by one (or ten)
+ * @param expression The problem
+ * @param answer The correct answer. Only numeric answers are supported
+ * @param count How many distractors to generate
+ */
+export function generateDistractors(expression: MathExpression, answer: MathAnswer, count: number): MathAnswer[] {
+    if (answer.type !== AnswerType.Integer) {
+        throw new TypeError("Distractors can only be generated for integer answers");
+    }
+
+    const correct = answer.value;
+    const distractors = new Set<number>();
+
+    // Distractors shouldn't stand out by their form: a negative or fractional choice is easy to rule out
+    // when the answer is a positive integer
+    const isPlausible = (value: number): boolean => Number.isInteger(value)
+        && value !== correct
+        && (correct < 0 || value >= 0)
+        && Math.abs(value) <= Math.max(Math.abs(correct) * 4, 20);
+
+    const add = (candidates: number[]): void => {
+        for (const candidate of shuffle(candidates)) {
+            if (distractors.size >= count) return;
+            if (isPlausible(candidate)) distractors.add(candidate);
+        }
+    };
+
+    add(wrongOperationResults(expression));
+    add([correct + 1, correct - 1]);
+    if (Math.abs(correct) >= 20) add([correct + 10, correct - 10]);
+
+    // Fall back to nearby numbers; this always terminates, since there are infinitely many of them
+    for (let offset = 2; distractors.size < count; offset++) {
+        add([correct + randomSign() * offset]);
+    }
+
+    return [...distractors].map(value => ({ type: AnswerType.Integer, value }));
+}
@@ -0,0 +1,248 @@
+import { type MathExpression, type MathHint, type MathOperand, MathOperator, OperandKind } from "@common/utils/mathProblems";
+import { evaluate } from "./distractors";
+import { expr, unknown } from "./problemGenerators";
+import { type MathFact } from "./reviewQueue";
+
+/**
+ * Worked solutions longer than this are cut short, since they're shown in a small panel
+ */
+const MAX_SOLUTION_STEPS = 6;
+
+function isExpression(operand: MathOperand): operand is MathExpression {
+    return operand.kind === OperandKind.Expression;
+}
+
+function numberValue(operand: MathOperand): number | undefined {
+    return operand.kind === OperandKind.Number ? operand.value : undefined;
+}
+
+/**
+ * Splits an equation such as `7 × ? = 56` into its parts
+ * @returns `undefined` if the expression isn't a missing operand equation
+ */
+function parseEquation(expression: MathExpression): {
+    readonly operator: MathOperator
+    /**
+     * The operand that isn't the `?`
+     */
+    readonly known: number
+    readonly unknownFirst: boolean
+    readonly result: number
+} | undefined {
+    if (expression.operator !== MathOperator.Equals) return;
+
+    const [side, resultOperand] = expression.operands;
+    const result = numberValue(resultOperand);
+    if (!isExpression(side) || result === undefined) return;
+
+    const [left, right] = side.operands;
+    const unknownFirst = left.kind === OperandKind.Unknown;
+    const known = numberValue(unknownFirst ? right : left);
+    if (known === undefined || (!unknownFirst && right.kind !== OperandKind.Unknown)) return;
+
+    return { operator: side.operator, known, unknownFirst, result };
+}
+
+/**
+ * Undoes the operation in an equation, turning `7 × ? = 56` into `56 ÷ 7`
+ */
+function inverse(equation: NonNullable<ReturnType<typeof parseEquation>>): MathExpression | undefined {
+    const { operator, known, unknownFirst, result } = equation;
+
+    switch (operator) {
+        case MathOperator.Add: return expr(result, MathOperator.Subtract, known);
+        case MathOperator.Multiply: return expr(result, MathOperator.Divide, known);
+        // a - ? = c, so ? = a - c, but ? - b = c, so ? = c + b
+        case MathOperator.Subtract: return unknownFirst ? expr(result, MathOperator.Add, known) : expr(known, MathOperator.Subtract, result);
+        case MathOperator.Divide: return unknownFirst ? expr(result, MathOperator.Multiply, known) : expr(known, MathOperator.Divide, result);
+    }
+}
+
+function num(value: number): MathOperand {
+    return { kind: OperandKind.Number, value };
+}
+
+/**
+ * @param operands Numbers are turned into number operands
+ */
+function hint(key: string, ...operands: ReadonlyArray<MathOperand | number>): MathHint {
+    return { key, operands: operands.map(operand => typeof operand === "number" ? num(operand) : operand) };
+}
+
+/**
+ * @returns A nudge towards the method for solving a problem, without giving its answer away
+ */
+export function hintFor(fact: MathFact): MathHint {
+    const { expression } = fact;
+
+    const equation = parseEquation(expression);
+    if (equation !== undefined) {
+        const { operator, known, unknownFirst, result } = equation;
+        switch (operator) {
+            case MathOperator.Add: return hint("work_backwards_subtract", known, result);
+            case MathOperator.Subtract: return unknownFirst ? hint("work_backwards_add", known, result) : hint("work_backwards_subtract", result, known);
+            case MathOperator.Multiply: return hint("work_backwards_groups", known, result);
+            case MathOperator.Divide: return unknownFirst ? hint("work_backwards_multiply", result, known) : hint("work_backwards_divide", known, result);
+        }
+    }
+
+    const [left, right] = expression.operands;
+    if (isExpression(left) || isExpression(right)) {
+        const isSum = (operand: MathOperand): boolean => isExpression(operand)
+            && (operand.operator === MathOperator.Add || operand.operator === MathOperator.Subtract);
+        const isProduct = expression.operator === MathOperator.Multiply || expression.operator === MathOperator.Divide;
+
+        // A sum inside a product is only written that way with brackets
+        return hint(isProduct && (isSum(left) || isSum(right)) ? "brackets_first" : "multiply_first");
+    }
+
+    const a = numberValue(left);
+    const b = numberValue(right);
+
+    switch (expression.operator) {
+        case MathOperator.FractionOf: {
+            if (left.kind !== OperandKind.Fraction || b === undefined) break;
+            const { numerator, denominator } = left;
+            return numerator === 1
+                ? hint("fraction_unit", b, denominator)
+                : hint("fraction", b, denominator, numerator);
+        }
+        case MathOperator.PercentOf: {
+            switch (a) {
+                case 50: return hint("percent_half");
+                case 25: return hint("percent_quarter");
+                case 75: return hint("percent_three_quarters");
+                case 20: return hint("percent_fifth");
+                case 10: return hint("percent_tenth");
+                default: return hint("percent_scale");
+            }
+        }
+        case MathOperator.Add: {
+            if (a === undefined || b === undefined) break;
+            if (b < 0) return hint("add_negative");
+            if (a < 0) return hint("add_from_negative");
+            if (a >= 10 && b >= 10) return hint("add_tens_first");
+            return hint("count_on", Math.max(a, b));
+        }
+        case MathOperator.Subtract: {
+            if (a === undefined || b === undefined) break;
+            if (b < 0) return hint("subtract_negative");
+            if (a < b) return hint("subtract_below_zero");
+            if (b >= 10) return hint("subtract_tens_first");
+            return hint("count_up", b, a);
+        }
+        case MathOperator.Multiply: {
+            if (a === undefined || b === undefined) break;
+            if (a < 0 || b < 0) return hint("multiply_signs");
+            if (a >= 10) return hint("multiply_split", a, expr(a - a % 10, MathOperator.Add, a % 10));
+            if (b > 2 && b % 2 === 0) return hint("multiply_double", expression, expr(a, MathOperator.Multiply, b / 2));
+            if (a > 2 && a % 2 === 0) return hint("multiply_double", expression, expr(a / 2, MathOperator.Multiply, b));
+            return hint("skip_count", a, b);
+        }
+        case MathOperator.Divide: {
+            if (a === undefined || b === undefined) break;
+            return hint("divide_multiplication", b, a);
+        }
+    }
+
+    return hint("one_step");
+}
+
+/**
+ * Replaces the first innermost operation, in the order it should be worked out, with its value
+ */
+function reduce(operand: MathOperand): MathOperand {
+    if (!isExpression(operand)) return operand;
+
+    const [left, right] = operand.operands;
+    if (isExpression(left)) return { ...operand, operands: [reduce(left), right] };
+    if (isExpression(right)) return { ...operand, operands: [left, reduce(right)] };
+
+    return num(evaluate(operand));
+}
+
+/**
+ * Works out an expression one operation at a time, e.g. `28 × 2`, then `56`
+ */
+function reductionSteps(expression: MathExpression): MathOperand[] {
+    const steps: MathOperand[] = [];
+
+    let operand: MathOperand = expression;
+    while (isExpression(operand) && steps.length < MAX_SOLUTION_STEPS) {
+        steps.push(operand = reduce(operand));
+    }
+
+    return steps;
+}
+
+/**
+ * Rewrites a problem into an easier one with the same value, such as `7 × 8` into `7 × 4 × 2`
+ */
+function decompose(expression: MathExpression): MathExpression | undefined {
+    const [left, right] = expression.operands;
+    const a = numberValue(left);
+    const b = numberValue(right);
+
+    switch (expression.operator) {
+        case MathOperator.Multiply: {
+            if (a === undefined || b === undefined || a < 0 || b < 0) return;
+
+            if (a >= 10 && a % 10 !== 0) {
+                const ones = a % 10;
+                return expr(expr(a - ones, MathOperator.Multiply, b), MathOperator.Add, expr(ones, MathOperator.Multiply, b));
+            }
+            if (b > 2 && b % 2 === 0) return expr(expr(a, MathOperator.Multiply, b / 2), MathOperator.Multiply, 2);
+            if (a > 2 && a % 2 === 0) return expr(expr(b, MathOperator.Multiply, a / 2), MathOperator.Multiply, 2);
+            return;
+        }
+        case MathOperator.FractionOf: {
+            if (left.kind !== OperandKind.Fraction || b === undefined) return;
+
+            const { numerator, denominator } = left;
+            const part = expr(b, MathOperator.Divide, denominator);
+            return numerator === 1 ? part : expr(part, MathOperator.Multiply, numerator);
+        }
+        case MathOperator.PercentOf: {
+            if (a === undefined || b === undefined) return;
+            return expr(expr(a, MathOperator.Multiply, b), MathOperator.Divide, 100);
+        }
+    }
+}
+
+/**
+ * @returns A short worked solution: the problem, followed by each step towards its answer, such as `7 × 8`,
+ * `7 × 4 × 2`, `28 × 2` and `56`. Steps that are equations, such as `? = 56 ÷ 7`, stand on their own; the others are
+ * equal to the problem
+ */
+export function workedSolution(fact: MathFact): MathOperand[] {
+    const { expression } = fact;
+
+    const equation = parseEquation(expression);
+    if (equation !== undefined) {
+        const undone = inverse(equation);
+        if (undone === undefined) return [expression];
+
+        return [
+            expression,
+            expr(unknown, MathOperator.Equals, undone),
+            expr(unknown, MathOperator.Equals, evaluate(undone))
+        ];
+    }
+
+    // Divisions are easier to check as the multiplication they undo
+    const [left, right] = expression.operands;
+    const dividend = numberValue(left);
+    const divisor = numberValue(right);
+    if (expression.operator === MathOperator.Divide && dividend !== undefined && divisor !== undefined) {
+        return [
+            expression,
+            expr(expr(divisor, MathOperator.Multiply, unknown), MathOperator.Equals, dividend),
+            expr(unknown, MathOperator.Equals, evaluate(expression))
+        ];
+    }
+
+    const decomposed = decompose(expression);
+    return decomposed === undefined
+        ? [expression, ...reductionSteps(expression)]
+        : [expression, decomposed, ...reductionSteps(decomposed)];
+}
@@ -0,0 +1,76 @@
+import { Loots } from "@common/definitions/loots";
+import { type LearningSummary, type OperationSummary } from "@common/packets/gameOverPacket";
+import { Numeric } from "@common/utils/math";
+import { type MathOperation } from "./problemGenerators";
+
+/**
+ * Tallies what a player did in the math challenge during a match, for the game over screen
+ */
+export class LearningSummaryTracker {
+    problemsAttempted = 0;
+    problemsCorrect = 0;
+
+    private readonly _operations = new Map<MathOperation, { attempted: number, correct: number }>();
+
+    /**
+     * Response time of the quickest correct answer, in milliseconds
+     */
+    fastestAnswer?: number;
+
+    xpEarned = 0;
+
+    /**
+     * The value of `Date.now()` when the player last answered a problem
+     */
+    lastAnswer?: number;
+
+    private readonly _itemsEarned = new Map<string, number>(); // id string -> count
+
+    recordAnswer(operation: MathOperation, isCorrect: boolean, attemptNumber: number, responseTime: number, xp: number): void {
+        this.xpEarned += xp;
+        this.lastAnswer = Date.now();
+
+        if (isCorrect && (this.fastestAnswer === undefined || responseTime < this.fastestAnswer)) {
+            this.fastestAnswer = responseTime;
+        }
+
+        // Retries would otherwise make a student's accuracy look worse the more they persevere
+        if (attemptNumber !== 1) return;
+
+        let tally = this._operations.get(operation);
+        if (tally === undefined) this._operations.set(operation, tally = { attempted: 0, correct: 0 });
+
+        tally.attempted++;
+        this.problemsAttempted++;
+        if (isCorrect) {
+            tally.correct++;
+            this.problemsCorrect++;
+        }
+    }
+
+    recordItems(idString: string, count: number): void {
+        if (count <= 0) return;
+        this._itemsEarned.set(idString, (this._itemsEarned.get(idString) ?? 0) + count);
+    }
+
+    toSummary(): LearningSummary {
+        // Counts are sent as 16-bit integers
+        const clamp = (value: number): number => Numeric.min(value, 65535);
+
+        return {
+            problemsAttempted: clamp(this.problemsAttempted),
+            problemsCorrect: clamp(this.problemsCorrect),
+            operations: [...this._operations].map(([operation, { attempted, correct }]): OperationSummary => ({
+                operation,
+                attempted: clamp(attempted),
+                correct: clamp(correct)
+            })),
+            fastestAnswer: this.fastestAnswer === undefined ? undefined : Numeric.max(Math.round(this.fastestAnswer), 1),
+            xpEarned: clamp(this.xpEarned),
+            itemsEarned: [...this._itemsEarned].map(([idString, count]) => ({
+                item: Loots.fromString(idString),
+                count: clamp(count)
+            }))
+        };
+    }
+}
@@ -0,0 +1,106 @@
+import { Numeric } from "@common/utils/math";
+
+/**
+ * Rating of a problem at the given difficulty level. Problem ratings are fixed;
+ * only student ratings move
+ */
+export function ratingForDifficulty(difficulty: number): number {
+    return 1000 + (difficulty - 1) * 100;
+}
+
+/**
+ * Rating given to a student on their first problem, chosen so that
+ * they're expected to answer about three in four basic facts correctly
+ */
+export const INITIAL_RATING = ratingForDifficulty(1) + 200;
+
+export interface SkillMastery {
+    rating: number
+    attempts: number
+    correct: number
+}
+
+export interface StudentMastery {
+    /**
+     * Rating across all skills, used as the starting point for skills the student hasn't tried yet
+     */
+    overall: number
+    readonly skills: Map<string, SkillMastery>
+}
+
+/**
+ * Estimates how well each student knows each skill using an Elo rating system,
+ * treating every answered problem as a match between the student and the problem
+ */
+export class MasteryTracker {
+    private readonly _students = new Map<string, StudentMastery>();
+
+    /**
+     * @param skillK How far a single answer moves the rating of the skill it exercised
+     * @param overallK How far a single answer moves the overall rating
+     */
+    constructor(
+        readonly skillK = 32,
+        readonly overallK = 16
+    ) {}
+
+    get(key: string): StudentMastery {
+        let student = this._students.get(key);
+        if (student === undefined) {
+            this._students.set(key, student = { overall: INITIAL_RATING, skills: new Map() });
+        }
+        return student;
+    }
+
+    /**
+     * Replaces a student's estimates with ones saved earlier
+     */
+    load(key: string, { overall, skills }: Readonly<StudentMastery>): void {
+        this._students.set(key, {
+            overall,
+            skills: new Map([...skills].map(([skillId, skill]) => [skillId, { ...skill }]))
+        });
+    }
+
+    delete(key: string): void {
+        this._students.delete(key);
+    }
+
+    rating(key: string, skillId: string): number {
+        const student = this.get(key);
+        return student.skills.get(skillId)?.rating ?? student.overall;
+    }
+
+    /**
+     * @param guessRate Probability of answering correctly by guessing, such as `0.25` for a problem with four choices
+     * @returns The probability, between 0 and 1, that the student answers
+     * a problem of the given skill and difficulty correctly
+     */
+    expectedScore(key: string, skillId: string, difficulty: number, guessRate = 0): number {
+        const p = 1 / (1 + 10 ** ((ratingForDifficulty(difficulty) - this.rating(key, skillId)) / 400));
+        return guessRate + (1 - guessRate) * p;
+    }
+
+    /**
+     * @param guessRate Probability of answering correctly by guessing. Correct answers to problems that are
+     * easy to guess move ratings less, and wrong ones move them more
+     * @returns The skill's updated estimate
+     */
+    record(key: string, skillId: string, difficulty: number, isCorrect: boolean, guessRate = 0): Readonly<SkillMastery> {
+        const student = this.get(key);
+        const expected = this.expectedScore(key, skillId, difficulty, guessRate);
+        const delta = (isCorrect ? 1 : 0) - expected;
+
+        let skill = student.skills.get(skillId);
+        if (skill === undefined) {
+            student.skills.set(skillId, skill = { rating: student.overall, attempts: 0, correct: 0 });
+        }
+
+        skill.rating = Numeric.max(skill.rating + this.skillK * delta, 0);
+        skill.attempts++;
+        if (isCorrect) skill.correct++;
+
+        student.overall = Numeric.max(student.overall + this.overallK * delta, 0);
+        return skill;
+    }
+}
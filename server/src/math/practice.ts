@@ -0,0 +1,119 @@
+import { Ammos } from "@common/definitions/items/ammos";
+import { HealingItems } from "@common/definitions/items/healingItems";
+import { Numeric } from "@common/utils/math";
+import { type Player } from "../objects/player";
+import { Config } from "../utils/config";
+import { serverWarn } from "../utils/serverHelpers";
+import { progressLedger } from "./progressLedger";
+import { awardReward } from "./rewards";
+
+export interface StarterKit {
+    /**
+     * How many banked points the kit costs
+     */
+    readonly points: number
+    /**
+     * Item ID string -> count
+     */
+    readonly items: Readonly<Record<string, number>>
+}
+
+/**
+ * Banks points for the practice problems students solve after dying, and spends them on a starter kit
+ * when they join their next match. Points are kept in the progress ledger, so they follow the student
+ * from one game to the next
+ */
+export class PracticeBank {
+    /**
+     * Sorted from cheapest to most expensive
+     */
+    readonly kits: readonly StarterKit[];
+
+    /**
+     * Students can't bank more points than the most expensive kit costs
+     */
+    readonly maxPoints: number;
+
+    /**
+     * @param kits Starter kits that banked points are spent on
+     * @param pointsPerAnswer Points banked for each practice problem solved
+     */
+    constructor(
+        kits: readonly StarterKit[] = [
+            { points: 5, items: { "gauze": 2, "9mm": 30 } },
+            { points: 10, items: { "gauze": 3, "cola": 1, "9mm": 60 } },
+            { points: 20, items: { "medikit": 1, "gauze": 3, "cola": 1, "9mm": 60, "12g": 10 } }
+        ],
+        readonly pointsPerAnswer = 1
+    ) {
+        this.kits = [...kits].sort((a, b) => a.points - b.points);
+        this.maxPoints = this.kits.at(-1)?.points ?? 0;
+    }
+
+    /**
+     * @returns The points the player has banked, which is always 0 for players who aren't verified students
+     */
+    banked(player: Player): number {
+        return player.studentId === undefined ? 0 : progressLedger.get(player.studentId).practicePoints;
+    }
+
+    /**
+     * Banks the points for a solved practice problem, up to {@link PracticeBank.maxPoints}
+     * @returns The points the player has banked now
+     */
+    bank(player: Player): number {
+        const banked = this.banked(player);
+        if (player.studentId === undefined) return banked;
+
+        const points = Numeric.min(this.pointsPerAnswer, this.maxPoints - banked);
+        if (points <= 0) return banked;
+
+        progressLedger.recordPractice(player.studentId, points);
+        return banked + points;
+    }
+
+    /**
+     * Gives a student the most expensive kit they can afford with their banked points, and spends them.
+     * The balance is read from the ledger first, in case the student spent their points in another game
+     * @returns The kit given, if any
+     */
+    async grantKit(player: Player): Promise<StarterKit | undefined> {
+        if (player.studentId === undefined) return;
+
+        const { practicePoints: banked } = await progressLedger.load(player.studentId);
+        if (player.disconnected) return;
+
+        let kit: StarterKit | undefined;
+        for (const candidate of this.kits) {
+            if (candidate.points <= banked) kit = candidate;
+        }
+        if (kit === undefined) return;
+
+        progressLedger.recordKit(player.studentId, kit.points);
+        for (const [item, count] of Object.entries(kit.items)) {
+            player.learningSummary.recordItems(item, awardReward(player, item, count));
+        }
+        return kit;
+    }
+}
+
+/**
+ * @returns A bank set up from the `math.practice` config option, or `undefined` if practice is disabled
+ */
+export function createPracticeBank(): PracticeBank | undefined {
+    const options = Config.math?.practice;
+    if (options?.enabled === false) return;
+
+    const kits = options?.kits?.map(({ points, items }) => ({
+        points,
+        items: Object.fromEntries(Object.entries(items).filter(([item]) => {
+            // Starter kits are for healing items and ammo
+            if (HealingItems.hasString(item) || Ammos.hasString(item)) return true;
+
+            serverWarn(`Unknown healing item or ammo in starter kit: ${item}`);
+            return false;
+        }))
+    }));
+
+    return new PracticeBank(kits, options?.pointsPerAnswer);
+}
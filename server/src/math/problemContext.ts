@@ -0,0 +1,41 @@
+import { GasState } from "@common/constants";
+import { PerkIds } from "@common/definitions/items/perks";
+import { type GunItem } from "../inventory/gunItem";
+import { type Player } from "../objects/player";
+import { type ProblemContext } from "./problemGenerators";
+
+/**
+ * @returns The player's situation, for word problems set in the game
+ */
+export function problemContextOf(player: Player): ProblemContext {
+    const { inventory, game: { gas } } = player;
+
+    // The gun in hand is the one the player is thinking about, but any gun will do
+    const guns = [inventory.activeWeapon, ...inventory.weapons]
+        .filter((item): item is GunItem => item?.isGun === true && !item.definition.infiniteAmmo);
+    const gun = guns.at(0);
+
+    return {
+        gun: gun === undefined
+            ? undefined
+            : {
+                idString: gun.definition.idString,
+                ammoType: gun.definition.ammoType,
+                loaded: gun.ammo,
+                capacity: player.hasPerk(PerkIds.ExtendedMags)
+                    ? gun.definition.extendedCapacity ?? gun.definition.capacity
+                    : gun.definition.capacity,
+                reserve: inventory.items.hasItem(gun.definition.ammoType) ? inventory.items.getItem(gun.definition.ammoType) : 0
+            },
+        // Health is rounded up, so that a sliver of missing health doesn't count
+        health: Math.ceil(player.health),
+        maxHealth: Math.round(player.maxHealth),
+        gas: gas.state === GasState.Inactive
+            ? undefined
+            : {
+                oldRadius: Math.round(gas.oldRadius),
+                newRadius: Math.round(gas.newRadius),
+                dps: gas.dps
+            }
+    };
+}
@@ -0,0 +1,554 @@
+import { AnswerType, type MathAnswer, type MathExpression, type MathOperand, MathOperator, type MathWordProblem, OperandKind } from "@common/utils/mathProblems";
+import { pickRandomInArray, random, randomBoolean } from "@common/utils/random";
+
+export type MathOperation =
+    | "ADDITION"
+    | "SUBTRACTION"
+    | "MULTIPLICATION"
+    | "DIVISION"
+    | "ORDER_OF_OPERATIONS"
+    | "FRACTIONS"
+    | "PERCENTAGES";
+
+export interface GeneratedProblem {
+    readonly expression: MathExpression
+    readonly answer: MathAnswer
+    /**
+     * Set for word problems, which are shown worded instead of as their expression
+     */
+    readonly words?: MathWordProblem
+}
+
+/**
+ * The player's situation, for word problems set in the game
+ */
+export interface ProblemContext {
+    /**
+     * The player's active gun, or their first one if they aren't holding one.
+     * Guns with infinite ammo are left out
+     */
+    readonly gun?: {
+        readonly idString: string
+        readonly ammoType: string
+        /**
+         * Rounds in the gun's magazine
+         */
+        readonly loaded: number
+        readonly capacity: number
+        /**
+         * Rounds of the gun's ammo type in the player's inventory
+         */
+        readonly reserve: number
+    }
+    /**
+     * In whole points
+     */
+    readonly health: number
+    readonly maxHealth: number
+    /**
+     * Set while the gas is active. Radii are in whole units
+     */
+    readonly gas?: {
+        readonly oldRadius: number
+        readonly newRadius: number
+        readonly dps: number
+    }
+}
+
+export interface ProblemGenerator {
+    readonly idString: string
+    /**
+     * Generators belonging to the same family are enabled and disabled together
+     * through the `math.generators` config option
+     */
+    readonly family: string
+    /**
+     * Identifies the skill (operation and number range) exercised by this generator.
+     * Used for reporting and mastery tracking
+     */
+    readonly skillId: string
+    readonly operation: MathOperation
+    /**
+     * Difficulty levels this generator can produce, on a scale of 1 (basic facts) to 10, inclusive
+     */
+    readonly difficulty: {
+        readonly min: number
+        readonly max: number
+    }
+    /**
+     * Word problems can only be generated when the player's situation fits them, e.g. when they have a gun.
+     * Generators without this check fit any situation
+     */
+    fits?(context: ProblemContext): boolean
+    /**
+     * @param difficulty A difficulty level within this generator's range
+     * @param context The player's situation, which {@link ProblemGenerator.fits} has been checked against
+     */
+    generate(difficulty: number, context: ProblemContext): GeneratedProblem
+}
+
+export const unknown: MathOperand = { kind: OperandKind.Unknown };
+
+function fraction(numerator: number, denominator: number): MathOperand {
+    return { kind: OperandKind.Fraction, numerator, denominator };
+}
+
+/**
+ * Shorthand for building an expression; plain numbers are turned into number operands
+ */
+export function expr(left: MathOperand | number, operator: MathOperator, right: MathOperand | number): MathExpression {
+    const operand = (value: MathOperand | number): MathOperand => typeof value === "number" ? { kind: OperandKind.Number, value } : value;
+    return { kind: OperandKind.Expression, operator, operands: [operand(left), operand(right)] };
+}
+
+function integer(value: number): MathAnswer {
+    return { type: AnswerType.Integer, value };
+}
+
+/**
+ * @param operands Numbers are turned into number operands
+ */
+function words(key: string, operands: readonly number[], items: readonly string[] = []): MathWordProblem {
+    return { key, operands: operands.map(value => ({ kind: OperandKind.Number, value })), items };
+}
+
+/**
+ * Returns a random integer with the given amount of digits
+ */
+function randomDigits(digits: number): number {
+    return random(10 ** (digits - 1), 10 ** digits - 1);
+}
+
+/**
+ * Word problem generators are only used in situations they fit, so the parts of the situation they need are always there
+ */
+function required<T>(value: T | undefined): T {
+    if (value === undefined) throw new Error("Word problem generated for a situation it doesn't fit");
+    return value;
+}
+
+function gcd(a: number, b: number): number {
+    return b === 0 ? a : gcd(b, a % b);
+}
+
+export class ProblemGeneratorRegistry {
+    private readonly _generators = new Map<string, ProblemGenerator>();
+
+    register(...generators: ProblemGenerator[]): this {
+        for (const generator of generators) {
+            if (this._generators.has(generator.idString)) {
+                throw new Error(`Duplicate problem generator: ${generator.idString}`);
+            }
+
+            const { min, max } = generator.difficulty;
+            if (min > max) {
+                throw new RangeError(`Problem generator ${generator.idString} has an invalid difficulty range (${min} > ${max})`);
+            }
+
+            this._generators.set(generator.idString, generator);
+        }
+        return this;
+    }
+
+    get(idString: string): ProblemGenerator | undefined {
+        return this._generators.get(idString);
+    }
+
+    get families(): string[] {
+        return [...new Set([...this._generators.values()].map(({ family }) => family))];
+    }
+
+    forFamilies(families: readonly string[]): ProblemGenerator[] {
+        return [...this._generators.values()].filter(({ family }) => families.includes(family));
+    }
+
+    [Symbol.iterator](): IterableIterator<ProblemGenerator> {
+        return this._generators.values();
+    }
+}
+
+export const ProblemGenerators = new ProblemGeneratorRegistry().register(
+    //
+    // Basic facts
+    //
+    {
+        idString: "basic_addition",
+        family: "basic",
+        skillId: "add_single_digit",
+        operation: "ADDITION",
+        difficulty: { min: 1, max: 2 },
+        generate(difficulty) {
+            const max = difficulty === 1 ? 9 : 12;
+            const a = random(1, max);
+            const b = random(1, max);
+            return { expression: expr(a, MathOperator.Add, b), answer: integer(a + b) };
+        }
+    },
+    {
+        idString: "basic_subtraction",
+        family: "basic",
+        skillId: "sub_single_digit",
+        operation: "SUBTRACTION",
+        difficulty: { min: 1, max: 2 },
+        generate(difficulty) {
+            const max = difficulty === 1 ? 9 : 12;
+            // Ensure positive result
+            const [larger, smaller] = [random(1, max), random(1, max)].sort((a, b) => b - a);
+            return { expression: expr(larger, MathOperator.Subtract, smaller), answer: integer(larger - smaller) };
+        }
+    },
+    {
+        idString: "basic_multiplication",
+        family: "basic",
+        skillId: "mul_single_digit",
+        operation: "MULTIPLICATION",
+        difficulty: { min: 1, max: 2 },
+        generate(difficulty) {
+            const max = difficulty === 1 ? 9 : 12;
+            const a = random(1, max);
+            const b = random(1, max);
+            return { expression: expr(a, MathOperator.Multiply, b), answer: integer(a * b) };
+        }
+    },
+    {
+        idString: "basic_division",
+        family: "basic",
+        skillId: "div_single_digit",
+        operation: "DIVISION",
+        difficulty: { min: 1, max: 2 },
+        generate(difficulty) {
+            // Ensure clean division by using multiplication in reverse
+            const max = difficulty === 1 ? 9 : 12;
+            const result = random(1, max);
+            const divisor = random(1, max);
+            return { expression: expr(result * divisor, MathOperator.Divide, divisor), answer: integer(result) };
+        }
+    },
+
+    //
+    // Multi-digit arithmetic
+    //
+    {
+        idString: "multi_digit_addition",
+        family: "multi_digit",
+        skillId: "add_multi_digit",
+        operation: "ADDITION",
+        difficulty: { min: 3, max: 6 },
+        generate(difficulty) {
+            // 3: 2d + 1d, 4: 2d + 2d, 5: 3d + 2d, 6: 3d + 3d
+            const a = randomDigits(difficulty < 5 ? 2 : 3);
+            const b = randomDigits(difficulty - (difficulty < 5 ? 2 : 3));
+            return { expression: expr(a, MathOperator.Add, b), answer: integer(a + b) };
+        }
+    },
+    {
+        idString: "multi_digit_subtraction",
+        family: "multi_digit",
+        skillId: "sub_multi_digit",
+        operation: "SUBTRACTION",
+        difficulty: { min: 3, max: 6 },
+        generate(difficulty) {
+            const a = randomDigits(difficulty < 5 ? 2 : 3);
+            const b = random(1, a);
+            return { expression: expr(a, MathOperator.Subtract, b), answer: integer(a - b) };
+        }
+    },
+    {
+        idString: "multi_digit_multiplication",
+        family: "multi_digit",
+        skillId: "mul_multi_digit",
+        operation: "MULTIPLICATION",
+        difficulty: { min: 4, max: 7 },
+        generate(difficulty) {
+            // 4-5: 2d × 1d, 6-7: 2d × 2d
+            const a = difficulty === 4 ? random(11, 19) : randomDigits(2);
+            const b = difficulty < 6 ? random(2, 9) : random(11, difficulty === 6 ? 19 : 99);
+            return { expression: expr(a, MathOperator.Multiply, b), answer: integer(a * b) };
+        }
+    },
+    {
+        idString: "multi_digit_division",
+        family: "multi_digit",
+        skillId: "div_multi_digit",
+        operation: "DIVISION",
+        difficulty: { min: 4, max: 7 },
+        generate(difficulty) {
+            const result = difficulty < 6 ? random(10, 30) : randomDigits(2);
+            const divisor = difficulty < 7 ? random(2, 9) : random(11, 19);
+            return { expression: expr(result * divisor, MathOperator.Divide, divisor), answer: integer(result) };
+        }
+    },
+
+    //
+    // Negative numbers
+    //
+    {
+        idString: "negative_addition",
+        family: "negative",
+        skillId: "add_negative",
+        operation: "ADDITION",
+        difficulty: { min: 3, max: 6 },
+        generate(difficulty) {
+            const max = difficulty * 5;
+            const a = random(-max, max);
+            const b = random(-max, -1);
+            return { expression: expr(a, MathOperator.Add, b), answer: integer(a + b) };
+        }
+    },
+    {
+        idString: "negative_subtraction",
+        family: "negative",
+        skillId: "sub_negative",
+        operation: "SUBTRACTION",
+        difficulty: { min: 3, max: 6 },
+        generate(difficulty) {
+            const max = difficulty * 5;
+            const a = random(-max, max);
+            const b = randomBoolean() ? random(-max, -1) : random(Math.max(a, 0) + 1, max + 1);
+            return { expression: expr(a, MathOperator.Subtract, b), answer: integer(a - b) };
+        }
+    },
+    {
+        idString: "negative_multiplication",
+        family: "negative",
+        skillId: "mul_negative",
+        operation: "MULTIPLICATION",
+        difficulty: { min: 4, max: 7 },
+        generate(difficulty) {
+            const max = difficulty < 6 ? 9 : 12;
+            const a = -random(1, max);
+            const b = random(1, max) * (randomBoolean() ? -1 : 1);
+            return randomBoolean()
+                ? { expression: expr(a, MathOperator.Multiply, b), answer: integer(a * b) }
+                : { expression: expr(b, MathOperator.Multiply, a), answer: integer(a * b) };
+        }
+    },
+
+    //
+    // Order of operations
+    //
+    {
+        idString: "order_of_operations",
+        family: "order_of_operations",
+        skillId: "order_of_operations",
+        operation: "ORDER_OF_OPERATIONS",
+        difficulty: { min: 4, max: 8 },
+        generate(difficulty) {
+            const max = difficulty < 6 ? 9 : 12;
+            const a = random(1, max * 2);
+            const b = random(2, max);
+            const c = random(2, max);
+
+            switch (random(0, difficulty < 6 ? 1 : 3)) {
+                case 0: return { expression: expr(a, MathOperator.Add, expr(b, MathOperator.Multiply, c)), answer: integer(a + b * c) };
+                case 1: return { expression: expr(expr(a, MathOperator.Add, b), MathOperator.Multiply, c), answer: integer((a + b) * c) };
+                case 2: return { expression: expr(expr(b, MathOperator.Multiply, c), MathOperator.Subtract, a), answer: integer(b * c - a) };
+                default: return { expression: expr(expr(b * c, MathOperator.Divide, c), MathOperator.Add, a), answer: integer(b + a) };
+            }
+        }
+    },
+
+    //
+    // Fractions
+    //
+    {
+        idString: "fraction_of_number",
+        family: "fractions",
+        skillId: "fraction_of_number",
+        operation: "FRACTIONS",
+        difficulty: { min: 4, max: 7 },
+        generate(difficulty) {
+            // Unit fractions first, then non-unit fractions with larger denominators
+            const denominator = random(2, difficulty < 6 ? 5 : 10);
+            const numerator = difficulty < 5 ? 1 : random(1, denominator - 1);
+            const whole = denominator * random(1, difficulty < 6 ? 10 : 12);
+            return { expression: expr(fraction(numerator, denominator), MathOperator.FractionOf, whole), answer: integer(whole / denominator * numerator) };
+        }
+    },
+
+    //
+    // Percentages
+    //
+    {
+        idString: "percent_of_number",
+        family: "percentages",
+        skillId: "percent_of_number",
+        operation: "PERCENTAGES",
+        difficulty: { min: 5, max: 8 },
+        generate(difficulty) {
+            const percent = pickRandomInArray(
+                difficulty < 6
+                    ? [10, 50]
+                    : difficulty < 7
+                        ? [10, 20, 25, 50, 75]
+                        : [5, 10, 15, 20, 25, 30, 40, 60, 75, 80]
+            );
+            // Choose a whole that divides cleanly into hundredths of the percentage
+            const step = 100 / gcd(percent, 100);
+            const whole = step * random(1, difficulty < 7 ? 10 : 20);
+            return { expression: expr(percent, MathOperator.PercentOf, whole), answer: integer(whole * percent / 100) };
+        }
+    },
+
+    //
+    // Missing operand, e.g. "7 × ? = 56"
+    //
+    {
+        idString: "missing_addend",
+        family: "missing_operand",
+        skillId: "missing_addend",
+        operation: "ADDITION",
+        difficulty: { min: 2, max: 4 },
+        generate(difficulty) {
+            const max = difficulty < 4 ? 9 : 50;
+            const a = random(1, max);
+            const b = random(1, max);
+            return randomBoolean()
+                ? { expression: expr(expr(a, MathOperator.Add, unknown), MathOperator.Equals, a + b), answer: integer(b) }
+                : { expression: expr(expr(unknown, MathOperator.Add, b), MathOperator.Equals, a + b), answer: integer(a) };
+        }
+    },
+    {
+        idString: "missing_subtrahend",
+        family: "missing_operand",
+        skillId: "missing_subtrahend",
+        operation: "SUBTRACTION",
+        difficulty: { min: 2, max: 4 },
+        generate(difficulty) {
+            const max = difficulty < 4 ? 9 : 50;
+            const [a, b] = [random(1, max), random(1, max)].sort((a, b) => b - a);
+            return { expression: expr(expr(a, MathOperator.Subtract, unknown), MathOperator.Equals, a - b), answer: integer(b) };
+        }
+    },
+    {
+        idString: "missing_factor",
+        family: "missing_operand",
+        skillId: "missing_factor",
+        operation: "MULTIPLICATION",
+        difficulty: { min: 2, max: 5 },
+        generate(difficulty) {
+            const max = difficulty < 4 ? 9 : 12;
+            const a = random(2, max);
+            const b = random(2, max);
+            return randomBoolean()
+                ? { expression: expr(expr(a, MathOperator.Multiply, unknown), MathOperator.Equals, a * b), answer: integer(b) }
+                : { expression: expr(expr(unknown, MathOperator.Multiply, b), MathOperator.Equals, a * b), answer: integer(a) };
+        }
+    },
+    {
+        idString: "missing_dividend",
+        family: "missing_operand",
+        skillId: "missing_dividend",
+        operation: "DIVISION",
+        difficulty: { min: 3, max: 5 },
+        generate(difficulty) {
+            const max = difficulty < 5 ? 9 : 12;
+            const result = random(2, max);
+            const divisor = random(2, max);
+            return { expression: expr(expr(unknown, MathOperator.Divide, divisor), MathOperator.Equals, result), answer: integer(result * divisor) };
+        }
+    },
+
+    //
+    // Word problems, set in the player's situation
+    //
+    {
+        idString: "word_ammo_total",
+        family: "word_problems",
+        skillId: "word_addition",
+        operation: "ADDITION",
+        difficulty: { min: 3, max: 3 },
+        fits: ({ gun }) => gun !== undefined && gun.loaded > 0 && gun.reserve > 0,
+        generate(_, { gun }) {
+            const { idString, ammoType, loaded, reserve } = required(gun);
+            return {
+                expression: expr(loaded, MathOperator.Add, reserve),
+                answer: integer(loaded + reserve),
+                words: words("ammo_total", [loaded, reserve], [idString, ammoType])
+            };
+        }
+    },
+    {
+        idString: "word_health_missing",
+        family: "word_problems",
+        skillId: "word_subtraction",
+        operation: "SUBTRACTION",
+        difficulty: { min: 3, max: 3 },
+        fits: ({ health, maxHealth }) => health < maxHealth,
+        generate(_, { health, maxHealth }) {
+            return {
+                expression: expr(maxHealth, MathOperator.Subtract, health),
+                answer: integer(maxHealth - health),
+                words: words("health_missing", [health, maxHealth])
+            };
+        }
+    },
+    {
+        idString: "word_gas_shrink",
+        family: "word_problems",
+        skillId: "word_subtraction",
+        operation: "SUBTRACTION",
+        difficulty: { min: 4, max: 4 },
+        fits: ({ gas }) => gas !== undefined && gas.newRadius < gas.oldRadius,
+        generate(_, { gas }) {
+            const { oldRadius, newRadius } = required(gas);
+            return {
+                expression: expr(oldRadius, MathOperator.Subtract, newRadius),
+                answer: integer(oldRadius - newRadius),
+                words: words("gas_shrink", [oldRadius, newRadius])
+            };
+        }
+    },
+    {
+        idString: "word_gas_damage",
+        family: "word_problems",
+        skillId: "word_multiplication",
+        operation: "MULTIPLICATION",
+        difficulty: { min: 3, max: 4 },
+        fits: ({ gas }) => gas !== undefined && gas.dps > 0 && Number.isInteger(gas.dps),
+        generate(difficulty, { gas }) {
+            const { dps } = required(gas);
+            const seconds = difficulty === 3 ? random(2, 10) : random(11, 30);
+            return {
+                expression: expr(dps, MathOperator.Multiply, seconds),
+                answer: integer(dps * seconds),
+                words: words("gas_damage", [dps, seconds])
+            };
+        }
+    },
+    {
+        idString: "word_magazines",
+        family: "word_problems",
+        skillId: "word_multiplication",
+        operation: "MULTIPLICATION",
+        difficulty: { min: 4, max: 5 },
+        fits: ({ gun }) => gun !== undefined,
+        generate(difficulty, { gun }) {
+            const { idString, capacity } = required(gun);
+            const magazines = difficulty === 4 ? random(2, 5) : random(6, 12);
+            return {
+                expression: expr(capacity, MathOperator.Multiply, magazines),
+                answer: integer(capacity * magazines),
+                words: words("magazines", [capacity, magazines], [idString])
+            };
+        }
+    },
+    {
+        idString: "word_full_reloads",
+        family: "word_problems",
+        skillId: "word_division",
+        operation: "DIVISION",
+        difficulty: { min: 5, max: 5 },
+        fits: ({ gun }) => gun !== undefined && gun.capacity > 1 && gun.reserve >= gun.capacity,
+        generate(_, { gun }) {
+            const { idString, ammoType, capacity, reserve } = required(gun);
+            // Rounds left over don't make a full reload, so they're taken off first
+            const leftOver = reserve % capacity;
+            return {
+                expression: expr(leftOver === 0 ? reserve : expr(reserve, MathOperator.Subtract, leftOver), MathOperator.Divide, capacity),
+                answer: integer(Math.floor(reserve / capacity)),
+                words: words("full_reloads", [reserve, capacity], [ammoType, idString])
+            };
+        }
+    }
+);
@@ -0,0 +1,460 @@
+/**
+ * Lifetime progress of verified students, kept in a local newline-delimited JSON ledger.
+ * The ledger is append-only, so every worker can write to it: each one keeps the progress it has read
+ * in memory, and folds in the entries the others wrote whenever a student joins. The ledger is compacted
+ * into one snapshot per student when the server starts, and the entries it replaces are archived next to it,
+ * where the learning report can still read them
+ */
+
+import { Numeric } from "@common/utils/math";
+import { randomUUID } from "node:crypto";
+import { closeSync, mkdirSync, openSync, readSync, renameSync, writeFileSync } from "node:fs";
+import { appendFile, open, type FileHandle } from "node:fs/promises";
+import { dirname, join, parse, resolve } from "node:path";
+import { Config } from "../utils/config";
+import { serverError } from "../utils/serverHelpers";
+import { INITIAL_RATING, type SkillMastery, type StudentMastery } from "./masteryTracker";
+import { factKey, type ReviewItem } from "./reviewQueue";
+
+export interface SkillProgress {
+    attempted: number
+    correct: number
+}
+
+export interface StudentProgress {
+    totalXP: number
+    /**
+     * Only first attempts count towards the number of problems attempted and solved,
+     * and towards per-skill accuracy, so that retries don't skew them
+     */
+    problemsAttempted: number
+    problemsCorrect: number
+    gamesPlayed: number
+    /**
+     * Points banked by practicing after dying, which are spent on a starter kit in the next match
+     */
+    practicePoints: number
+    readonly skills: Record<string, SkillProgress>
+    /**
+     * Facts queued for review, keyed by {@link factKey}
+     */
+    readonly reviews: Map<string, ReviewItem>
+    /**
+     * The latest estimate of how well the student knows each skill
+     */
+    readonly mastery: StudentMastery
+}
+
+/**
+ * How {@link StudentProgress} is written to the ledger
+ */
+export interface ProgressSnapshot extends Omit<StudentProgress, "reviews" | "mastery"> {
+    readonly reviews: readonly ReviewItem[]
+    readonly mastery: {
+        readonly overall: number
+        readonly skills: Readonly<Record<string, SkillMastery>>
+    }
+}
+
+/**
+ * A line in the ledger
+ */
+export type LedgerEntry =
+    | {
+        readonly type: "answer"
+        readonly studentId: string
+        readonly time: string
+        readonly skillId: string
+        readonly isCorrect: boolean
+        readonly attemptNumber: number
+        readonly xp: number
+    }
+    | {
+        readonly type: "game"
+        readonly studentId: string
+        readonly time: string
+    }
+    | {
+        readonly type: "review"
+        readonly studentId: string
+        readonly time: string
+        readonly item: ReviewItem
+    }
+    | {
+        /**
+         * A skill's estimate after an answer, along with the overall rating it moved
+         */
+        readonly type: "mastery"
+        readonly studentId: string
+        readonly time: string
+        readonly skillId: string
+        readonly skill: SkillMastery
+        readonly overall: number
+    }
+    | {
+        /**
+         * Points banked by practicing
+         */
+        readonly type: "practice"
+        readonly studentId: string
+        readonly time: string
+        readonly points: number
+    }
+    | {
+        /**
+         * Points spent on a starter kit
+         */
+        readonly type: "kit"
+        readonly studentId: string
+        readonly time: string
+        readonly points: number
+    }
+    | {
+        /**
+         * Everything folded from the entries before it, written when the ledger is compacted
+         */
+        readonly type: "snapshot"
+        readonly studentId: string
+        readonly time: string
+        readonly progress: ProgressSnapshot
+    };
+
+/**
+ * Entries are tagged with the worker that wrote them, so that workers don't fold in their own entries twice
+ */
+type WrittenEntry = LedgerEntry & { readonly writer?: string };
+
+/**
+ * How much of the ledger is read at a time, in bytes. Lines longer than this are read in a bigger buffer
+ */
+const READ_CHUNK_SIZE = 1 << 20;
+
+function emptyProgress(): StudentProgress {
+    return {
+        totalXP: 0,
+        problemsAttempted: 0,
+        problemsCorrect: 0,
+        gamesPlayed: 0,
+        practicePoints: 0,
+        skills: {},
+        reviews: new Map(),
+        mastery: { overall: INITIAL_RATING, skills: new Map() }
+    };
+}
+
+function toSnapshot({ reviews, mastery, skills, ...progress }: Readonly<StudentProgress>): ProgressSnapshot {
+    return {
+        ...progress,
+        skills,
+        reviews: [...reviews.values()],
+        mastery: { overall: mastery.overall, skills: Object.fromEntries(mastery.skills) }
+    };
+}
+
+function fromSnapshot({ reviews, mastery, skills, ...progress }: ProgressSnapshot): StudentProgress {
+    return {
+        ...progress,
+        skills: Object.fromEntries(Object.entries(skills).map(([skillId, skill]) => [skillId, { ...skill }])),
+        reviews: new Map(reviews.map(item => [factKey(item.fact), item])),
+        mastery: {
+            overall: mastery.overall,
+            skills: new Map(Object.entries(mastery.skills).map(([skillId, skill]) => [skillId, { ...skill }]))
+        }
+    };
+}
+
+export class ProgressLedger {
+    readonly path: string;
+
+    private readonly _students = new Map<string, StudentProgress>();
+
+    /**
+     * How much of the ledger has been folded into {@link ProgressLedger._students}, in bytes
+     */
+    private _offset = 0;
+
+    /**
+     * How many entries other than snapshots have been folded in, which compaction would replace
+     */
+    private _unsnapshotted = 0;
+
+    /**
+     * Tags the entries written by this process
+     */
+    private readonly _writer = randomUUID();
+
+    /**
+     * Entries waiting to be appended, which are written together
+     */
+    private readonly _writeQueue: string[] = [];
+    /**
+     * Settles once every entry recorded so far is on disk. Writes are chained, so that they happen in order
+     */
+    private _write = Promise.resolve();
+
+    /**
+     * The catch-up in progress, which loads share
+     */
+    private _reading?: Promise<void>;
+
+    constructor(path: string) {
+        this.path = resolve(path);
+
+        try {
+            mkdirSync(dirname(this.path), { recursive: true });
+        } catch (e) {
+            serverError(`Unable to create the folder for progress ledger ${this.path}. Details:`, e);
+        }
+    }
+
+    /**
+     * @returns The student's lifetime progress, as of the last time the ledger was read
+     */
+    get(studentId: string): Readonly<StudentProgress> {
+        return this._students.get(studentId) ?? emptyProgress();
+    }
+
+    /**
+     * Folds in the entries other workers wrote since the ledger was last read
+     * @returns The student's lifetime progress
+     */
+    async load(studentId: string): Promise<Readonly<StudentProgress>> {
+        await (this._reading ??= this._catchUp().finally(() => this._reading = undefined));
+        return this.get(studentId);
+    }
+
+    /**
+     * Settles once every entry recorded so far has been written
+     */
+    async flush(): Promise<void> {
+        await this._write;
+    }
+
+    /**
+     * Replaces the ledger with a snapshot of each student's progress, moving the entries it
+     * replaces to an archive next to it. Nothing else may be writing to the ledger in the meantime,
+     * so this is only done by the primary process, before any worker is started
+     * @returns The path of the archive, or `undefined` if there was nothing to compact
+     */
+    compact(): string | undefined {
+        let fd: number;
+        try {
+            fd = openSync(this.path, "a+");
+        } catch (e) {
+            serverError(`Unable to open progress ledger ${this.path}. Details:`, e);
+            return;
+        }
+
+        try {
+            let buffer = Buffer.alloc(READ_CHUNK_SIZE);
+            let bytesRead: number;
+            let filled: boolean;
+            do {
+                bytesRead = readSync(fd, buffer, 0, buffer.length, this._offset);
+                const folded = this._fold(buffer.subarray(0, bytesRead));
+                this._offset += folded;
+
+                filled = bytesRead === buffer.length;
+                // A line too long to fit is read again, with room for all of it
+                if (filled && folded === 0) buffer = Buffer.alloc(buffer.length * 2);
+            } while (filled);
+        } catch (e) {
+            serverError(`Unable to read progress ledger ${this.path}. Details:`, e);
+            return;
+        } finally {
+            closeSync(fd);
+        }
+
+        if (this._unsnapshotted === 0) return;
+
+        const time = new Date().toISOString();
+        const snapshots = [...this._students].map(
+            ([studentId, progress]) => `${JSON.stringify({ type: "snapshot", studentId, time, progress: toSnapshot(progress) } satisfies LedgerEntry)}\n`
+        ).join("");
+
+        const { dir, name, ext } = parse(this.path);
+        const archivePath = join(dir, `${name}.${time.replace(/[:.]/g, "-")}${ext}`);
+        const snapshotPath = `${this.path}.tmp`;
+        try {
+            writeFileSync(snapshotPath, snapshots);
+            renameSync(this.path, archivePath);
+            renameSync(snapshotPath, this.path);
+        } catch (e) {
+            serverError(`Unable to compact progress ledger ${this.path}. Details:`, e);
+            return;
+        }
+
+        this._offset = Buffer.byteLength(snapshots);
+        this._unsnapshotted = 0;
+        return archivePath;
+    }
+
+    recordGame(studentId: string): void {
+        this._append({ type: "game", studentId, time: new Date().toISOString() });
+    }
+
+    recordAnswer(studentId: string, skillId: string, isCorrect: boolean, attemptNumber: number, xp: number): void {
+        this._append({
+            type: "answer",
+            studentId,
+            time: new Date().toISOString(),
+            skillId,
+            isCorrect,
+            attemptNumber,
+            xp
+        });
+    }
+
+    recordReview(studentId: string, item: ReviewItem): void {
+        this._append({ type: "review", studentId, time: new Date().toISOString(), item });
+    }
+
+    recordMastery(studentId: string, skillId: string, { rating, attempts, correct }: Readonly<SkillMastery>, overall: number): void {
+        this._append({
+            type: "mastery",
+            studentId,
+            time: new Date().toISOString(),
+            skillId,
+            skill: { rating, attempts, correct },
+            overall
+        });
+    }
+
+    recordPractice(studentId: string, points: number): void {
+        this._append({ type: "practice", studentId, time: new Date().toISOString(), points });
+    }
+
+    recordKit(studentId: string, points: number): void {
+        this._append({ type: "kit", studentId, time: new Date().toISOString(), points });
+    }
+
+    private _append(entry: LedgerEntry): void {
+        // Entries are applied straight away, and skipped when the ledger is read back
+        this._apply(entry);
+
+        this._writeQueue.push(`${JSON.stringify({ ...entry, writer: this._writer } satisfies WrittenEntry)}\n`);
+        if (this._writeQueue.length === 1) {
+            this._write = this._write.then(() => this._appendQueued());
+        }
+    }
+
+    private async _appendQueued(): Promise<void> {
+        try {
+            // Each batch is appended in a single write, so that workers can share the ledger
+            await appendFile(this.path, this._writeQueue.splice(0).join(""));
+        } catch (e) {
+            serverError(`Unable to write to progress ledger ${this.path}. Details:`, e);
+        }
+    }
+
+    /**
+     * Folds in entries written since the ledger was last read
+     */
+    private async _catchUp(): Promise<void> {
+        let file: FileHandle;
+        try {
+            file = await open(this.path, "a+");
+        } catch (e) {
+            serverError(`Unable to open progress ledger ${this.path}. Details:`, e);
+            return;
+        }
+
+        try {
+            let buffer = Buffer.alloc(READ_CHUNK_SIZE);
+            let bytesRead: number;
+            let filled: boolean;
+            do {
+                ({ bytesRead } = await file.read(buffer, 0, buffer.length, this._offset));
+                const folded = this._fold(buffer.subarray(0, bytesRead));
+                this._offset += folded;
+
+                filled = bytesRead === buffer.length;
+                // A line too long to fit is read again, with room for all of it
+                if (filled && folded === 0) buffer = Buffer.alloc(buffer.length * 2);
+            } while (filled);
+        } catch (e) {
+            serverError(`Unable to read progress ledger ${this.path}. Details:`, e);
+        } finally {
+            await file.close();
+        }
+    }
+
+    /**
+     * Applies the complete lines in a chunk of the ledger
+     * @returns How many bytes were folded in
+     */
+    private _fold(chunk: Buffer): number {
+        // Another worker may be halfway through writing the last line; it's read once it's complete
+        const end = chunk.lastIndexOf("\n") + 1;
+
+        for (const line of chunk.toString("utf8", 0, end).split("\n")) {
+            if (!line) continue;
+
+            let entry: WrittenEntry;
+            try {
+                entry = JSON.parse(line) as WrittenEntry;
+            } catch {
+                // Most likely a line that was cut off by a crash
+                continue;
+            }
+
+            if (entry.writer === this._writer) continue;
+            if (entry.type !== "snapshot") this._unsnapshotted++;
+            this._apply(entry);
+        }
+
+        return end;
+    }
+
+    private _apply(entry: LedgerEntry): void {
+        if (entry.type === "snapshot") {
+            this._students.set(entry.studentId, fromSnapshot(entry.progress));
+            return;
+        }
+
+        let progress = this._students.get(entry.studentId);
+        if (progress === undefined) this._students.set(entry.studentId, progress = emptyProgress());
+
+        switch (entry.type) {
+            case "game":
+                progress.gamesPlayed++;
+                break;
+            case "answer": {
+                progress.totalXP += entry.xp;
+                if (entry.attemptNumber !== 1) break;
+
+                const skill = progress.skills[entry.skillId] ??= { attempted: 0, correct: 0 };
+                skill.attempted++;
+                progress.problemsAttempted++;
+                if (entry.isCorrect) {
+                    skill.correct++;
+                    progress.problemsCorrect++;
+                }
+                break;
+            }
+            case "mastery":
+                progress.mastery.skills.set(entry.skillId, { ...entry.skill });
+                progress.mastery.overall = entry.overall;
+                break;
+            case "practice":
+                progress.practicePoints += entry.points;
+                break;
+            case "kit":
+                // Two games may spend the same points if the student joins both at once, but that doesn't leave them owing points
+                progress.practicePoints = Numeric.max(progress.practicePoints - entry.points, 0);
+                break;
+            case "review": {
+                // Only the latest state of each fact matters
+                const key = factKey(entry.item.fact);
+                if (entry.item.box === 0) {
+                    progress.reviews.delete(key);
+                } else {
+                    progress.reviews.set(key, entry.item);
+                }
+                break;
+            }
+        }
+    }
+}
+
+export const progressLedger = new ProgressLedger(Config.math?.progressLedger?.path ?? "progress-ledger.ndjson");
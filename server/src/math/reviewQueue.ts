@@ -0,0 +1,138 @@
+import { type MathAnswer, type MathExpression, MathExpressions, type MathWordProblem } from "@common/utils/mathProblems";
+import { type MathOperation } from "./problemGenerators";
+
+/**
+ * A problem as generated, before it's adapted to a presentation
+ */
+export interface MathFact {
+    readonly expression: MathExpression
+    readonly answer: MathAnswer
+    /**
+     * Set for word problems. Words aren't kept for review, since the situation they describe will have moved on
+     */
+    readonly words?: MathWordProblem
+    readonly skillId: string
+    readonly operation: MathOperation
+    readonly difficulty: number
+}
+
+export interface ReviewItem {
+    readonly fact: MathFact
+    /**
+     * The Leitner box the fact is in, from 1. Facts move up a box each time they're answered
+     * correctly, and are reviewed less and less often the higher they go. A box of 0 means the
+     * fact has been learned, and has left the queue
+     */
+    readonly box: number
+    /**
+     * The value of `Date.now()` from which the fact is due for review
+     */
+    readonly due: number
+}
+
+/**
+ * Identifies a fact, so that the same fact missed twice is only queued once
+ */
+export function factKey(fact: MathFact): string {
+    return MathExpressions.format(fact.expression);
+}
+
+interface StudentReviews {
+    readonly items: Map<string, ReviewItem> // fact key -> item
+    /**
+     * Problems served since the last review
+     */
+    sinceReview: number
+}
+
+/**
+ * Brings missed facts back at growing intervals, using Leitner boxes
+ */
+export class ReviewQueue {
+    private readonly _students = new Map<string, StudentReviews>();
+
+    /**
+     * @param intervals How long a fact waits in each box before it's due again, in milliseconds. Facts
+     * answered correctly in the last box have been learned
+     * @param spacing How many other problems are served between two reviews, so that reviews are mixed
+     * into the problem stream rather than taking it over
+     */
+    constructor(
+        readonly intervals: readonly number[] = [60000, 300000, 1800000, 86400000, 259200000],
+        readonly spacing = 1
+    ) {}
+
+    private get(key: string): StudentReviews {
+        let student = this._students.get(key);
+        if (student === undefined) {
+            this._students.set(key, student = { items: new Map(), sinceReview: 0 });
+        }
+        return student;
+    }
+
+    /**
+     * Replaces a student's queue with one saved earlier
+     */
+    load(key: string, items: Iterable<ReviewItem>): void {
+        const student = this.get(key);
+        student.items.clear();
+        for (const item of items) {
+            student.items.set(factKey(item.fact), item);
+        }
+    }
+
+    delete(key: string): void {
+        this._students.delete(key);
+    }
+
+    /**
+     * Called whenever a problem is about to be served
+     * @returns The most overdue fact, if one is due and enough other problems have been served since the last review
+     */
+    next(key: string, now = Date.now()): MathFact | undefined {
+        const student = this.get(key);
+
+        let next: ReviewItem | undefined;
+        if (student.sinceReview >= this.spacing) {
+            for (const item of student.items.values()) {
+                if (item.due <= now && (next === undefined || item.due < next.due)) next = item;
+            }
+        }
+
+        if (next === undefined) {
+            student.sinceReview++;
+            return;
+        }
+
+        student.sinceReview = 0;
+        return next.fact;
+    }
+
+    /**
+     * Moves a fact between boxes after an answer. Only first attempts should be recorded,
+     * so that getting a problem right on the second try doesn't count as knowing it
+     * @returns The fact's new state, or `undefined` if it isn't and wasn't in the queue
+     */
+    record(key: string, fact: MathFact, isCorrect: boolean, now = Date.now()): ReviewItem | undefined {
+        // Reviews bring back the numbers on their own
+        const { expression, answer, skillId, operation, difficulty } = fact;
+        fact = { expression, answer, skillId, operation, difficulty };
+
+        const { items } = this.get(key);
+        const factId = factKey(fact);
+        const current = items.get(factId);
+
+        // Facts that are answered correctly the first time don't need reviewing
+        if (current === undefined && isCorrect) return;
+
+        const box = isCorrect ? (current?.box ?? 0) + 1 : 1;
+        if (box > this.intervals.length) {
+            items.delete(factId);
+            return { fact, box: 0, due: now };
+        }
+
+        const item: ReviewItem = { fact, box, due: now + this.intervals[box - 1] };
+        items.set(factId, item);
+        return item;
+    }
+}
@@ -0,0 +1,81 @@
+import { HealingItems } from "@common/definitions/items/healingItems";
+import { Throwables } from "@common/definitions/items/throwables";
+import { Numeric } from "@common/utils/math";
+import { DefinitionType } from "@common/utils/objectDefinitions";
+import { random, weightedRandom } from "@common/utils/random";
+import { MathRewardTables, type MathReward, type MathRewardTable } from "../data/mathRewardTables";
+import { GunItem } from "../inventory/gunItem";
+import { type Player } from "../objects/player";
+import { serverError } from "../utils/serverHelpers";
+
+export function resolveMathRewardTable(player: Player): MathRewardTable {
+    return MathRewardTables[player.game.modeName];
+}
+
+/**
+ * @returns How many more of an item the player's backpack can hold
+ */
+function roomFor(player: Player, item: string): number {
+    const { items, backpack } = player.inventory;
+    return (backpack.maxCapacity[item] ?? 0) - (items.hasItem(item) ? items.getItem(item) : 0);
+}
+
+function weightFor(player: Player, reward: MathReward, table: MathRewardTable): number {
+    const { equippedAmmo, lowHealth } = table.rules ?? {};
+    let weight = reward.weight;
+
+    const activeItem = player.activeItem;
+    if (equippedAmmo !== undefined && activeItem instanceof GunItem && activeItem.definition.ammoType === reward.item) {
+        weight *= equippedAmmo;
+    }
+
+    if (lowHealth !== undefined && player.health < player.maxHealth * lowHealth.threshold && HealingItems.hasString(reward.item)) {
+        weight *= lowHealth.multiplier;
+    }
+
+    return weight;
+}
+
+/**
+ * Picks the reward for solving a problem, from the table for the game's mode. Items the player
+ * has no room for are skipped, unless they have no room for anything
+ */
+export function pickReward(player: Player, difficulty: number): { readonly rewardType: string, readonly rewardCount: number } {
+    const table = resolveMathRewardTable(player);
+
+    const withRoom = table.rewards.filter(({ item }) => roomFor(player, item) > 0);
+    const candidates = withRoom.length ? withRoom : table.rewards;
+    const reward = weightedRandom(candidates, candidates.map(reward => weightFor(player, reward, table)));
+
+    const scaling = 1 + (reward.difficultyScaling ?? 0) * (difficulty - 1);
+    let rewardCount = Math.round(random(reward.min, reward.max) * scaling);
+    if (withRoom.length) rewardCount = Numeric.min(rewardCount, roomFor(player, reward.item));
+
+    return { rewardType: reward.item, rewardCount };
+}
+
+/**
+ * Gives a reward to a player, up to what their backpack can hold
+ * @returns The number of items given
+ */
+export function awardReward(player: Player, rewardType: string, rewardCount: number): number {
+    const { inventory } = player;
+    const count = Numeric.min(rewardCount, roomFor(player, rewardType));
+    if (count <= 0) return 0;
+
+    inventory.items.incrementItem(rewardType, count);
+    player.dirty.items = true;
+
+    // If it's a throwable, we need to ensure it's equipped if no other throwable is active
+    const throwableSlot = inventory.slotsByDefType[DefinitionType.Throwable]?.[0];
+    if (Throwables.hasString(rewardType) && throwableSlot !== undefined && !inventory.weapons[throwableSlot]) {
+        try {
+            inventory.useItem(rewardType);
+        } catch (e) {
+            // The throwable was still given, it just isn't equipped
+            serverError("Error equipping throwable. Details:", e);
+        }
+    }
+
+    return count;
+}
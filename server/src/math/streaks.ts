@@ -0,0 +1,151 @@
+import { type PerkDefinition, PerkIds, Perks } from "@common/definitions/items/perks";
+import { type Timeout } from "@common/utils/misc";
+import { type Player } from "../objects/player";
+import { Config } from "../utils/config";
+import { serverWarn } from "../utils/serverHelpers";
+
+export interface StreakTier {
+    /**
+     * The streak from which the tier applies
+     */
+    readonly streak: number
+    /**
+     * Multiplier applied to the XP and items earned by each correct answer
+     */
+    readonly multiplier: number
+}
+
+export interface StreakMilestone {
+    readonly streak: number
+    readonly perk: PerkDefinition
+    /**
+     * How long the perk lasts, in milliseconds
+     */
+    readonly duration: number
+}
+
+interface Streak {
+    count: number
+    /**
+     * The value of `Date.now()` when the player last answered
+     */
+    lastAnswer: number
+}
+
+/**
+ * Counts each player's consecutive correct answers. Streaks multiply the rewards for solving problems,
+ * and grant a perk for a little while at milestones. A wrong answer, or going too long without answering,
+ * breaks the streak
+ */
+export class StreakTracker {
+    private readonly _streaks = new Map<number, Streak>(); // player id -> streak
+
+    /**
+     * Milestone perks that haven't worn off yet, and when they do
+     */
+    private readonly _perks = new Map<number, Map<PerkDefinition, Timeout>>(); // player id -> perk -> timeout
+
+    /**
+     * @param tiers Multipliers for streaks of increasing length
+     * @param milestones Perks granted when a streak reaches a given length
+     * @param idleTimeout How long a player can go without answering before their streak breaks, in milliseconds
+     */
+    constructor(
+        readonly tiers: readonly StreakTier[] = [
+            { streak: 3, multiplier: 1.25 },
+            { streak: 5, multiplier: 1.5 },
+            { streak: 10, multiplier: 2 }
+        ],
+        readonly milestones: readonly StreakMilestone[] = [
+            { streak: 5, perk: Perks.fromString(PerkIds.AdvancedAthletics), duration: 15000 },
+            { streak: 10, perk: Perks.fromString(PerkIds.FieldMedic), duration: 30000 },
+            { streak: 25, perk: Perks.fromString(PerkIds.InfiniteAmmo), duration: 30000 }
+        ],
+        readonly idleTimeout = 60000
+    ) {}
+
+    /**
+     * @returns The player's current streak, which is 0 if it has been broken by going idle
+     */
+    current(player: Player, now = Date.now()): number {
+        const streak = this._streaks.get(player.id);
+        return streak === undefined || now - streak.lastAnswer > this.idleTimeout ? 0 : streak.count;
+    }
+
+    /**
+     * @returns The multiplier of the highest tier a streak has reached, or 1 if it hasn't reached any
+     */
+    multiplierFor(streak: number): number {
+        let multiplier = 1;
+        for (const tier of this.tiers) {
+            if (streak >= tier.streak && tier.multiplier > multiplier) multiplier = tier.multiplier;
+        }
+        return multiplier;
+    }
+
+    /**
+     * Extends or breaks a player's streak after an answer
+     * @returns The player's new streak, its multiplier, and the milestone it just reached, if any
+     */
+    record(player: Player, isCorrect: boolean, now = Date.now()): {
+        readonly streak: number
+        readonly multiplier: number
+        readonly milestone?: StreakMilestone
+    } {
+        const count = isCorrect ? this.current(player, now) + 1 : 0;
+        this._streaks.set(player.id, { count, lastAnswer: now });
+
+        return {
+            streak: count,
+            multiplier: this.multiplierFor(count),
+            milestone: this.milestones.find(({ streak }) => streak === count)
+        };
+    }
+
+    /**
+     * Gives a player a milestone's perk until it wears off. Reaching the milestone again while the perk is active
+     * extends it, but perks the player already had from somewhere else are left alone, so that they aren't taken away
+     */
+    grantPerk(player: Player, { perk, duration }: StreakMilestone): void {
+        let perks = this._perks.get(player.id);
+        if (perks === undefined) this._perks.set(player.id, perks = new Map<PerkDefinition, Timeout>());
+
+        const granted = perks.get(perk);
+        if (granted === undefined && player.hasPerk(perk)) return;
+
+        granted?.kill();
+        player.addPerk(perk);
+        perks.set(perk, player.game.addTimeout(() => {
+            perks.delete(perk);
+            player.removePerk(perk);
+        }, duration));
+    }
+
+    delete(player: Player): void {
+        this._streaks.delete(player.id);
+
+        for (const timeout of this._perks.get(player.id)?.values() ?? []) {
+            timeout.kill();
+        }
+        this._perks.delete(player.id);
+    }
+}
+
+/**
+ * @returns A tracker set up from the `math.streaks` config option, or `undefined` if streaks are disabled
+ */
+export function createStreakTracker(): StreakTracker | undefined {
+    const options = Config.math?.streaks;
+    if (options?.enabled === false) return;
+
+    const milestones = options?.milestones?.flatMap(({ streak, perk, duration }) => {
+        const definition = Perks.fromStringSafe(perk as PerkIds);
+        if (definition === undefined) {
+            serverWarn(`Unknown perk for streak milestone: ${perk}`);
+            return [];
+        }
+        return [{ streak, perk: definition, duration: duration * 1000 }];
+    });
+
+    return new StreakTracker(options?.tiers, milestones, options?.idleTimeout === undefined ? undefined : options.idleTimeout * 1000);
+}
@@ -1,185 +1,726 @@
-import { random } from "@common/utils/random";
-import { DefinitionType } from "@common/utils/objectDefinitions";
+import { MathStreakPacket } from "@common/packets/mathStreakPacket";
+import { TeamChallengeReward, TeamMathChallengePacket } from "@common/packets/teamMathChallengePacket";
+import { Numeric } from "@common/utils/math";
+import { AnswerType, type MathAnswer, MathAnswers, type MathExpression, MathExpressions, type MathHint, type MathOperand, type MathWordProblem } from "@common/utils/mathProblems";
+import { pickRandomInArray, random, randomBoolean } from "@common/utils/random";
+import { type Game } from "./game";
+import { gameContextOf, learnerOf, learningRecords } from "./learningRecords/learningRecordBackend";
+import { AnswerGuard, AnswerRejection } from "./math/answerGuard";
+import { claimAnswer, generateDistractors, shuffle } from "./math/distractors";
+import { hintFor, workedSolution } from "./math/hints";
+import { MasteryTracker } from "./math/masteryTracker";
+import { createPracticeBank } from "./math/practice";
+import { problemContextOf } from "./math/problemContext";
+import { type MathOperation, type ProblemGenerator, ProblemGenerators } from "./math/problemGenerators";
+import { progressLedger } from "./math/progressLedger";
+import { type MathFact, ReviewQueue } from "./math/reviewQueue";
+import { awardReward, pickReward } from "./math/rewards";
+import { createStreakTracker } from "./math/streaks";
+import { type Obstacle } from "./objects/obstacle";
 import { type Player } from "./objects/player";
-import { serverTimeBackAPI } from "./timeBack/timeBackAPI";
+import { type Team } from "./team";
+import { Config } from "./utils/config";
+import { serverWarn } from "./utils/serverHelpers";
+
+/**
+ * How a problem is answered: by typing the answer in, by picking it from a few choices,
+ * or by marking a worked answer as true or false
+ */
+export type MathPresentation = "typed" | "choice" | "trueFalse";
+
+/**
+ * A step of a math terminal's series of problems
+ */
+export interface TerminalStep {
+    readonly obstacle: Obstacle
+    /**
+     * Numbered from 1
+     */
+    readonly step: number
+    readonly steps: number
+    readonly minDifficulty: number
+}
+
+/**
+ * A set of problems shared by every member of a team, who split them between themselves.
+ * Once all of them are solved, the whole team is rewarded
+ */
+export interface TeamChallenge {
+    readonly challengeId: number
+    readonly team: Team
+    readonly reward: TeamChallengeReward
+    readonly problemCount: number
+    /**
+     * The IDs of the players who solved each of the problems solved so far
+     */
+    readonly solvedBy: number[]
+}
+
+const teamChallengeRewards: Record<"airdrop" | "heal", TeamChallengeReward> = {
+    airdrop: TeamChallengeReward.Airdrop,
+    heal: TeamChallengeReward.Heal
+};
 
 export interface MathProblem {
+    /**
+     * The problem as shown to the player. For true/false problems, this is the statement to be marked
+     */
+    readonly expression: MathExpression
+    /**
+     * Set for word problems, which are shown worded instead of as their expression
+     */
+    readonly words?: MathWordProblem
+    /**
+     * The expression rendered as plain text, for logs and learning records
+     */
     readonly problem: string
-    readonly answer: number
+    readonly answer: MathAnswer
+    readonly answerType: AnswerType
+    readonly choices?: readonly MathAnswer[]
+    /**
+     * The problem as generated, before it was adapted to its presentation. This is what's queued for review if it's missed
+     */
+    readonly fact: MathFact
+    readonly presentation: MathPresentation
+    /**
+     * Probability of answering correctly by picking at random
+     */
+    readonly guessRate: number
+    readonly skillId: string
+    readonly operation: MathOperation
+    readonly difficulty: number
     readonly rewardType: string
     readonly rewardCount: number
     readonly problemId: number
+    /**
+     * Set for problems given by a math terminal. These aren't rewarded with items: solving the last step
+     * activates the terminal instead
+     */
+    readonly terminal?: TerminalStep
+    /**
+     * Set for problems that are part of a team challenge. Like terminal problems, these aren't rewarded individually
+     */
+    readonly teamChallenge?: TeamChallenge
+    /**
+     * Set for problems given to players after they die. These aren't rewarded with items either:
+     * solving them banks points towards a starter kit for the next match instead
+     */
+    readonly practice: boolean
+    /**
+     * The value of `Date.now()` when the problem was sent to the player
+     */
+    readonly sentTime: number
+    /**
+     * Number of answers submitted for this problem so far, including the current one
+     */
+    attempts: number
+    /**
+     * Whether the player has been shown a hint for this problem, which reduces the XP it earns
+     */
+    hinted: boolean
 }
 
 export class MathProblemManager {
+    /**
+     * Range of expected success rates a problem must fall into to be picked by adaptive difficulty
+     */
+    static readonly targetSuccessRate = {
+        min: 0.65,
+        ideal: 0.75,
+        max: 0.85
+    };
+
+    /**
+     * Number of wrong answers offered alongside the right one in multiple-choice problems
+     */
+    static readonly distractorCount = 3;
+
     private readonly activeProblem = new Map<number, MathProblem>(); // player id -> problem
     private nextProblemId = 1;
 
-    // Define consumable items that can be rewarded
-    private readonly consumableItems = [
-        // Healing items
-        "gauze",
-        "medikit",
-        "cola",
-        "tablets",
-        // Ammo types
-        "12g",
-        "556mm",
-        "762mm",
-        "9mm",
-        // Throwables
-        "frag_grenade",
-        "smoke_grenade"
-    ];
-
-    generateProblem(player: Player): MathProblem {
-        // Generate single digit numbers
-        const num1 = random(1, 9);
-        const num2 = random(1, 9);
-        const operation = random(0, 3); // 0=+, 1=-, 2=*, 3=/
-
-        let problem: string;
-        let answer: number;
-
-        switch (operation) {
-            case 0: {// Addition
-                problem = `${num1} + ${num2}`;
-                answer = num1 + num2;
-                break;
-            }
-            case 1: {// Subtraction
-                // Ensure positive result
-                const [larger, smaller] = num1 >= num2 ? [num1, num2] : [num2, num1];
-                problem = `${larger} - ${smaller}`;
-                answer = larger - smaller;
-                break;
-            }
-            case 2: {// Multiplication
-                problem = `${num1} × ${num2}`;
-                answer = num1 * num2;
-                break;
-            }
-            case 3: {// Division
-                // Ensure clean division by using multiplication in reverse
-                const result = random(1, 9);
-                const divisor = random(1, 9);
-                const dividend = result * divisor;
-                problem = `${dividend} ÷ ${divisor}`;
-                answer = result;
-                break;
+    private readonly teamChallenges = new Map<number, TeamChallenge>(); // team id -> challenge
+    private nextChallengeId = 1;
+
+    private readonly generators: readonly ProblemGenerator[];
+
+    /**
+     * Per-student skill estimates, keyed by {@link MathProblemManager.masteryKey}. Verified students'
+     * estimates are saved to the progress ledger, and loaded again when they join
+     */
+    readonly mastery = new MasteryTracker();
+
+    /**
+     * Missed facts to bring back later, keyed by {@link MathProblemManager.masteryKey}
+     */
+    readonly reviews = new ReviewQueue(
+        Config.math?.reviewIntervals?.map(seconds => seconds * 1000),
+        Config.math?.reviewSpacing
+    );
+
+    readonly answerGuard = new AnswerGuard();
+
+    /**
+     * Consecutive correct answers, which multiply rewards. `undefined` if streaks are disabled
+     */
+    readonly streaks = createStreakTracker();
+
+    /**
+     * `undefined` if practice is disabled, in which case dead players aren't given problems
+     */
+    readonly practice = createPracticeBank();
+
+    /**
+     * @param families The problem generator families to pick problems from
+     * @param minDifficulty The easiest difficulty level any problem is picked at
+     */
+    constructor(families: readonly string[] = Config.math?.generators ?? ["basic"], readonly minDifficulty = 0) {
+        for (const family of families) {
+            if (!ProblemGenerators.families.includes(family)) {
+                serverWarn(`Unknown math problem generator family: ${family}`);
             }
-            default:
-                problem = `${num1} + ${num2}`;
-                answer = num1 + num2;
         }
 
-        // Select random reward
-        const rewardType = this.consumableItems[random(0, this.consumableItems.length - 1)];
-        const rewardCount = this.getRewardCount(rewardType);
+        this.generators = ProblemGenerators.forFamilies(families);
+        if (!this.generators.length) {
+            serverWarn("No math problem generators enabled, falling back to basic facts");
+            this.generators = ProblemGenerators.forFamilies(["basic"]);
+        }
+    }
+
+    generateProblem(
+        player: Player,
+        {
+            terminal,
+            teamChallenge,
+            practice = false
+        }: { readonly terminal?: TerminalStep, readonly teamChallenge?: TeamChallenge, readonly practice?: boolean } = {}
+    ): MathProblem {
+        const isRegular = terminal === undefined && teamChallenge === undefined && !practice;
+
+        // Missed facts that are due for review are mixed in with regular and practice problems
+        const fact = (isRegular || practice ? this.reviews.next(this.masteryKey(player)) : undefined)
+            ?? this.generateFact(player, Numeric.max(terminal?.minDifficulty ?? 0, this.minDifficulty));
+        const { skillId, operation, difficulty, words } = fact;
+
+        // A worked answer to a question can't be marked true or false, so word problems are picked from choices instead
+        let presentationFor = this.presentationFor(player);
+        if (words !== undefined && presentationFor === "trueFalse") presentationFor = "choice";
+        const { expression, answer, choices, presentation, guessRate } = this.present(fact.expression, fact.answer, presentationFor);
+
+        const { rewardType, rewardCount } = isRegular
+            ? pickReward(player, difficulty)
+            : { rewardType: "", rewardCount: 0 };
 
         const problemId = this.nextProblemId++;
 
         const mathProblem: MathProblem = {
-            problem,
+            expression,
+            words,
+            problem: MathExpressions.format(expression),
             answer,
+            answerType: choices === undefined ? answer.type : AnswerType.Choice,
+            choices,
+            fact,
+            presentation,
+            guessRate,
+            skillId,
+            operation,
+            difficulty,
             rewardType,
             rewardCount,
-            problemId
+            problemId,
+            terminal,
+            teamChallenge,
+            practice,
+            sentTime: Date.now(),
+            attempts: 0,
+            hinted: false
         };
 
         this.activeProblem.set(player.id, mathProblem);
+        this.answerGuard.startProblem(player);
         return mathProblem;
     }
 
-    async validateAnswer(player: Player, answer: number, problemId: number): Promise<{ isCorrect: boolean; xpEarned: number }> {
+    private generateFact(player: Player, minDifficulty: number): MathFact {
+        // Word problems are only set in situations they fit
+        const context = problemContextOf(player);
+        let generators = this.generators.filter(generator => generator.fits?.(context) ?? true);
+        if (!generators.length) generators = ProblemGenerators.forFamilies(["basic"]);
+
+        const { generator, difficulty } = Config.math?.adaptiveDifficulty === false
+            ? this.pickRandom(generators, minDifficulty)
+            : this.pickForMastery(generators, this.masteryKey(player), minDifficulty);
+        const { expression, answer, words } = generator.generate(difficulty, context);
+
+        return {
+            expression,
+            answer,
+            words,
+            skillId: generator.skillId,
+            operation: generator.operation,
+            difficulty
+        };
+    }
+
+    /**
+     * Students can be given their own presentation, for example to ease them into a harder skill
+     */
+    presentationFor(player: Player): MathPresentation {
+        return (player.studentId !== undefined ? Config.math?.studentPresentation?.[player.studentId] : undefined)
+            ?? Config.math?.presentation
+            ?? "typed";
+    }
+
+    /**
+     * Adapts a generated problem to a presentation. Distractors can only be made up for whole-number
+     * answers, so other problems are always typed
+     */
+    private present(expression: MathExpression, answer: MathAnswer, presentation: MathPresentation): {
+        readonly expression: MathExpression
+        readonly answer: MathAnswer
+        readonly choices?: readonly MathAnswer[]
+        readonly presentation: MathPresentation
+        readonly guessRate: number
+    } {
+        if (answer.type !== AnswerType.Integer) presentation = "typed";
+
+        switch (presentation) {
+            case "typed":
+                return { expression, answer, presentation, guessRate: 0 };
+            case "choice": {
+                const choices = shuffle([answer, ...generateDistractors(expression, answer, MathProblemManager.distractorCount)]);
+                return { expression, answer, choices, presentation, guessRate: 1 / choices.length };
+            }
+            case "trueFalse": {
+                const isTrue = randomBoolean();
+                const [claimed] = isTrue ? [answer] : generateDistractors(expression, answer, 1);
+                return {
+                    expression: claimAnswer(expression, MathAnswers.value(claimed) ?? NaN),
+                    answer: { type: AnswerType.Boolean, value: isTrue },
+                    presentation,
+                    guessRate: 0.5
+                };
+            }
+        }
+    }
+
+    /**
+     * @returns The easiest difficulty level a problem can be picked at, given the level asked for.
+     * If no generator goes that high, it's the highest level any of them go up to
+     */
+    private difficultyFloor(generators: readonly ProblemGenerator[], minDifficulty: number): number {
+        return Numeric.min(minDifficulty, Math.max(...generators.map(({ difficulty }) => difficulty.max)));
+    }
+
+    private pickRandom(generators: readonly ProblemGenerator[], minDifficulty = 0): { readonly generator: ProblemGenerator, readonly difficulty: number } {
+        const floor = this.difficultyFloor(generators, minDifficulty);
+        const generator = pickRandomInArray(generators.filter(({ difficulty }) => difficulty.max >= floor));
+        return { generator, difficulty: random(Numeric.max(generator.difficulty.min, floor), generator.difficulty.max) };
+    }
+
+    /**
+     * Picks a problem in the student's zone of proximal development: hard enough that it isn't
+     * a sure thing, easy enough that they're likely to get it right
+     */
+    private pickForMastery(
+        generators: readonly ProblemGenerator[],
+        key: string,
+        minDifficulty = 0
+    ): { readonly generator: ProblemGenerator, readonly difficulty: number } {
+        const floor = this.difficultyFloor(generators, minDifficulty);
+        const candidates = new Map<ProblemGenerator, number[]>();
+        let closest: { generator: ProblemGenerator, difficulty: number, distance: number } | undefined;
+
+        for (const generator of generators) {
+            for (let difficulty = Numeric.max(generator.difficulty.min, floor); difficulty <= generator.difficulty.max; difficulty++) {
+                const expected = this.mastery.expectedScore(key, generator.skillId, difficulty);
+
+                if (expected >= MathProblemManager.targetSuccessRate.min && expected <= MathProblemManager.targetSuccessRate.max) {
+                    let difficulties = candidates.get(generator);
+                    if (difficulties === undefined) candidates.set(generator, difficulties = []);
+                    difficulties.push(difficulty);
+                }
+
+                const distance = Math.abs(expected - MathProblemManager.targetSuccessRate.ideal);
+                if (closest === undefined || distance < closest.distance) {
+                    closest = { generator, difficulty, distance };
+                }
+            }
+        }
+
+        // Choosing the generator first keeps generators with wide difficulty ranges from crowding out the others
+        if (candidates.size) {
+            const [generator, difficulties] = pickRandomInArray([...candidates]);
+            return { generator, difficulty: pickRandomInArray(difficulties) };
+        }
+
+        // At least one generator reaches the difficulty floor, so there should always be a closest candidate
+        return closest ?? this.pickRandom(generators, minDifficulty);
+    }
+
+    /**
+     * Mastery is tracked per verified student where possible, and per player otherwise
+     */
+    masteryKey(player: Player): string {
+        return player.studentId ?? `player_${player.id}`;
+    }
+
+    /**
+     * XP is only awarded to verified students, since it's credited to their learning record
+     */
+    static calculateXP(
+        player: Player,
+        attemptNumber: number,
+        isCorrect: boolean,
+        hinted = false,
+        streakMultiplier = 1
+    ): { baseXP: number, multiplier: number, xp: number } {
+        const baseXP = 5; // Lower than FastMathGames since problems are simpler
+        let multiplier = 0;
+
+        if (player.studentId !== undefined && isCorrect) {
+            multiplier = attemptNumber === 1
+                ? 1.25 // 100% accuracy bonus
+                : 0.5; // Reduced XP for later attempts
+
+            if (hinted) multiplier *= Config.math?.hints?.xpMultiplier ?? 0.5;
+            multiplier *= streakMultiplier;
+        }
+
+        return { baseXP, multiplier, xp: Math.floor(baseXP * multiplier) };
+    }
+
+    /**
+     * @returns Whether the answer was correct and the XP it earned, or why it was refused without being checked.
+     * Wrong answers can come with a hint or, once the problem has been given up on, its worked solution
+     */
+    validateAnswer(player: Player, answer: MathAnswer, problemId: number): {
+        isCorrect: boolean
+        xpEarned: number
+        rejection?: AnswerRejection
+        hint?: MathHint
+        solution?: MathOperand[]
+        streak?: { readonly count: number, readonly multiplier: number, readonly expiresIn: number }
+    } {
+        const rejection = this.answerGuard.check(player);
+        if (rejection !== undefined) {
+            return { isCorrect: false, xpEarned: 0, rejection };
+        }
+
         const activeProblem = this.activeProblem.get(player.id);
 
         if (!activeProblem || activeProblem.problemId !== problemId) {
             return { isCorrect: false, xpEarned: 0 };
         }
 
-        const isCorrect = activeProblem.answer === answer;
-        let xpAwarded = 0;
+        // Choices are resolved to the answer they stand for, so that they're checked and recorded like any other answer
+        const given = answer.type === AnswerType.Choice ? activeProblem.choices?.[answer.index] : answer;
+        const isCorrect = given !== undefined && MathAnswers.equal(activeProblem.answer, given);
+        const attemptNumber = ++activeProblem.attempts;
+        const responseTime = Date.now() - activeProblem.sentTime;
 
-        if (isCorrect) {
-            // Award the player the consumable (existing loot system)
-            const rewardType = activeProblem.rewardType;
-            const currentAmount = player.inventory.items.getItem(rewardType);
-            player.inventory.items.setItem(rewardType, currentAmount + activeProblem.rewardCount);
-            player.dirty.items = true;
-
-            // If it's a throwable, we need to ensure it's equipped if no other throwable is active
-            if (rewardType === "frag_grenade" || rewardType === "smoke_grenade") {
-                try {
-                    const throwableSlot = player.inventory.slotsByDefType[DefinitionType.Throwable]?.[0];
-                    if (throwableSlot !== undefined && !player.inventory.weapons[throwableSlot]) {
-                        player.inventory.useItem(rewardType);
-                    }
-                } catch (e) {
-                    // Ignore errors with throwable equipment
-                    console.log("Error equipping throwable:", e);
-                }
+        this.answerGuard.recordAnswer(player, isCorrect);
+
+        // The streak this answer extended, or 0 if it broke it. Its multiplier applies to this answer's rewards
+        const streak = this.streaks?.record(player, isCorrect);
+        const streakMultiplier = streak?.multiplier ?? 1;
+        // Perks are no use to dead players
+        if (this.streaks !== undefined && streak?.milestone !== undefined && !activeProblem.practice) {
+            this.streaks.grantPerk(player, streak.milestone);
+
+            if (Config.math?.streaks?.killfeed) {
+                player.game.packets.push(MathStreakPacket.create({ playerId: player.id, streak: streak.streak }));
             }
+        }
 
-            // Submit to TimeBack and award XP
-            try {
-                xpAwarded = await serverTimeBackAPI.submitMathProblemResult(player, {
-                    problem: activeProblem.problem,
-                    correctAnswer: activeProblem.answer,
-                    userAnswer: answer,
-                    isCorrect: true,
-                    operation: this.getOperationType(activeProblem.problem),
-                    rewardType: activeProblem.rewardType,
-                    rewardCount: activeProblem.rewardCount
-                });
-
-                // Track XP locally
-                player.timeBackXP += xpAwarded;
-
-                // TODO: Send XP notification to client
-                console.log(`${player.name} earned ${xpAwarded} TimeBack XP (total: ${player.timeBackXP})`);
-            } catch (error) {
-                console.warn(`TimeBack submission failed for ${player.name}:`, error);
+        // Only the first answer to a problem counts towards mastery, so that retries don't drag a rating down
+        if (attemptNumber === 1) {
+            const skill = this.mastery.record(this.masteryKey(player), activeProblem.skillId, activeProblem.difficulty, isCorrect, activeProblem.guessRate);
+            if (player.studentId !== undefined) {
+                progressLedger.recordMastery(player.studentId, activeProblem.skillId, skill, this.mastery.get(player.studentId).overall);
             }
 
+            const review = this.reviews.record(this.masteryKey(player), activeProblem.fact, isCorrect);
+            if (review !== undefined && player.studentId !== undefined) {
+                progressLedger.recordReview(player.studentId, review);
+            }
+        }
+
+        // A wrong pick narrows down the remaining choices, so those problems aren't retried.
+        // Typed problems are given up on after a few misses, once the hint hasn't helped
+        const givenUp = !isCorrect && (activeProblem.presentation !== "typed" || attemptNumber >= (Config.math?.hints?.solutionAfter ?? 3));
+
+        let hint: MathHint | undefined;
+        let solution: MathOperand[] | undefined;
+        if (!isCorrect && Config.math?.hints?.enabled !== false) {
+            if (givenUp) {
+                solution = workedSolution(activeProblem.fact);
+            } else {
+                hint = hintFor(activeProblem.fact);
+                activeProblem.hinted = true;
+            }
+        }
+
+        if (givenUp) {
+            this.activeProblem.delete(player.id);
+            this.sendProblem(player, this.generateProblem(player, {
+                terminal: activeProblem.terminal,
+                teamChallenge: activeProblem.teamChallenge,
+                practice: activeProblem.practice
+            }));
+        }
+
+        if (isCorrect) {
             // Remove the problem and generate a new one
             this.activeProblem.delete(player.id);
 
-            // Send new problem immediately
-            const newProblem = this.generateProblem(player);
-            player.sendPacket(player.game.mathProblemPacket.create({
-                problem: newProblem.problem,
-                rewardType: newProblem.rewardType,
-                rewardCount: newProblem.rewardCount,
-                problemId: newProblem.problemId
-            }));
-        } else {
-            // Handle incorrect answer - still submit to TimeBack for analytics
-            try {
-                await serverTimeBackAPI.submitMathProblemResult(player, {
-                    problem: activeProblem.problem,
-                    correctAnswer: activeProblem.answer,
-                    userAnswer: answer,
-                    isCorrect: false,
-                    operation: this.getOperationType(activeProblem.problem),
-                    rewardType: activeProblem.rewardType,
-                    rewardCount: activeProblem.rewardCount
-                });
-            } catch (error) {
-                console.warn(`TimeBack submission failed for ${player.name}:`, error);
+            if (activeProblem.terminal !== undefined) {
+                this.advanceTerminal(player, activeProblem.terminal);
+            } else if (activeProblem.teamChallenge !== undefined) {
+                this.advanceTeamChallenge(player, activeProblem.teamChallenge);
+            } else if (activeProblem.practice) {
+                this.practice?.bank(player);
+                this.sendProblem(player, this.generateProblem(player, { practice: true }));
+            } else {
+                const awarded = awardReward(player, activeProblem.rewardType, Math.round(activeProblem.rewardCount * streakMultiplier));
+                player.learningSummary.recordItems(activeProblem.rewardType, awarded);
+
+                // Send new problem immediately
+                this.sendNextProblem(player);
             }
         }
 
-        return { isCorrect, xpEarned: xpAwarded };
+        const { baseXP, multiplier, xp: xpAwarded } = MathProblemManager.calculateXP(player, attemptNumber, isCorrect, activeProblem.hinted, streakMultiplier);
+
+        // Incorrect answers are recorded too, for analytics
+        learningRecords.recordMathProblem({
+            learner: learnerOf(player),
+            timestamp: new Date().toISOString(),
+            problem: activeProblem.problem,
+            correctAnswer: MathAnswers.toString(activeProblem.answer),
+            userAnswer: MathAnswers.toString(given ?? answer),
+            isCorrect,
+            operation: activeProblem.operation,
+            skillId: activeProblem.skillId,
+            difficulty: activeProblem.difficulty,
+            attemptNumber,
+            responseTime,
+            rewardType: activeProblem.rewardType,
+            rewardCount: activeProblem.rewardCount,
+            xp: xpAwarded,
+            baseXP,
+            multiplier,
+            context: gameContextOf(player)
+        });
+
+        player.learningSummary.recordAnswer(activeProblem.operation, isCorrect, attemptNumber, responseTime, xpAwarded);
+
+        if (player.studentId !== undefined) {
+            progressLedger.recordAnswer(player.studentId, activeProblem.skillId, isCorrect, attemptNumber, xpAwarded);
+
+            // Lifetime total, which includes XP earned in other games before this one started
+            player.timeBackXP = progressLedger.get(player.studentId).totalXP;
+        }
+
+        return {
+            isCorrect,
+            xpEarned: xpAwarded,
+            hint,
+            solution,
+            streak: streak === undefined || this.streaks === undefined
+                ? undefined
+                : {
+                    count: streak.streak,
+                    // What the next answer will earn, should it extend the streak
+                    multiplier: this.streaks.multiplierFor(streak.streak + 1),
+                    expiresIn: this.streaks.idleTimeout
+                }
+        };
     }
 
-    // Helper method to determine operation type from problem string
-    private getOperationType(problem: string): string {
-        if (problem.includes("+")) return "ADDITION";
-        if (problem.includes("-")) return "SUBTRACTION";
-        if (problem.includes("×")) return "MULTIPLICATION";
-        if (problem.includes("÷")) return "DIVISION";
-        return "UNKNOWN";
+    /**
+     * Starts a player on a math terminal's problems, in place of their current problem. Interacting again
+     * with a terminal they're already working on resends the step they're on
+     */
+    startTerminal(player: Player, obstacle: Obstacle): void {
+        const definition = obstacle.definition;
+        if (!definition.isActivatable || definition.mathTerminal === undefined) return;
+
+        const current = this.activeProblem.get(player.id);
+        if (current?.terminal?.obstacle === obstacle) {
+            this.sendProblem(player, current);
+            return;
+        }
+
+        const { steps, minDifficulty } = definition.mathTerminal;
+        this.sendProblem(player, this.generateProblem(player, { terminal: { obstacle, step: 1, steps, minDifficulty } }));
+    }
+
+    /**
+     * Gives the player the next step of a terminal, or activates the terminal once its last step is solved.
+     * If it was activated by someone else in the meantime, the player goes back to regular problems
+     */
+    private advanceTerminal(player: Player, terminal: TerminalStep): void {
+        const { obstacle, step, steps } = terminal;
+
+        if (obstacle.dead || obstacle.activated || player.dead) {
+            this.sendNextProblem(player);
+            return;
+        }
+
+        if (step < steps) {
+            this.sendProblem(player, this.generateProblem(player, { terminal: { ...terminal, step: step + 1 } }));
+            return;
+        }
+
+        // The player may have walked away while solving, so it's activated like a solved puzzle would be
+        obstacle.interact();
+        this.sendNextProblem(player);
+    }
+
+    /**
+     * Gives a challenge to every team with at least two living members, every so often for the rest of the game.
+     * Does nothing unless team challenges are enabled and the game is in a team mode
+     */
+    scheduleTeamChallenges(game: Game): void {
+        const options = Config.math?.teamChallenges;
+        if (options === undefined || !game.isTeamMode) return;
+
+        game.addTimeout(() => {
+            if (game.over) return;
+
+            for (const team of game.teams) {
+                this.startTeamChallenge(team);
+            }
+            this.scheduleTeamChallenges(game);
+        }, options.interval ?? 120000);
+    }
+
+    /**
+     * Starts a team on a challenge, unless they're already working on one. Teammates are moved onto its
+     * problems straight away, except for those busy with a terminal, who join in once they're done with it
+     */
+    startTeamChallenge(team: Team): void {
+        if (this.teamChallenges.has(team.id)) return;
+
+        const members = team.players.filter(({ dead }) => !dead);
+        if (members.length < 2) return;
+
+        const options = Config.math?.teamChallenges;
+        const rewards: ReadonlyArray<keyof typeof teamChallengeRewards> = options?.rewards ?? ["airdrop", "heal"];
+        const challenge: TeamChallenge = {
+            challengeId: this.nextChallengeId++,
+            team,
+            reward: teamChallengeRewards[pickRandomInArray(rewards)],
+            // The problem count is sent as a single byte
+            problemCount: Numeric.min(members.length * (options?.problemsPerMember ?? 3), 255),
+            solvedBy: []
+        };
+        this.teamChallenges.set(team.id, challenge);
+
+        for (const member of members) {
+            if (this.activeProblem.get(member.id)?.terminal !== undefined) continue;
+            this.sendProblem(member, this.generateProblem(member, { teamChallenge: challenge }));
+        }
+        this.sendTeamChallenge(challenge);
+    }
+
+    /**
+     * Counts a solved problem towards a team challenge, rewarding the team if it was the last one
+     */
+    private advanceTeamChallenge(player: Player, challenge: TeamChallenge): void {
+        // Problems left over from a challenge that's already been completed don't count twice
+        if (this.teamChallenges.get(challenge.team.id) !== challenge) {
+            this.sendNextProblem(player);
+            return;
+        }
+
+        challenge.solvedBy.push(player.id);
+
+        if (challenge.solvedBy.length >= challenge.problemCount) {
+            this.teamChallenges.delete(challenge.team.id);
+
+            // Teammates still working on the challenge's problems are given problems of their own
+            for (const member of challenge.team.players) {
+                if (this.activeProblem.get(member.id)?.teamChallenge !== challenge) continue;
+                this.sendProblem(member, this.generateProblem(member));
+            }
+
+            switch (challenge.reward) {
+                case TeamChallengeReward.Airdrop:
+                    player.game.summonAirdrop(player.position);
+                    break;
+                case TeamChallengeReward.Heal:
+                    for (const member of challenge.team.players) {
+                        if (member.dead || member.downed) continue;
+                        member.health = member.maxHealth;
+                    }
+                    break;
+            }
+        }
+
+        this.sendProblem(player, this.nextProblem(player));
+        this.sendTeamChallenge(challenge);
+    }
+
+    /**
+     * Teammates working on a team challenge's problems. Dead players' problems are up for grabs
+     */
+    private teamChallengeProblems(challenge: TeamChallenge): MathProblem[] {
+        return challenge.team.players
+            .filter(({ dead }) => !dead)
+            .map(({ id }) => this.activeProblem.get(id))
+            .filter((problem): problem is MathProblem => problem?.teamChallenge === challenge);
+    }
+
+    /**
+     * Picks the problem to give a player once they're done with the last one: one of their team's
+     * challenge problems if any haven't been taken yet, and a problem of their own otherwise
+     */
+    private nextProblem(player: Player): MathProblem {
+        const challenge = player.team !== undefined ? this.teamChallenges.get(player.team.id) : undefined;
+
+        if (
+            challenge !== undefined
+            && challenge.solvedBy.length + this.teamChallengeProblems(challenge).length < challenge.problemCount
+        ) {
+            return this.generateProblem(player, { teamChallenge: challenge });
+        }
+
+        return this.generateProblem(player);
+    }
+
+    private sendNextProblem(player: Player): void {
+        const problem = this.nextProblem(player);
+        this.sendProblem(player, problem);
+
+        // Teammates are shown who's working on what
+        if (problem.teamChallenge !== undefined) {
+            this.sendTeamChallenge(problem.teamChallenge);
+        }
+    }
+
+    private sendTeamChallenge(challenge: TeamChallenge): void {
+        const packet = TeamMathChallengePacket.create({
+            challengeId: challenge.challengeId,
+            reward: challenge.reward,
+            problemCount: challenge.problemCount,
+            solvedBy: challenge.solvedBy,
+            problemIds: this.teamChallengeProblems(challenge).map(({ problemId }) => problemId)
+        });
+
+        for (const member of challenge.team.players) {
+            member.sendPacket(packet);
+        }
+    }
+
+    /**
+     * Moves a player who just died onto practice problems, unless practice is disabled
+     */
+    startPractice(player: Player): void {
+        if (this.practice === undefined) return;
+        this.sendProblem(player, this.generateProblem(player, { practice: true }));
     }
 
     getCurrentProblem(player: Player): MathProblem | undefined {
@@ -188,53 +729,55 @@ export class MathProblemManager {
 
     removeProblem(player: Player): void {
         this.activeProblem.delete(player.id);
+        this.mastery.delete(this.masteryKey(player));
+        this.reviews.delete(this.masteryKey(player));
+        this.answerGuard.delete(player);
+        this.streaks?.delete(player);
     }
 
-    private getRewardCount(itemType: string): number {
-        switch (itemType) {
-            case "gauze":
-                return random(2, 5);
-            case "medikit":
-                return 1;
-            case "cola":
-                return 1;
-            case "tablets":
-                return 1;
-            case "12g":
-                return random(5, 15);
-            case "556mm":
-            case "762mm":
-            case "9mm":
-                return random(10, 30);
-            case "frag_grenade":
-            case "smoke_grenade":
-                return random(1, 2);
-            default:
-                return 1;
+    // Initialize problem for new player
+    initializeProblem(player: Player): void {
+        if (player.studentId === undefined) {
+            this.sendNextProblem(player);
+            return;
         }
+
+        // Verified students pick up where they left off, once their progress has been read
+        progressLedger.recordGame(player.studentId);
+        void progressLedger.load(player.studentId).then(progress => {
+            if (player.disconnected) return;
+
+            player.timeBackXP = progress.totalXP;
+            this.reviews.load(this.masteryKey(player), progress.reviews.values());
+            this.mastery.load(this.masteryKey(player), progress.mastery);
+
+            // Points banked by practicing in earlier matches are spent as soon as the student joins
+            void this.practice?.grantKit(player);
+
+            // They may have started on a terminal or a team challenge in the meantime
+            if (!this.activeProblem.has(player.id)) this.sendNextProblem(player);
+        });
     }
 
-    // Initialize problem for new player
-    initializeProblem(player: Player): void {
-        const problem = this.generateProblem(player);
+    private sendProblem(player: Player, problem: MathProblem): void {
         player.sendPacket(player.game.mathProblemPacket.create({
-            problem: problem.problem,
+            expression: problem.expression,
+            words: problem.words,
+            answerType: problem.answerType,
+            choices: problem.choices,
             rewardType: problem.rewardType,
             rewardCount: problem.rewardCount,
-            problemId: problem.problemId
+            problemId: problem.problemId,
+            terminal: problem.terminal === undefined
+                ? undefined
+                : { step: problem.terminal.step, steps: problem.terminal.steps },
+            practice: problem.practice && this.practice !== undefined
+                ? {
+                    banked: this.practice.banked(player),
+                    // Only verified students can bank points
+                    maxPoints: player.studentId === undefined ? 0 : this.practice.maxPoints
+                }
+                : undefined
         }));
     }
-
-    // Check if an item is a consumable that should only be obtainable through math problems
-    static isConsumable(itemId: string): boolean {
-        const consumables = [
-            // Healing items
-            "gauze", "medikit", "cola", "tablets", "vaccine_syringe",
-            // Ammo types
-            "12g", "556mm", "762mm", "9mm", "50cal", "338lap", "545mm", "firework_rocket",
-            // Throwables
-            "frag_grenade", "smoke_grenade", "confetti_grenade", "c4", "flare", "proj_seed"
-        ];
-        return consumables.includes(itemId);
-    }
 }
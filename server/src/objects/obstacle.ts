@@ -121,11 +121,11 @@ export class Obstacle extends BaseGameObject.derive(ObjectCategory.Obstacle) {
         this.collidable = !definition.noCollisions;
 
         if (definition.hasLoot) {
-            this.loot = getLootFromTable(this.game.modeName, definition.lootTable ?? definition.idString);
+            this.loot = getLootFromTable(this.game.modeName, definition.lootTable ?? definition.idString, this.game.consumableGating);
         }
 
         if (definition.spawnWithLoot) {
-            for (const item of getLootFromTable(this.game.modeName, definition.lootTable ?? definition.idString)) {
+            for (const item of getLootFromTable(this.game.modeName, definition.lootTable ?? definition.idString, this.game.consumableGating)) {
                 this.game.addLoot(
                     item.idString,
                     this.position,
@@ -286,7 +286,7 @@ export class Obstacle extends BaseGameObject.derive(ObjectCategory.Obstacle) {
 
             if (source instanceof BaseGameObject && source.isPlayer && source.hasPerk(PerkIds.LootBaron) && this.definition.hasLoot) {
                 const perkBonus = PerkData[PerkIds.LootBaron].lootBonus;
-                const lootTable = getLootFromTable(this.game.modeName, definition.lootTable ?? definition.idString);
+                const lootTable = getLootFromTable(this.game.modeName, definition.lootTable ?? definition.idString, this.game.consumableGating);
 
                 for (let i = 0; i < perkBonus; i++) {
                     for (const item of lootTable) {
@@ -421,6 +421,12 @@ export class Obstacle extends BaseGameObject.derive(ObjectCategory.Obstacle) {
 
         const definition = this.definition;
 
+        // Terminals are activated by solving their problems, rather than by the interaction itself
+        if (player !== undefined && definition.isActivatable && definition.mathTerminal !== undefined) {
+            this.game.mathProblemManager.startTerminal(player, this);
+            return;
+        }
+
         if (definition.isDoor) {
             // optional chaining not required but makes both eslint and tsc happy
             if (!(this.door?.isOpen && definition.openOnce)) {
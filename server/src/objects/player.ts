@@ -44,11 +44,11 @@ import { Inventory, type InventoryItem } from "../inventory/inventory";
 import { CountableInventoryItem, InventoryItemBase } from "../inventory/inventoryItem";
 import { MeleeItem } from "../inventory/meleeItem";
 import { ThrowableItem } from "../inventory/throwableItem";
+import { LearningSummaryTracker } from "../math/learningSummary";
 import { type Team } from "../team";
 import { Config } from "../utils/config";
 import { DeathMarker } from "./deathMarker";
 import { Emote } from "./emote";
-import { MathProblemManager } from "../mathProblemManager";
 import { Explosion } from "./explosion";
 import { BaseGameObject, type DamageParams, type GameObject } from "./gameObject";
 import { type Loot } from "./loot";
@@ -56,7 +56,8 @@ import { MapIndicator } from "./mapIndicator";
 import { Obstacle } from "./obstacle";
 import { Projectile } from "./projectile";
 import { type SyncedParticle } from "./syncedParticle";
-import { serverWarn } from "../utils/serverHelpers";
+import { isMathGated } from "../utils/lootHelpers";
+import { sendReport, serverWarn } from "../utils/serverHelpers";
 
 export interface PlayerSocketData {
     player?: Player
@@ -86,8 +87,13 @@ export class Player extends BaseGameObject.derive(ObjectCategory.Player) {
     // TimeBack authentication data
     authToken?: string;
     studentId?: string;
+    /**
+     * Lifetime XP for verified students, as recorded in the progress ledger
+     */
     timeBackXP = 0;
 
+    readonly learningSummary = new LearningSummaryTracker();
+
     halloweenThrowableSkin = false;
     activeBloodthirstEffect = false;
     activeDisguise?: ObstacleDefinition;
@@ -2140,60 +2146,14 @@ export class Player extends BaseGameObject.derive(ObjectCategory.Player) {
                     reportID: reportID
                 }));
 
-                // Send the report to the API server
-                if (Config.apiServer) {
-                    // SERVER HOSTERS assign your custom server an ID somewhere then pass it into the report body region: region
-                    const reportJson = {
-                        id: reportID,
-                        reporterName: this.name,
-                        suspectName: this.spectating.name,
-                        suspectIP: this.spectating.ip,
-                        reporterIP: this.ip
-                    };
-
-                    fetch(`${Config.apiServer.url}/reports`, {
-                        method: "POST",
-                        headers: { "Content-Type": "application/json", "api-key": Config.apiServer.apiKey },
-                        body: JSON.stringify(reportJson)
-                    }).then(response => response.json())
-                        .then(console.log)
-                        .catch((e: unknown) => console.error(e));
-                }
-
-                // Send the report to Discord
-                if (Config.apiServer?.reportWebhookUrl) {
-                    const reportData = {
-                        embeds: [
-                            {
-                                title: "Report Received",
-                                description: `Report ID: \`${reportID}\``,
-                                color: 16711680,
-                                fields: [
-                                    {
-                                        name: "Username",
-                                        value: `\`${this.spectating.name}\``
-                                    },
-                                    {
-                                        name: "Time reported",
-                                        value: this.game.now
-                                    },
-                                    {
-                                        name: "Reporter",
-                                        value: this.name
-                                    }
-                                ]
-                            }
-                        ]
-                    };
-
-                    fetch(Config.apiServer.reportWebhookUrl, {
-                        method: "POST",
-                        headers: { "Content-Type": "application/json" },
-                        body: JSON.stringify(reportData)
-                    }).catch(error => {
-                        console.error("Error: ", error);
-                    });
-                }
+                sendReport({
+                    id: reportID,
+                    reporterName: this.name,
+                    reporterIP: this.ip,
+                    suspectName: this.spectating.name,
+                    suspectIP: this.spectating.ip,
+                    time: this.game.now
+                });
             }
         }
 
@@ -2784,8 +2744,8 @@ export class Player extends BaseGameObject.derive(ObjectCategory.Player) {
             if (count > 0) {
                 if (def.noDrop || ("ephemeral" in def && def.ephemeral)) continue;
 
-                // Skip consumables - they can only be obtained through math problems
-                if (MathProblemManager.isConsumable(item)) continue;
+                // Skip consumables in gated games - they can only be obtained through math problems
+                if (this.game.consumableGating === "gated" && isMathGated(item)) continue;
 
                 if (def.defType === DefinitionType.Ammo && count !== Infinity) {
                     let left = count;
@@ -2860,6 +2820,9 @@ export class Player extends BaseGameObject.derive(ObjectCategory.Player) {
 
         if (!this.disconnected) {
             this.sendGameOverPacket();
+
+            // Gives the player something to do while they spectate
+            this.game.mathProblemManager.startPractice(this);
         }
 
         // Remove player from kill leader
@@ -2970,7 +2933,8 @@ export class Player extends BaseGameObject.derive(ObjectCategory.Player) {
             damageDone: player.damageDone,
             damageTaken: player.damageTaken,
             alive: !player.dead,
-            timeAlive: (player.game.now - player.joinTime) / 1000
+            timeAlive: (player.game.now - player.joinTime) / 1000,
+            learning: player.learningSummary.toSummary()
         }));
 
         const packet = GameOverPacket.create({
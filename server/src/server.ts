@@ -1,19 +1,23 @@
 import { GameConstants, TeamMode } from "@common/constants";
 import { Badges } from "@common/definitions/badges";
 import { Skins } from "@common/definitions/items/skins";
-import { CustomTeamMessage, PunishmentMessage } from "@common/typings";
+import { CustomTeamMessage, CustomTeamMessages, PunishmentMessage } from "@common/typings";
 import Cluster from "node:cluster";
 import { URLSearchParams } from "node:url";
 import os from "os";
 import { App, WebSocket } from "uWebSockets.js";
 import { version } from "../../package.json";
+import { Classroom } from "./classroom";
+import { type ClassroomLiveData, classroomLiveData, renderClassroomDashboard } from "./classroomDashboard";
 import { GameManager } from "./gameManager";
+import { progressLedger } from "./math/progressLedger";
 import { CustomTeam, CustomTeamPlayer, CustomTeamPlayerContainer } from "./team";
+import { tokenVerifier } from "./timeBack/tokenVerifier";
 import { Config } from "./utils/config";
 import { cleanUsername } from "./utils/misc";
-import { forbidden, getIP, getPunishment, parseRole, RateLimiter, serverError, serverLog, textDecoder, writeCorsHeaders } from "./utils/serverHelpers";
+import { forbidden, getIP, getPunishment, isTeacher, parseRole, RateLimiter, serverError, serverLog, textDecoder, writeCorsHeaders } from "./utils/serverHelpers";
 
-let customTeams: Map<string, CustomTeam> | undefined;
+let customTeams: Map<string, CustomTeam> | undefined; // includes classrooms, whose codes are longer
 let teamsCreated: RateLimiter | undefined;
 
 export function resetTeams(): void {
@@ -31,6 +35,10 @@ if (Cluster.isPrimary && require.main === module) {
 
     process.on("uncaughtException", e => serverError("An unhandled error occurred. Details:", e));
 
+    // Workers only ever append to the ledger, so it's compacted before any of them start
+    const ledgerArchive = progressLedger.compact();
+    if (ledgerArchive !== undefined) serverLog(`Compacted the progress ledger, and archived its entries to ${ledgerArchive}`);
+
     const gameManager = new GameManager();
 
     let exiting = false;
@@ -106,8 +114,9 @@ if (Cluster.isPrimary && require.main === module) {
         res.onAborted(() => aborted = true);
 
         let gameID: number | undefined;
-        const teamID = gameManager.teamMode.current !== TeamMode.Solo && new URLSearchParams(req.getQuery()).get("teamID");
-        if (teamID) {
+        const teamID = new URLSearchParams(req.getQuery()).get("teamID");
+        // Classrooms play in a game of their own, even in solos
+        if (teamID && (gameManager.teamMode.current !== TeamMode.Solo || customTeams?.get(teamID) instanceof Classroom)) {
             gameID = customTeams?.get(teamID)?.gameID;
         } else {
             gameID = await gameManager.findGame();
@@ -125,6 +134,70 @@ if (Cluster.isPrimary && require.main === module) {
         });
     });
 
+    /**
+     * @returns The latest status of a classroom's match, or `undefined` if it hasn't been created yet
+     */
+    const classroomStatus = (code: string): ClassroomLiveData | undefined => {
+        const status = gameManager.games.find(game => game?.classroom === code)?.classroomStatus;
+        return status === undefined ? undefined : classroomLiveData(status);
+    };
+
+    /**
+     * Only the teacher who leads a classroom can see how its students are doing
+     */
+    const canViewClassroom = (code: string, searchParams: URLSearchParams): boolean => {
+        const classroom = customTeams?.get(code);
+        return classroom instanceof Classroom && classroom.canViewDashboard(searchParams.get("key"));
+    };
+
+    app.get("/api/classroom/:code/live", (res, req) => {
+        const code = req.getParameter(0) ?? "";
+        if (!canViewClassroom(code, new URLSearchParams(req.getQuery()))) {
+            forbidden(res);
+            return;
+        }
+
+        const data = classroomStatus(code);
+        res.cork(() => {
+            writeCorsHeaders(res);
+            res.writeHeader("Content-Type", "application/json").end(JSON.stringify(
+                data !== undefined
+                    ? { success: true, ...data }
+                    : { success: false }
+            ));
+        });
+    });
+
+    app.get("/classroom/:code", (res, req) => {
+        const code = req.getParameter(0) ?? "";
+        if (!canViewClassroom(code, new URLSearchParams(req.getQuery()))) {
+            forbidden(res);
+            return;
+        }
+
+        const page = renderClassroomDashboard(code, classroomStatus(code));
+        res.cork(() => {
+            res.writeHeader("Content-Type", "text/html; charset=utf-8").end(page);
+        });
+    });
+
+    /**
+     * Whether a team that isn't a classroom has room for another player
+     */
+    const teamIsOpen = (team: CustomTeam): boolean => !team.locked && team.players.length < (gameManager.teamMode.current as number);
+
+    const joinTeam = (socket: WebSocket<CustomTeamPlayerContainer>, player: CustomTeamPlayer): void => {
+        // Other players may have joined, or the team may have been locked, since the player connected
+        const { team } = player;
+        if (!(team instanceof Classroom) && !teamIsOpen(team)) {
+            socket.end(1008, "forbidden");
+            return;
+        }
+
+        player.authenticated = true;
+        team.addPlayer(player);
+    };
+
     app.ws("/team", {
         async upgrade(res, req, context) {
             let aborted = false;
@@ -137,10 +210,17 @@ if (Cluster.isPrimary && require.main === module) {
             const webSocketKey = req.getHeader("sec-websocket-key");
             const webSocketProtocol = req.getHeader("sec-websocket-protocol");
             const webSocketExtensions = req.getHeader("sec-websocket-extensions");
+            const teamID = searchParams.get("teamID");
+            const { role = "", nameColor } = parseRole(searchParams);
+            const teacher = isTeacher(role);
+
+            // Classrooms can be played in any team mode, so teachers can create them and students can join them in solos
+            const classroom = teamID !== null ? customTeams?.get(teamID) : undefined;
+            const joiningClassroom = classroom instanceof Classroom;
 
             // Prevent connection if it's solos + check rate limits & punishments
             if (
-                gameManager.teamMode.current === TeamMode.Solo
+                (gameManager.teamMode.current === TeamMode.Solo && !joiningClassroom && !(teacher && teamID === null))
                 || teamsCreated?.isLimited(ip)
                 || await getPunishment(ip)
             ) {
@@ -151,25 +231,27 @@ if (Cluster.isPrimary && require.main === module) {
             if (aborted) return;
 
             // Get team
-            const teamID = searchParams.get("teamID");
             let team: CustomTeam;
-            if (teamID !== null) {
+            if (classroom instanceof Classroom) {
+                // Students are checked against the roster once they've authenticated
+                team = classroom;
+            } else if (teamID !== null) {
                 const givenTeam = customTeams?.get(teamID);
-                if (!givenTeam || givenTeam.locked || givenTeam.players.length >= (gameManager.teamMode.current as number)) {
+                if (!givenTeam || !teamIsOpen(givenTeam)) {
                     forbidden(res); // TODO "Team is locked" and "Team is full" messages
                     return;
                 }
                 team = givenTeam;
             } else {
-                team = new CustomTeam(gameManager);
+                // Teachers create classrooms instead of teams
+                team = teacher ? new Classroom(gameManager) : new CustomTeam(gameManager);
                 customTeams?.set(team.id, team);
             }
 
-            // Get name, skin, badge, & role
+            // Get name, skin, & badge
             const name = cleanUsername(searchParams.get("name"));
             let skin = searchParams.get("skin") ?? GameConstants.player.defaultSkin;
             let badge = searchParams.get("badge") ?? undefined;
-            const { role = "", nameColor } = parseRole(searchParams);
 
             // Validate skin
             const skinDefinition = Skins.fromStringSafe(skin);
@@ -197,13 +279,41 @@ if (Cluster.isPrimary && require.main === module) {
         open(socket: WebSocket<CustomTeamPlayerContainer>) {
             const { player } = socket.getUserData();
             player.socket = socket;
-            player.team.addPlayer(player);
+
+            // Students join a classroom once they've authenticated, so that they can be checked against its roster
+            if (player.team instanceof Classroom) return;
+
+            joinTeam(socket, player);
         },
 
         message(socket: WebSocket<CustomTeamPlayerContainer>, message: ArrayBuffer) {
             try {
                 const { player } = socket.getUserData();
-                void player.team.onMessage(player, JSON.parse(textDecoder.decode(message)) as CustomTeamMessage);
+                const data = JSON.parse(textDecoder.decode(message)) as CustomTeamMessage;
+
+                if (player.authenticated) {
+                    // Players who aren't joining a classroom are sent straight in, and don't need to authenticate
+                    if (data?.type !== CustomTeamMessages.Authenticate) void player.team.onMessage(player, data);
+                    return;
+                }
+
+                if (data?.type !== CustomTeamMessages.Authenticate) {
+                    socket.end(1008, "unauthenticated");
+                    return;
+                }
+
+                // The student ID is taken from a TimeBack token, since it has to be checked against a classroom's roster
+                const identity = typeof data.token === "string" && data.token ? tokenVerifier?.verify(data.token) : undefined;
+                player.studentId = identity && "res" in identity ? identity.res.studentId : undefined;
+
+                // Only the teacher who created a classroom joins it before anyone else, and they aren't on its roster
+                const { team } = player;
+                if (team instanceof Classroom && team.players.length && !team.canJoin(player.studentId)) {
+                    socket.end(1008, "forbidden"); // Not on the roster
+                    return;
+                }
+
+                joinTeam(socket, player);
             } catch (e) {
                 serverError("Error parsing team socket message. Details:", e);
             }
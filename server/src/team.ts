@@ -148,8 +148,8 @@ export class CustomTeam {
     gameID?: number;
     resetTimeout?: NodeJS.Timeout;
 
-    constructor(readonly gameManager: GameManager) {
-        this.id = Array.from({ length: 4 }, () => CustomTeam._idChars.charAt(random(0, CustomTeam._idCharMax))).join("");
+    constructor(readonly gameManager: GameManager, idLength = 4) {
+        this.id = Array.from({ length: idLength }, () => CustomTeam._idChars.charAt(random(0, CustomTeam._idCharMax))).join("");
     }
 
     addPlayer(player: CustomTeamPlayer): void {
@@ -225,8 +225,15 @@ export class CustomTeam {
         }
     }
 
-    private async _startGame(): Promise<void> {
-        const result = await this.gameManager.findGame();
+    /**
+     * @returns The ID of the game the team will play in
+     */
+    protected async _findGame(): Promise<number | undefined> {
+        return await this.gameManager.findGame();
+    }
+
+    protected async _startGame(): Promise<void> {
+        const result = await this._findGame();
         if (result === undefined) return;
 
         this.gameID = result;
@@ -240,7 +247,7 @@ export class CustomTeam {
         this._publishMessage({ type: CustomTeamMessages.Started });
     }
 
-    private _publishPlayerUpdate(): void {
+    protected _publishPlayerUpdate(): void {
         const players: CustomTeamPlayerInfo[] = [];
         for (let id = 0, len = this.players.length; id < len; id++) {
             const p = this.players[id];
@@ -266,7 +273,7 @@ export class CustomTeam {
         }
     }
 
-    private _publishMessage(message: CustomTeamMessage): void {
+    protected _publishMessage(message: CustomTeamMessage): void {
         for (const player of this.players) {
             player.sendMessage(message);
         }
@@ -279,6 +286,17 @@ export class CustomTeamPlayer {
     socket?: WebSocket<CustomTeamPlayerContainer>;
     ready = false;
 
+    /**
+     * Set once the player has joined their team. Students joining a classroom only join once they've
+     * authenticated, which has to be the first message they send; other players join as soon as they connect
+     */
+    authenticated = false;
+
+    /**
+     * Set for players who authenticated with a verified TimeBack token
+     */
+    studentId?: string;
+
     constructor(
         readonly ip: string,
         readonly team: CustomTeam,
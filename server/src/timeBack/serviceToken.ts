@@ -0,0 +1,65 @@
+/**
+ * Access tokens the server obtains for itself with the OAuth 2.0 client credentials grant,
+ * so that learning records can be sent without holding on to the students' own tokens
+ */
+
+import { type ConfigSchema } from "../utils/config.d";
+
+export type ServiceCredentials = NonNullable<NonNullable<ConfigSchema["timeBack"]>["credentials"]>;
+
+/**
+ * Tokens are renewed this long before they expire, in milliseconds, so that they don't expire in flight
+ */
+const EXPIRY_MARGIN = 60000;
+
+export class ServiceToken {
+    private _token?: { readonly value: string, readonly expiresAt: number };
+    private _pending?: Promise<string>;
+
+    constructor(readonly credentials: ServiceCredentials) {}
+
+    /**
+     * @returns A valid access token, requesting a new one if the last one is about to expire
+     * @throws If the token endpoint can't be reached or refuses the credentials
+     */
+    async get(): Promise<string> {
+        if (this._token !== undefined && Date.now() < this._token.expiresAt - EXPIRY_MARGIN) {
+            return this._token.value;
+        }
+
+        // Deliveries that need a token at the same time share a single request
+        this._pending ??= this.request().finally(() => this._pending = undefined);
+        return await this._pending;
+    }
+
+    /**
+     * Forgets the current token, for example because it was refused before it was due to expire
+     */
+    invalidate(): void {
+        this._token = undefined;
+    }
+
+    private async request(): Promise<string> {
+        const { tokenUrl, clientId, clientSecret, scope } = this.credentials;
+
+        const response = await fetch(tokenUrl, {
+            method: "POST",
+            headers: {
+                "Authorization": `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+                "Content-Type": "application/x-www-form-urlencoded"
+            },
+            body: new URLSearchParams({ grant_type: "client_credentials", ...(scope !== undefined ? { scope } : {}) })
+        });
+        if (!response.ok) {
+            throw new Error(`Token endpoint ${tokenUrl} refused the server's credentials: ${response.status} ${response.statusText}`);
+        }
+
+        const { access_token: value, expires_in: expiresIn } = await response.json() as { readonly access_token?: string, readonly expires_in?: number };
+        if (typeof value !== "string") {
+            throw new Error(`Token endpoint ${tokenUrl} didn't return an access token`);
+        }
+
+        this._token = { value, expiresAt: Date.now() + (expiresIn ?? 3600) * 1000 };
+        return value;
+    }
+}
@@ -0,0 +1,173 @@
+/**
+ * Verification of the OIDC access tokens players present when joining,
+ * so that results are only ever submitted for the student a token was issued to
+ */
+
+import { type Result } from "@common/utils/misc";
+import { createPublicKey, type JsonWebKey, type KeyObject, verify } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { Config } from "../utils/config";
+import { type ConfigSchema } from "../utils/config.d";
+import { serverError, serverLog } from "../utils/serverHelpers";
+
+export type TokenVerifierOptions = NonNullable<NonNullable<ConfigSchema["timeBack"]>["auth"]>;
+
+export interface VerifiedIdentity {
+    /**
+     * The token's subject, which is the student's OneRoster `sourcedId`
+     */
+    readonly studentId: string
+    /**
+     * When the token expires, in milliseconds since the epoch
+     */
+    readonly expiresAt: number
+}
+
+interface JWTHeader {
+    readonly alg?: string
+    readonly kid?: string
+}
+
+interface JWTPayload {
+    readonly sub?: string
+    readonly iss?: string
+    readonly aud?: string | string[]
+    readonly client_id?: string
+    readonly exp?: number
+    readonly nbf?: number
+}
+
+/**
+ * Maps JWS algorithms to the corresponding Node digest, and whether the signature uses the raw (r || s) ECDSA encoding
+ */
+const algorithms: Record<string, { readonly digest: string, readonly ecdsa: boolean } | undefined> = {
+    RS256: { digest: "sha256", ecdsa: false },
+    RS384: { digest: "sha384", ecdsa: false },
+    RS512: { digest: "sha512", ecdsa: false },
+    ES256: { digest: "sha256", ecdsa: true },
+    ES384: { digest: "sha384", ecdsa: true },
+    ES512: { digest: "sha512", ecdsa: true }
+};
+
+/**
+ * Don't refetch the key set for unknown key IDs more often than this, so that
+ * garbage tokens can't be used to hammer the issuer
+ */
+const MIN_REFETCH_INTERVAL = 60000;
+
+function decodeSegment<T>(segment: string): T | undefined {
+    try {
+        return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+    } catch {
+        return undefined;
+    }
+}
+
+export class TokenVerifier {
+    private _keys = new Map<string, KeyObject>();
+    private readonly _remote: boolean;
+    private _lastFetch = 0;
+
+    constructor(readonly options: TokenVerifierOptions) {
+        this._remote = /^https?:\/\//.test(options.jwks);
+
+        if (this._remote) {
+            void this.fetchKeys();
+            setInterval(() => void this.fetchKeys(), options.jwksRefreshInterval ?? 3600000);
+        } else {
+            try {
+                this._keys = TokenVerifier.parseKeySet(readFileSync(options.jwks, "utf8"));
+            } catch (e) {
+                serverError(`Unable to load JWKS from ${options.jwks}. Details:`, e);
+            }
+        }
+    }
+
+    private static parseKeySet(json: string): Map<string, KeyObject> {
+        const keys = new Map<string, KeyObject>();
+        const { keys: jwks } = JSON.parse(json) as { readonly keys?: ReadonlyArray<JsonWebKey & { readonly kid?: string }> };
+
+        for (const jwk of jwks ?? []) {
+            if (jwk.kid === undefined || (jwk.use !== undefined && jwk.use !== "sig")) continue;
+            keys.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" }));
+        }
+
+        return keys;
+    }
+
+    private async fetchKeys(): Promise<void> {
+        this._lastFetch = Date.now();
+        try {
+            const response = await fetch(this.options.jwks);
+            if (!response.ok) {
+                serverError(`Unable to fetch JWKS from ${this.options.jwks}: ${response.status} ${response.statusText}`);
+                return;
+            }
+
+            this._keys = TokenVerifier.parseKeySet(await response.text());
+            serverLog(`Loaded ${this._keys.size} TimeBack signing key(s)`);
+        } catch (e) {
+            serverError(`Unable to fetch JWKS from ${this.options.jwks}. Details:`, e);
+        }
+    }
+
+    /**
+     * Checks a token's signature, expiry, issuer, and audience
+     * @returns The identity the token was issued to, or the reason it was rejected
+     */
+    verify(token: string): Result<VerifiedIdentity, string> {
+        const segments = token.split(".");
+        if (segments.length !== 3) return { err: "malformed token" };
+        const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+        const header = decodeSegment<JWTHeader>(encodedHeader);
+        const payload = decodeSegment<JWTPayload>(encodedPayload);
+        if (header === undefined || payload === undefined) return { err: "malformed token" };
+
+        const algorithm = header.alg !== undefined ? algorithms[header.alg] : undefined;
+        if (algorithm === undefined) return { err: `unsupported algorithm ${header.alg}` };
+
+        const key = header.kid !== undefined ? this._keys.get(header.kid) : undefined;
+        if (key === undefined) {
+            // The issuer may have rotated its keys since they were last fetched
+            if (this._remote && Date.now() - this._lastFetch > MIN_REFETCH_INTERVAL) {
+                void this.fetchKeys();
+            }
+            return { err: `unknown key ${header.kid}` };
+        }
+
+        let signatureValid = false;
+        try {
+            signatureValid = verify(
+                algorithm.digest,
+                Buffer.from(`${encodedHeader}.${encodedPayload}`),
+                algorithm.ecdsa ? { key, dsaEncoding: "ieee-p1363" } : key,
+                Buffer.from(encodedSignature, "base64url")
+            );
+        } catch {
+            // thrown when the key's type doesn't match the algorithm
+        }
+        if (!signatureValid) return { err: "invalid signature" };
+
+        const now = Date.now() / 1000;
+        const tolerance = this.options.clockTolerance ?? 30;
+        if (payload.exp === undefined || now > payload.exp + tolerance) return { err: "token expired" };
+        if (payload.nbf !== undefined && now < payload.nbf - tolerance) return { err: "token not yet valid" };
+
+        if (this.options.issuer !== undefined && payload.iss !== this.options.issuer) {
+            return { err: `unexpected issuer ${payload.iss}` };
+        }
+
+        const { audience } = this.options;
+        const audienceValid = payload.aud !== undefined
+            ? (Array.isArray(payload.aud) ? payload.aud.includes(audience) : payload.aud === audience)
+            : payload.client_id === audience;
+        if (!audienceValid) return { err: "unexpected audience" };
+
+        if (!payload.sub) return { err: "missing subject" };
+
+        return { res: { studentId: payload.sub, expiresAt: payload.exp * 1000 } };
+    }
+}
+
+export const tokenVerifier = Config.timeBack?.auth ? new TokenVerifier(Config.timeBack.auth) : undefined;
@@ -200,6 +200,10 @@ export interface ConfigSchema {
     [k: string]: {
       password: string;
       isDev?: boolean;
+      /**
+       * If true, creating a team with this role creates a classroom lobby instead: a private match for the students on a roster, which the teacher sets up and starts.
+       */
+      isTeacher?: boolean;
       [k: string]: unknown;
     };
   };
@@ -211,4 +215,329 @@ export interface ConfigSchema {
    * If true, allows things like scopes and flares to work in buildings.
    */
   disableBuildingCheck?: boolean;
+  /**
+   * Options for the math problems given to players.
+   */
+  math?: {
+    /**
+     * List of problem generator families to enable. Defaults to ["basic"].
+     * Available families: "basic", "multi_digit", "negative", "order_of_operations", "fractions", "percentages", "missing_operand", and "word_problems".
+     * Word problems are set in the player's situation, e.g. how many full reloads their ammo makes, and are only given when it fits them.
+     *
+     * @minItems 1
+     */
+    generators?: [string, ...string[]];
+    /**
+     * If set to false, problems are picked at random instead of being matched to each student's estimated mastery. Defaults to true.
+     */
+    adaptiveDifficulty?: boolean;
+    /**
+     * How problems are answered. Defaults to "typed".
+     * typed: the answer is typed in.
+     * choice: the answer is picked from a few choices.
+     * trueFalse: a worked answer is shown, to be marked as true or false.
+     * Problems whose answer isn't a whole number are always typed.
+     */
+    presentation?: "typed" | "choice" | "trueFalse";
+    /**
+     * Overrides the presentation option for specific students, keyed by student ID.
+     */
+    studentPresentation?: {
+      [k: string]: "typed" | "choice" | "trueFalse";
+    };
+    /**
+     * How consumables (items marked as math-gated in their definitions, such as healing items and ammo) are obtained, for maps that don't set their own policy. Defaults to "gated".
+     * gated: consumables don't spawn on the ground and can't be dropped, so they can only be obtained by solving math problems.
+     * hybrid: fewer consumables spawn on the ground (see hybridLootRate), on top of those given for solving math problems.
+     * off: consumables spawn and drop as usual.
+     */
+    consumableGating?: "gated" | "hybrid" | "off";
+    /**
+     * Fraction of the consumables that still spawn on the ground when consumableGating is "hybrid". Defaults to 0.5.
+     */
+    hybridLootRate?: number;
+    /**
+     * Whether to generate the math terminals that maps define, along with the buildings and locked crates that hold them. Defaults to false.
+     */
+    terminals?: boolean;
+    /**
+     * Limits on how quickly players can answer, to stop answers from being brute-forced.
+     */
+    answerLimits?: {
+      /**
+       * The number of answers each player may submit within the given "duration". Defaults to 3.
+       */
+      count?: number;
+      /**
+       * The amount of time (in milliseconds) during which the given number of answers ("count") is allowed. Defaults to 1000.
+       */
+      duration?: number;
+      /**
+       * The number of wrong answers to one problem after which a player can't answer for a while. Only typed problems can be missed more than once, and they're replaced after "hints.solutionAfter" misses, so this should be no higher than that. Defaults to 3.
+       */
+      wrongAnswersBeforeLockout?: number;
+      /**
+       * How long (in milliseconds) the first lockout lasts. Each further lockout lasts twice as long as the one before it. Defaults to 5000.
+       */
+      lockoutDuration?: number;
+      /**
+       * The longest (in milliseconds) a lockout can last. Defaults to 60000.
+       */
+      maxLockoutDuration?: number;
+      /**
+       * Players are reported for answer spam once they've been locked out "lockouts" times, or have had "rateLimited" answers refused for answering too quickly, in a single game. Defaults to 3 lockouts and 30 refused answers.
+       */
+      reportAfter?: {
+        lockouts?: number;
+        rateLimited?: number;
+      };
+    };
+    /**
+     * Spaced repetition of missed facts: how long (in seconds) a fact waits in each Leitner box before it's reviewed again. Missed facts go into the first box, and move up a box each time they're answered correctly; a correct answer in the last box means the fact has been learned. Verified students' queues are kept in the progress ledger, so reviews carry over between games. Defaults to [60, 300, 1800, 86400, 259200].
+     *
+     * @minItems 1
+     */
+    reviewIntervals?: [number, ...number[]];
+    /**
+     * The number of other problems given between two reviews of missed facts. Defaults to 1.
+     */
+    reviewSpacing?: number;
+    /**
+     * Options for the help given to players who answer a problem wrong: a hint after the first miss, and a worked solution once they've missed it a few times.
+     */
+    hints?: {
+      /**
+       * Whether hints and worked solutions are given. Defaults to true.
+       */
+      enabled?: boolean;
+      /**
+       * The number of wrong answers to a typed problem after which its worked solution is shown, and it's replaced with a new problem. Problems answered by picking a choice are replaced, and their solution shown, after a single miss. Defaults to 3.
+       */
+      solutionAfter?: number;
+      /**
+       * Multiplier applied to the XP earned for problems solved after a hint was shown. Defaults to 0.5.
+       */
+      xpMultiplier?: number;
+    };
+    /**
+     * Options for answer streaks: consecutive correct answers, which multiply the XP and items earned for solving problems, and grant a perk for a little while at milestones. A wrong answer, or going too long without answering, breaks the streak.
+     */
+    streaks?: {
+      /**
+       * Whether streaks are counted. Defaults to true.
+       */
+      enabled?: boolean;
+      /**
+       * How long a player can go without answering before their streak breaks, in seconds. Defaults to 60.
+       */
+      idleTimeout?: number;
+      /**
+       * Multipliers for streaks of increasing length. The highest tier a streak has reached applies. Defaults to x1.25 from 3 in a row, x1.5 from 5 and x2 from 10.
+       */
+      tiers?: {
+        /**
+         * The streak from which the tier applies.
+         */
+        streak: number;
+        /**
+         * Multiplier applied to the XP and items earned by each correct answer.
+         */
+        multiplier: number;
+      }[];
+      /**
+       * Perks granted when a streak reaches a given length. Perks the player already has are left alone. Defaults to Advanced Athletics for 15 seconds at 5 in a row, Field Medic for 30 seconds at 10 and Infinite Ammo for 30 seconds at 25.
+       */
+      milestones?: {
+        streak: number;
+        /**
+         * The ID string of the perk, e.g. "advanced_athletics".
+         */
+        perk: string;
+        /**
+         * How long the perk lasts, in seconds.
+         */
+        duration: number;
+      }[];
+      /**
+       * Whether milestones are announced to everyone in the kill feed. Defaults to false.
+       */
+      killfeed?: boolean;
+    };
+    /**
+     * Options for practice: after dying, players keep being given problems while they spectate. Verified students bank points for each one they solve, which are spent on a starter kit of healing items and ammo when they join their next match. XP is earned as usual.
+     */
+    practice?: {
+      /**
+       * Whether dead players are given practice problems. Defaults to true.
+       */
+      enabled?: boolean;
+      /**
+       * Points banked for each practice problem solved. Defaults to 1.
+       */
+      pointsPerAnswer?: number;
+      /**
+       * Starter kits that banked points are spent on. The most expensive kit a student can afford is given to them, and they can't bank more points than the most expensive kit costs. Defaults to 2 gauze and 30 9mm rounds for 5 points, 3 gauze, a cola and 60 9mm rounds for 10, and a medikit, 3 gauze, a cola, 60 9mm rounds and 10 12 gauge shells for 20.
+       */
+      kits?: {
+        points: number;
+        /**
+         * The ID strings of the items in the kit, and how many of each, e.g. { "gauze": 2 }.
+         */
+        items: {
+          [k: string]: number;
+        };
+      }[];
+    };
+    /**
+     * Options for the ledger of each verified student's lifetime progress: XP, problems attempted, per-skill accuracy and games played. It's shared by every worker, and compacted into a snapshot of each student when the server starts; the entries it replaces are archived next to it, with the date added to their file name.
+     */
+    progressLedger?: {
+      /**
+       * Path of the ledger file, relative to the server folder. Defaults to "progress-ledger.ndjson".
+       */
+      path?: string;
+    };
+    /**
+     * Team challenges, given in team modes: a set of problems shared by a whole team, which teammates split between them. Once every problem is solved, the team gets a pooled reward. Disabled unless this option is set.
+     */
+    teamChallenges?: {
+      /**
+       * Time (in milliseconds) between rounds of team challenges, starting from the start of the game. Teams still working on a challenge aren't given another one. Defaults to 120000.
+       */
+      interval?: number;
+      /**
+       * How many problems a challenge has for each living member of the team. Defaults to 3.
+       */
+      problemsPerMember?: number;
+      /**
+       * The pooled rewards challenges can give, one of which is picked at random for each challenge. Defaults to all of them.
+       * airdrop: an airdrop is called in next to the player who solved the last problem.
+       * heal: every living team member is healed to full health.
+       *
+       * @minItems 1
+       */
+      rewards?: ["airdrop" | "heal", ...("airdrop" | "heal")[]];
+    };
+  };
+  /**
+   * Options for where learning records (answered problems and game session events) are sent.
+   */
+  learningRecords?: {
+    /**
+     * The backend learning records are sent to. Defaults to "timeBack".
+     * timeBack: results go to the OneRoster gradebook and events to Caliper, using each student's access token.
+     * xapi: records are sent as xAPI statements to the Learning Record Store configured through the xapi option.
+     * file: records are appended to a local newline-delimited JSON file, configured through the file option.
+     */
+    backend?: "timeBack" | "xapi" | "file";
+    /**
+     * Options for the xapi backend.
+     */
+    xapi?: {
+      /**
+       * The LRS's xAPI endpoint, e.g. "https://lrs.example.com/xapi". Statements are posted to its statements resource.
+       */
+      endpoint: string;
+      /**
+       * Username (or key) used to authenticate with the LRS through HTTP Basic authentication.
+       */
+      username?: string;
+      /**
+       * Password (or secret) used to authenticate with the LRS.
+       */
+      password?: string;
+      /**
+       * The home page of the system student IDs belong to, used to identify students in statements (the actor's account.homePage).
+       */
+      homePage: string;
+    };
+    /**
+     * Options for the file backend.
+     */
+    file?: {
+      /**
+       * Path of the file records are appended to, relative to the server folder. Defaults to "learning-records.ndjson".
+       */
+      path?: string;
+    };
+    /**
+     * Options for the outbox that records are queued in until the timeBack or xapi backend accepts them. Queued records survive restarts.
+     */
+    outbox?: {
+      /**
+       * Directory the outbox journals are kept in, relative to the server folder. Each game worker has its own journal. Defaults to "outbox".
+       */
+      directory?: string;
+      /**
+       * How often queued records are sent, in milliseconds. Defaults to 5000.
+       */
+      flushInterval?: number;
+      /**
+       * Number of failed deliveries after which a record is dropped. The delay between attempts doubles every time, up to 10 minutes. Defaults to 10.
+       */
+      maxAttempts?: number;
+      /**
+       * Maximum number of Caliper events or xAPI statements sent in a single request. Defaults to 50.
+       */
+      batchSize?: number;
+    };
+  };
+  /**
+   * Options for the TimeBack learning platform integration.
+   */
+  timeBack?: {
+    /**
+     * Which TimeBack environment the timeBack learning record backend sends records to. Defaults to "staging".
+     */
+    environment?: "staging" | "production";
+    /**
+     * Base URL of the TimeBack API that OneRoster assessment results are posted to, overriding the one for the environment. Useful for pointing the server at a local stand-in, such as the one in tests/src/mockTimeBack.ts.
+     */
+    apiUrl?: string;
+    /**
+     * Base URL of the Caliper endpoint that analytics events are posted to, overriding the one for the environment.
+     */
+    caliperUrl?: string;
+    /**
+     * OAuth 2.0 client credentials the server authenticates with when sending learning records to TimeBack. Students' access tokens are never written to disk, so without these, records still queued when a game worker stops can only be sent if the student joins again.
+     */
+    credentials?: {
+      /**
+       * The token endpoint the client credentials grant is requested from.
+       */
+      tokenUrl: string;
+      clientId: string;
+      clientSecret: string;
+      /**
+       * If specified, the scopes to request, separated by spaces.
+       */
+      scope?: string;
+    };
+    /**
+     * Options for verifying the OIDC access tokens players join with. Only players with a valid token have their results submitted to TimeBack; everyone else plays anonymously.
+     * If this option is omitted, all players are treated as anonymous.
+     */
+    auth?: {
+      /**
+       * Where to load the issuer's signing keys (JSON Web Key Set) from. Either a path to a local file, or an http(s) URL, in which case the keys are cached and refreshed periodically.
+       */
+      jwks: string;
+      /**
+       * If specified, tokens must have been issued by this issuer (the "iss" claim).
+       */
+      issuer?: string;
+      /**
+       * The client ID tokens must have been issued to. Matched against the "aud" claim, or the "client_id" claim for access tokens without an audience.
+       */
+      audience: string;
+      /**
+       * How much clock skew to allow when checking the "exp" and "nbf" claims, in seconds. Defaults to 30.
+       */
+      clockTolerance?: number;
+      /**
+       * How often to refresh keys loaded from a URL, in milliseconds. Defaults to 3600000 (one hour).
+       */
+      jwksRefreshInterval?: number;
+    };
+  };
 }
@@ -17,7 +17,7 @@ import { LootTables } from "../data/lootTables";
 import { MapDefinition } from "../data/maps";
 import { BuildingDefinition, Buildings } from "@common/definitions/buildings";
 import { ObstacleDefinition, Obstacles } from "@common/definitions/obstacles";
-import { MathProblemManager } from "../mathProblemManager";
+import { Config } from "./config";
 
 export type WeightedItem =
     (
@@ -44,6 +44,19 @@ export type FullLootTable = {
 
 export type LootTable = SimpleLootTable | FullLootTable;
 
+/**
+ * How consumables are obtained in a game. See the `math.consumableGating` config option
+ */
+export type ConsumableGating = "gated" | "hybrid" | "off";
+
+/**
+ * @returns Whether an item is part of the math-gated economy, according to its definition
+ */
+export function isMathGated(idString: string): boolean {
+    const definition = Loots.fromStringSafe(idString);
+    return definition !== undefined && "mathGated" in definition && definition.mathGated === true;
+}
+
 export class LootItem {
     constructor(
         public readonly idString: ReferenceTo<LootDefinition>,
@@ -51,7 +64,11 @@ export class LootItem {
     ) { }
 }
 
-export function getLootFromTable(modeName: ModeName, tableID: string): LootItem[] {
+/**
+ * @param gating How math-gated items are treated. Consumables are stripped from the loot in
+ * gated games, and thinned out in hybrid ones
+ */
+export function getLootFromTable(modeName: ModeName, tableID: string, gating: ConsumableGating = "off"): LootItem[] {
     const lootTable = resolveTable(modeName, tableID);
     if (lootTable === undefined) {
         throw new ReferenceError(`Unknown loot table: ${tableID}`);
@@ -80,8 +97,16 @@ export function getLootFromTable(modeName: ModeName, tableID: string): LootItem[
                 )
     ).flat();
 
-    // Filter out consumables - they can only be obtained through math problems
-    return generatedLoot.filter(item => !MathProblemManager.isConsumable(item.idString));
+    switch (gating) {
+        case "gated":
+            return generatedLoot.filter(item => !isMathGated(item.idString));
+        case "hybrid": {
+            const rate = Config.math?.hybridLootRate ?? 0.5;
+            return generatedLoot.filter(item => !isMathGated(item.idString) || Math.random() < rate);
+        }
+        case "off":
+            return generatedLoot;
+    }
 }
 
 export function resolveTable(modeName: ModeName, tableID: string): LootTable {
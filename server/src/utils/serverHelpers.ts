@@ -85,6 +85,93 @@ export async function getPunishment(ip: string): Promise<PunishmentMessage | und
     }
 }
 
+export interface Report {
+    readonly id: string
+    readonly reporterName: string
+    readonly reporterIP?: string
+    readonly suspectName: string
+    readonly suspectIP?: string
+    /**
+     * Why the player was reported. Only given for reports made by the server itself
+     */
+    readonly reason?: string
+    /**
+     * Game time at which the report was made
+     */
+    readonly time: number
+}
+
+/**
+ * Sends a report to the API server and the report webhook, whichever are configured
+ */
+export function sendReport(report: Report): void {
+    const { id, reporterName, reporterIP, suspectName, suspectIP, reason, time } = report;
+
+    // Send the report to the API server
+    if (Config.apiServer) {
+        // SERVER HOSTERS assign your custom server an ID somewhere then pass it into the report body region: region
+        const reportJson = {
+            id,
+            reporterName,
+            suspectName,
+            suspectIP,
+            reporterIP,
+            reason
+        };
+
+        fetch(`${Config.apiServer.url}/reports`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "api-key": Config.apiServer.apiKey },
+            body: JSON.stringify(reportJson)
+        }).then(response => response.json())
+            .then(console.log)
+            .catch((e: unknown) => console.error(e));
+    }
+
+    // Send the report to Discord
+    if (Config.apiServer?.reportWebhookUrl) {
+        const reportData = {
+            embeds: [
+                {
+                    title: "Report Received",
+                    description: `Report ID: \`${id}\``,
+                    color: 16711680,
+                    fields: [
+                        {
+                            name: "Username",
+                            value: `\`${suspectName}\``
+                        },
+                        {
+                            name: "Time reported",
+                            value: time
+                        },
+                        {
+                            name: "Reporter",
+                            value: reporterName
+                        },
+                        ...(reason !== undefined ? [{ name: "Reason", value: reason }] : [])
+                    ]
+                }
+            ]
+        };
+
+        fetch(Config.apiServer.reportWebhookUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(reportData)
+        }).catch(error => {
+            console.error("Error: ", error);
+        });
+    }
+}
+
+/**
+ * Teachers can create classroom lobbies, and join their classrooms' matches
+ */
+export function isTeacher(role: string | undefined): boolean {
+    return role !== undefined && Config.roles?.[role]?.isTeacher === true;
+}
+
 export function parseRole(searchParams: URLSearchParams): { readonly role?: string, readonly isDev: boolean, readonly nameColor?: number } {
     const password = searchParams.get("password");
     const givenRole = searchParams.get("role");
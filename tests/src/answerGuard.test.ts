@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from "@jest/globals";
+import { AnswerGuard, AnswerRejection } from "../../server/src/math/answerGuard";
+import { type Player } from "../../server/src/objects/player";
+
+beforeEach(() => {
+    jest.useFakeTimers({ now: 1000000 });
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+function createPlayer(id = 1): Player {
+    return { id, name: `player ${id}`, ip: undefined, game: { now: 0 } } as unknown as Player;
+}
+
+describe("answer rate limit", () => {
+    test("three answers are accepted per second, and the fourth is refused", () => {
+        const guard = new AnswerGuard();
+        const player = createPlayer();
+
+        for (let i = 0; i < 3; i++) expect(guard.check(player)).toBeUndefined();
+        expect(guard.check(player)).toBe(AnswerRejection.RateLimited);
+    });
+
+    test("each player has their own limit", () => {
+        const guard = new AnswerGuard();
+        const alice = createPlayer(1);
+        const bob = createPlayer(2);
+
+        for (let i = 0; i < 3; i++) guard.check(alice);
+
+        expect(guard.check(alice)).toBe(AnswerRejection.RateLimited);
+        expect(guard.check(bob)).toBeUndefined();
+    });
+
+    test("the window slides, so answers can't be bunched up around a boundary", () => {
+        const guard = new AnswerGuard();
+        const player = createPlayer();
+
+        jest.advanceTimersByTime(900);
+        for (let i = 0; i < 3; i++) expect(guard.check(player)).toBeUndefined();
+
+        // A fixed window would have reset here, allowing three more
+        jest.advanceTimersByTime(200);
+        expect(guard.check(player)).toBe(AnswerRejection.RateLimited);
+
+        // Once the first answers are more than a second old, there's room again
+        jest.advanceTimersByTime(800);
+        expect(guard.check(player)).toBeUndefined();
+    });
+
+    test("refused answers don't push back the window", () => {
+        const guard = new AnswerGuard();
+        const player = createPlayer();
+
+        for (let i = 0; i < 3; i++) guard.check(player);
+        for (let i = 0; i < 10; i++) {
+            jest.advanceTimersByTime(50);
+            guard.check(player);
+        }
+
+        jest.advanceTimersByTime(500);
+        expect(guard.check(player)).toBeUndefined();
+    });
+});
+
+describe("wrong answer lockouts", () => {
+    test("three wrong answers to one problem lock the player out for five seconds", () => {
+        const guard = new AnswerGuard();
+        const player = createPlayer();
+        guard.startProblem(player);
+
+        for (let i = 0; i < 2; i++) guard.recordAnswer(player, false);
+        expect(guard.lockoutRemaining(player)).toBe(0);
+
+        guard.recordAnswer(player, false);
+        expect(guard.lockoutRemaining(player)).toBe(5000);
+        expect(guard.check(player)).toBe(AnswerRejection.LockedOut);
+
+        jest.advanceTimersByTime(5000);
+        expect(guard.check(player)).toBeUndefined();
+    });
+
+    test("wrong answers to different problems don't add up", () => {
+        const guard = new AnswerGuard();
+        const player = createPlayer();
+
+        for (let problem = 0; problem < 3; problem++) {
+            guard.startProblem(player);
+            for (let i = 0; i < 2; i++) guard.recordAnswer(player, false);
+        }
+
+        expect(guard.lockoutRemaining(player)).toBe(0);
+    });
+
+    test("each lockout lasts twice as long as the last, up to a minute", () => {
+        const guard = new AnswerGuard();
+        const player = createPlayer();
+        const durations: number[] = [];
+
+        for (let lockout = 0; lockout < 6; lockout++) {
+            guard.startProblem(player);
+            for (let i = 0; i < 3; i++) guard.recordAnswer(player, false);
+            durations.push(guard.lockoutRemaining(player));
+            jest.advanceTimersByTime(durations[lockout]);
+        }
+
+        expect(durations).toEqual([5000, 10000, 20000, 40000, 60000, 60000]);
+    });
+
+    test("forgetting a player clears their lockout", () => {
+        const guard = new AnswerGuard();
+        const player = createPlayer();
+
+        for (let i = 0; i < 3; i++) guard.recordAnswer(player, false);
+        guard.delete(player);
+
+        expect(guard.lockoutRemaining(player)).toBe(0);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "@jest/globals";
+import { INITIAL_RATING, MasteryTracker, ratingForDifficulty } from "../../server/src/math/masteryTracker";
+
+describe("mastery tracker", () => {
+    test("students start at the initial rating on every skill", () => {
+        const tracker = new MasteryTracker();
+
+        expect(tracker.rating("alice", "addition")).toBe(INITIAL_RATING);
+        expect(tracker.get("alice").skills.size).toBe(0);
+    });
+
+    test("a student rated the same as a problem is expected to answer it half the time", () => {
+        const tracker = new MasteryTracker();
+        tracker.load("alice", { overall: ratingForDifficulty(3), skills: new Map() });
+
+        expect(tracker.expectedScore("alice", "addition", 3)).toBeCloseTo(0.5);
+        expect(tracker.expectedScore("alice", "addition", 3, 0.25)).toBeCloseTo(0.625);
+    });
+
+    test("a correct answer moves the skill by K times the surprise, and the overall rating by half that", () => {
+        const tracker = new MasteryTracker(32, 16);
+        tracker.load("alice", { overall: ratingForDifficulty(3), skills: new Map() });
+
+        const skill = tracker.record("alice", "addition", 3, true);
+
+        expect(skill).toEqual({ rating: ratingForDifficulty(3) + 16, attempts: 1, correct: 1 });
+        expect(tracker.get("alice").overall).toBe(ratingForDifficulty(3) + 8);
+    });
+
+    test("a wrong answer moves the rating down, and counts as an attempt only", () => {
+        const tracker = new MasteryTracker(32, 16);
+        tracker.load("alice", { overall: ratingForDifficulty(3), skills: new Map() });
+
+        const skill = tracker.record("alice", "addition", 3, false);
+
+        expect(skill).toEqual({ rating: ratingForDifficulty(3) - 16, attempts: 1, correct: 0 });
+        expect(tracker.get("alice").overall).toBe(ratingForDifficulty(3) - 8);
+    });
+
+    test("easy guesses move ratings less when right and more when wrong", () => {
+        const right = new MasteryTracker();
+        const wrong = new MasteryTracker();
+
+        const plainRight = right.record("alice", "addition", 3, true).rating - INITIAL_RATING;
+        const guessedRight = right.record("bob", "addition", 3, true, 0.5).rating - INITIAL_RATING;
+        expect(guessedRight).toBeLessThan(plainRight);
+
+        const plainWrong = INITIAL_RATING - wrong.record("alice", "addition", 3, false).rating;
+        const guessedWrong = INITIAL_RATING - wrong.record("bob", "addition", 3, false, 0.5).rating;
+        expect(guessedWrong).toBeGreaterThan(plainWrong);
+    });
+
+    test("untried skills start from the overall rating", () => {
+        const tracker = new MasteryTracker();
+
+        for (let i = 0; i < 5; i++) tracker.record("alice", "addition", 1, true);
+
+        const { overall } = tracker.get("alice");
+        expect(overall).toBeGreaterThan(INITIAL_RATING);
+        expect(tracker.rating("alice", "subtraction")).toBe(overall);
+    });
+
+    test("ratings never go below 0", () => {
+        const tracker = new MasteryTracker(10000, 10000);
+
+        expect(tracker.record("alice", "addition", 1, false).rating).toBe(0);
+        expect(tracker.get("alice").overall).toBe(0);
+    });
+
+    test("loaded estimates are copied, so the tracker doesn't change the saved ones", () => {
+        const tracker = new MasteryTracker();
+        const saved = { overall: 1200, skills: new Map([["addition", { rating: 1200, attempts: 3, correct: 2 }]]) };
+
+        tracker.load("alice", saved);
+        tracker.record("alice", "addition", 1, true);
+
+        expect(saved.skills.get("addition")).toEqual({ rating: 1200, attempts: 3, correct: 2 });
+        expect(tracker.get("alice").skills.get("addition")?.attempts).toBe(4);
+    });
+
+    test("deleting a student forgets their estimates", () => {
+        const tracker = new MasteryTracker();
+        tracker.record("alice", "addition", 1, true);
+        tracker.delete("alice");
+
+        expect(tracker.rating("alice", "addition")).toBe(INITIAL_RATING);
+    });
+});
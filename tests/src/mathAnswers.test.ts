@@ -0,0 +1,160 @@
+import { AnswerType, type MathAnswer, MathAnswers, MathExpressions, type MathOperand, MathOperator, OperandKind } from "@common/utils/mathProblems";
+import { SuroiByteStream } from "@common/utils/suroiByteStream";
+import { describe, expect, test } from "@jest/globals";
+
+function num(value: number): MathOperand {
+    return { kind: OperandKind.Number, value };
+}
+
+function expr(left: MathOperand, operator: MathOperator, right: MathOperand): MathOperand {
+    return { kind: OperandKind.Expression, operator, operands: [left, right] };
+}
+
+/**
+ * An expression nested the given amount of times, e.g. `((1 + 1) + 1) + 1` for 3
+ */
+function nested(depth: number): MathOperand {
+    let operand = num(1);
+    for (let i = 0; i < depth; i++) operand = expr(operand, MathOperator.Add, num(1));
+    return operand;
+}
+
+function stream(write: (stream: SuroiByteStream) => void): SuroiByteStream {
+    const buffer = new ArrayBuffer(1024);
+    const written = new SuroiByteStream(buffer);
+    write(written);
+    return new SuroiByteStream(buffer.slice(0, written.index));
+}
+
+describe("parsing answers", () => {
+    test.each([
+        ["12", { type: AnswerType.Integer, value: 12 }],
+        ["-7", { type: AnswerType.Integer, value: -7 }],
+        ["  42 ", { type: AnswerType.Integer, value: 42 }],
+        ["−3", { type: AnswerType.Integer, value: -3 }],
+        ["-2.5", { type: AnswerType.Decimal, value: -2.5 }],
+        [".5", { type: AnswerType.Decimal, value: 0.5 }],
+        ["3.", { type: AnswerType.Decimal, value: 3 }],
+        ["3/4", { type: AnswerType.Fraction, numerator: 3, denominator: 4 }],
+        ["3 / 4", { type: AnswerType.Fraction, numerator: 3, denominator: 4 }],
+        ["-3/4", { type: AnswerType.Fraction, numerator: -3, denominator: 4 }],
+        ["3/-4", { type: AnswerType.Fraction, numerator: -3, denominator: 4 }],
+        ["-3/-4", { type: AnswerType.Fraction, numerator: 3, denominator: 4 }]
+    ])("%p", (text, answer) => {
+        expect(MathAnswers.parse(text)).toEqual(answer);
+    });
+
+    test.each(["", "abc", "1/0", "1.2.3", "3/4.5", "1e5", "--1", "12 apples", "."])("%p isn't an answer", text => {
+        expect(MathAnswers.parse(text)).toBeUndefined();
+    });
+});
+
+describe("comparing answers", () => {
+    const integer = (value: number): MathAnswer => ({ type: AnswerType.Integer, value });
+    const decimal = (value: number): MathAnswer => ({ type: AnswerType.Decimal, value });
+    const fraction = (numerator: number, denominator: number): MathAnswer => ({ type: AnswerType.Fraction, numerator, denominator });
+
+    test.each([
+        ["3/4 and 0.75", fraction(3, 4), decimal(0.75)],
+        ["3/4 and 6/8", fraction(3, 4), fraction(6, 8)],
+        ["8/4 and 2", fraction(8, 4), integer(2)],
+        ["0.1 + 0.2 and 0.3", decimal(0.1 + 0.2), decimal(0.3)],
+        ["2 and 2.0", integer(2), decimal(2)]
+    ])("%s are equal", (_, a, b) => {
+        expect(MathAnswers.equal(a, b)).toBe(true);
+        expect(MathAnswers.equal(b, a)).toBe(true);
+    });
+
+    test.each([
+        ["1/3 and 0.33", fraction(1, 3), decimal(0.33)],
+        ["-2 and 2", integer(-2), integer(2)],
+        ["1000000 and 1000001", integer(1000000), integer(1000001)]
+    ])("%s aren't equal", (_, a, b) => {
+        expect(MathAnswers.equal(a, b)).toBe(false);
+    });
+
+    test("choices and true or false answers only match answers of their own type", () => {
+        const choice: MathAnswer = { type: AnswerType.Choice, index: 1 };
+        const statement: MathAnswer = { type: AnswerType.Boolean, value: true };
+
+        expect(MathAnswers.equal(choice, { type: AnswerType.Choice, index: 1 })).toBe(true);
+        expect(MathAnswers.equal(choice, { type: AnswerType.Choice, index: 2 })).toBe(false);
+        expect(MathAnswers.equal(choice, integer(1))).toBe(false);
+        expect(MathAnswers.equal(statement, { type: AnswerType.Boolean, value: true })).toBe(true);
+        expect(MathAnswers.equal(statement, { type: AnswerType.Boolean, value: false })).toBe(false);
+        expect(MathAnswers.equal(statement, integer(1))).toBe(false);
+        expect(MathAnswers.equal(choice, statement)).toBe(false);
+    });
+});
+
+describe("writing out answers", () => {
+    test.each(["12", "-7", "-2.5", "0.75", "3/4", "-3/4"])("%p is written out the way it was typed", text => {
+        const answer = MathAnswers.parse(text);
+        expect(answer).toBeDefined();
+        if (answer === undefined) return;
+
+        expect(MathAnswers.toString(answer)).toBe(text);
+        expect(MathAnswers.parse(MathAnswers.toString(answer))).toEqual(answer);
+    });
+
+    test("choices are numbered from 1", () => {
+        expect(MathAnswers.toString({ type: AnswerType.Choice, index: 0 })).toBe("#1");
+    });
+
+    test.each([
+        [expr(expr(num(3), MathOperator.Add, num(4)), MathOperator.Multiply, num(5)), "(3 + 4) × 5"],
+        [expr(num(3), MathOperator.Add, expr(num(4), MathOperator.Multiply, num(5))), "3 + 4 × 5"],
+        [expr(num(10), MathOperator.Subtract, expr(num(4), MathOperator.Subtract, num(1))), "10 - (4 - 1)"],
+        [expr(expr(num(10), MathOperator.Subtract, num(4)), MathOperator.Subtract, num(1)), "10 - 4 - 1"],
+        [expr(num(-3), MathOperator.Add, num(-4)), "-3 + (-4)"],
+        [expr(expr(num(7), MathOperator.Multiply, { kind: OperandKind.Unknown }), MathOperator.Equals, num(56)), "7 × ? = 56"],
+        [expr(num(25), MathOperator.PercentOf, num(80)), "25% of 80"],
+        [expr({ kind: OperandKind.Fraction, numerator: 3, denominator: 4 }, MathOperator.FractionOf, num(20)), "3/4 of 20"]
+    ])("expressions are written out with only the parentheses they need: %p", (operand, text) => {
+        expect(MathExpressions.format(operand)).toBe(text);
+    });
+});
+
+describe("sending answers and expressions", () => {
+    test.each([
+        { type: AnswerType.Integer, value: -123456 },
+        { type: AnswerType.Decimal, value: 0.1 },
+        { type: AnswerType.Fraction, numerator: -3, denominator: 4 },
+        { type: AnswerType.Choice, index: 3 },
+        { type: AnswerType.Boolean, value: true },
+        { type: AnswerType.Boolean, value: false }
+    ] as MathAnswer[])("answers are read back the same: %p", answer => {
+        const read = stream(s => s.writeMathAnswer(answer));
+
+        expect(read.readMathAnswer()).toEqual(answer);
+        expect(read.index).toBe(read.buffer.byteLength);
+    });
+
+    test("answers of unknown types are refused", () => {
+        expect(() => stream(s => s.writeUint8(99)).readMathAnswer()).toThrow("Unknown answer type 99");
+    });
+
+    test("expressions of every kind of operand are read back the same", () => {
+        const operand = expr(
+            expr({ kind: OperandKind.Fraction, numerator: -3, denominator: 4 }, MathOperator.FractionOf, num(20.5)),
+            MathOperator.Equals,
+            expr({ kind: OperandKind.Unknown }, MathOperator.Divide, num(-2))
+        );
+
+        expect(stream(s => s.writeMathOperand(operand)).readMathOperand()).toEqual(operand);
+    });
+
+    test("operands of unknown kinds are refused", () => {
+        expect(() => stream(s => s.writeUint8(99)).readMathOperand()).toThrow("Unknown operand kind 99");
+    });
+
+    test("expressions can be nested up to 16 times", () => {
+        const operand = nested(16);
+
+        expect(stream(s => s.writeMathOperand(operand)).readMathOperand()).toEqual(operand);
+    });
+
+    test("expressions nested more than 16 times are refused", () => {
+        expect(() => stream(s => s.writeMathOperand(nested(17))).readMathOperand()).toThrow("Math expression is nested too deeply");
+    });
+});
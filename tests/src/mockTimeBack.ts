@@ -0,0 +1,406 @@
+/**
+ * Local stand-in for the TimeBack services: the OneRoster gradebook, the Caliper events endpoint,
+ * and an OIDC issuer that signs in a test student without asking for credentials.
+ * Every request it receives is recorded, so that tests can assert on the exact payloads sent.
+ *
+ * Run it on its own with `pnpm mockTimeBack`, or start it from a test:
+ * ```ts
+ * const timeBack = new MockTimeBack();
+ * await timeBack.start();
+ * // ...point the server at timeBack.url and play...
+ * expect(timeBack.assessmentResults).toHaveLength(1);
+ * await timeBack.stop();
+ * ```
+ */
+
+import { generateKeyPairSync, type KeyObject, randomUUID, sign } from "node:crypto";
+import { createServer, type IncomingHttpHeaders, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { type AddressInfo } from "node:net";
+
+export interface MockStudent {
+    readonly sourcedId: string
+    readonly givenName: string
+    readonly familyName: string
+    readonly email: string
+}
+
+export interface MockTimeBackOptions {
+    /**
+     * Defaults to 0, which picks a free port
+     */
+    readonly port?: number
+    readonly host?: string
+    /**
+     * The client ID tokens are issued to. Defaults to `"suroi-local"`
+     */
+    readonly clientId?: string
+    /**
+     * Students that can sign in. The first one is signed in unless the authorization request
+     * names another one through its `login_hint`
+     */
+    readonly students?: readonly MockStudent[]
+}
+
+export interface RecordedRequest {
+    readonly method: string
+    readonly path: string
+    readonly query: Readonly<Record<string, string>>
+    readonly headers: IncomingHttpHeaders
+    /**
+     * Parsed from JSON or form encoding where possible, otherwise the raw text. `undefined` if there was no body
+     */
+    readonly body: unknown
+    readonly time: number
+    /**
+     * The status the mock responded with
+     */
+    status: number
+}
+
+interface Failure {
+    readonly status: number
+    remaining: number
+}
+
+export const ASSESSMENT_RESULTS_PATH = "/ims/oneroster/gradebook/v1p2/assessmentResults";
+export const CALIPER_EVENTS_PATH = "/events";
+
+const defaultStudents: readonly MockStudent[] = [
+    { sourcedId: "mock-student-1", givenName: "Test", familyName: "Student", email: "student1@example.com" },
+    { sourcedId: "mock-student-2", givenName: "Other", familyName: "Student", email: "student2@example.com" }
+];
+
+function base64url(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function parseBody(text: string, contentType = ""): unknown {
+    if (!text) return undefined;
+
+    try {
+        if (contentType.includes("application/json")) return JSON.parse(text) as unknown;
+        if (contentType.includes("application/x-www-form-urlencoded")) return Object.fromEntries(new URLSearchParams(text));
+    } catch {
+        // Recorded as is, so that tests can see what was wrong with it
+    }
+    return text;
+}
+
+export class MockTimeBack {
+    /**
+     * Every request received so far, oldest first
+     */
+    readonly requests: RecordedRequest[] = [];
+
+    readonly clientId: string;
+    readonly students: readonly MockStudent[];
+
+    readonly keyId = randomUUID();
+    private readonly _privateKey: KeyObject;
+    private readonly _publicKey: KeyObject;
+
+    private readonly _server: Server;
+    private readonly _failures = new Map<string, Failure>(); // path -> failure
+    private readonly _codes = new Map<string, { readonly student: MockStudent, readonly nonce?: string }>(); // authorization code -> sign in
+
+    private _url?: string;
+
+    constructor(readonly options: MockTimeBackOptions = {}) {
+        this.clientId = options.clientId ?? "suroi-local";
+        this.students = options.students ?? defaultStudents;
+
+        ({ privateKey: this._privateKey, publicKey: this._publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 }));
+
+        this._server = createServer((req, res) => {
+            let text = "";
+            req.setEncoding("utf8");
+            req.on("data", (chunk: string) => text += chunk);
+            req.on("end", () => this._handle(req, res, text));
+        });
+    }
+
+    /**
+     * The base URL of every endpoint, e.g. `http://127.0.0.1:8100`. It's also the issuer of the tokens it signs
+     */
+    get url(): string {
+        if (this._url === undefined) throw new Error("Mock TimeBack server hasn't been started");
+        return this._url;
+    }
+
+    async start(): Promise<string> {
+        const host = this.options.host ?? "127.0.0.1";
+        await new Promise<void>((resolve, reject) => {
+            this._server.once("error", reject);
+            this._server.listen(this.options.port ?? 0, host, resolve);
+        });
+
+        return this._url = `http://${host}:${(this._server.address() as AddressInfo).port}`;
+    }
+
+    async stop(): Promise<void> {
+        this._server.closeAllConnections();
+        await new Promise<void>(resolve => this._server.close(() => resolve()));
+    }
+
+    private _accepted(path: string): RecordedRequest[] {
+        return this.requests.filter(request => request.method === "POST" && request.path === path && request.status < 400);
+    }
+
+    /**
+     * The assessment results the gradebook has accepted so far
+     */
+    get assessmentResults(): unknown[] {
+        return this._accepted(ASSESSMENT_RESULTS_PATH)
+            .map(({ body }) => (body as { readonly assessmentResult?: unknown } | undefined)?.assessmentResult);
+    }
+
+    /**
+     * The Caliper events accepted so far, unpacked from the envelopes they were sent in
+     */
+    get caliperEvents(): unknown[] {
+        return this._accepted(CALIPER_EVENTS_PATH)
+            .flatMap(({ body }) => (body as { readonly data?: unknown[] } | undefined)?.data ?? []);
+    }
+
+    /**
+     * Forgets the requests received so far, and any failures that haven't happened yet
+     */
+    clear(): void {
+        this.requests.length = 0;
+        this._failures.clear();
+    }
+
+    /**
+     * Makes the next requests to an endpoint fail with the given status, e.g. to exercise retries
+     */
+    failNext(path: string, status: number, times = 1): void {
+        this._failures.set(path, { status, remaining: times });
+    }
+
+    /**
+     * Signs a token as the issuer would
+     * @param claims Merged into the token's payload, e.g. to set `aud` or an `exp` in the past
+     */
+    issueToken(studentId: string, claims: Record<string, unknown> = {}, expiresIn = 3600): string {
+        const now = Math.floor(Date.now() / 1000);
+        const header = base64url({ alg: "RS256", kid: this.keyId, typ: "JWT" });
+        const payload = base64url({
+            sub: studentId,
+            iss: this.url,
+            client_id: this.clientId,
+            token_use: "access",
+            iat: now,
+            exp: now + expiresIn,
+            ...claims
+        });
+        const signature = sign("sha256", Buffer.from(`${header}.${payload}`), this._privateKey).toString("base64url");
+
+        return `${header}.${payload}.${signature}`;
+    }
+
+    private _studentOf(authorization?: string): MockStudent | undefined {
+        const token = authorization?.replace(/^Bearer /, "");
+        if (token === undefined) return;
+
+        try {
+            const { sub } = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString("utf8")) as { readonly sub?: string };
+            return this.students.find(({ sourcedId }) => sourcedId === sub);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private _tokensFor(student: MockStudent, nonce?: string): object {
+        return {
+            token_type: "Bearer",
+            expires_in: 3600,
+            access_token: this.issueToken(student.sourcedId),
+            id_token: this.issueToken(student.sourcedId, {
+                aud: this.clientId,
+                token_use: "id",
+                nonce,
+                email: student.email,
+                given_name: student.givenName,
+                family_name: student.familyName
+            }),
+            refresh_token: `refresh-${student.sourcedId}`
+        };
+    }
+
+    private _handle(req: IncomingMessage, res: ServerResponse, text: string): void {
+        const url = new URL(req.url ?? "/", this.url);
+        const method = req.method ?? "GET";
+        const path = url.pathname;
+        const body = parseBody(text, req.headers["content-type"]);
+
+        let recorded: RecordedRequest | undefined;
+        const send = (status: number, data?: object, headers: Record<string, string> = {}): void => {
+            if (recorded !== undefined) recorded.status = status;
+            res.writeHead(status, {
+                // The client calls these endpoints straight from the browser
+                "Access-Control-Allow-Origin": "*",
+                "Access-Control-Allow-Headers": "Authorization, Content-Type",
+                "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+                ...(data !== undefined ? { "Content-Type": "application/json" } : {}),
+                ...headers
+            });
+            res.end(data !== undefined ? JSON.stringify(data) : undefined);
+        };
+
+        if (method === "OPTIONS") {
+            send(204);
+            return;
+        }
+
+        // Recordings can be read and cleared over HTTP too, for tests that don't run in this process
+        if (path === "/__mock/requests") {
+            if (method === "DELETE") {
+                this.clear();
+                send(204);
+            } else {
+                send(200, this.requests);
+            }
+            return;
+        }
+
+        this.requests.push(recorded = {
+            method,
+            path,
+            query: Object.fromEntries(url.searchParams),
+            headers: req.headers,
+            body,
+            time: Date.now(),
+            status: 0
+        });
+
+        const failure = this._failures.get(path);
+        if (failure !== undefined) {
+            if (--failure.remaining <= 0) this._failures.delete(path);
+            send(failure.status, { error: "injected failure" });
+            return;
+        }
+
+        switch (`${method} ${path}`) {
+            case "GET /.well-known/openid-configuration": {
+                send(200, {
+                    issuer: this.url,
+                    authorization_endpoint: `${this.url}/oauth2/authorize`,
+                    token_endpoint: `${this.url}/oauth2/token`,
+                    userinfo_endpoint: `${this.url}/oauth2/userInfo`,
+                    end_session_endpoint: `${this.url}/logout`,
+                    jwks_uri: `${this.url}/.well-known/jwks.json`,
+                    response_types_supported: ["code"],
+                    subject_types_supported: ["public"],
+                    id_token_signing_alg_values_supported: ["RS256"]
+                });
+                return;
+            }
+            case "GET /.well-known/jwks.json": {
+                send(200, { keys: [{ ...this._publicKey.export({ format: "jwk" }), kid: this.keyId, alg: "RS256", use: "sig" }] });
+                return;
+            }
+            case "GET /oauth2/authorize": {
+                // Signs in straight away, since there's nobody to ask for credentials
+                const redirectUri = url.searchParams.get("redirect_uri");
+                if (redirectUri === null) {
+                    send(400, { error: "invalid_request" });
+                    return;
+                }
+
+                const hint = url.searchParams.get("login_hint");
+                const student = this.students.find(({ sourcedId, email }) => hint === sourcedId || hint === email) ?? this.students[0];
+                const code = randomUUID();
+                this._codes.set(code, { student, nonce: url.searchParams.get("nonce") ?? undefined });
+
+                const redirect = new URL(redirectUri);
+                redirect.searchParams.set("code", code);
+                const state = url.searchParams.get("state");
+                if (state !== null) redirect.searchParams.set("state", state);
+
+                send(302, undefined, { Location: redirect.toString() });
+                return;
+            }
+            case "POST /oauth2/token": {
+                const params = (typeof body === "object" && body !== null ? body : {}) as Readonly<Record<string, string | undefined>>;
+
+                if (params.grant_type === "authorization_code") {
+                    const code = params.code ?? "";
+                    const signIn = this._codes.get(code);
+                    if (signIn === undefined) {
+                        send(400, { error: "invalid_grant" });
+                        return;
+                    }
+
+                    this._codes.delete(code);
+                    send(200, this._tokensFor(signIn.student, signIn.nonce));
+                    return;
+                }
+
+                const student = params.grant_type === "refresh_token"
+                    ? this.students.find(({ sourcedId }) => params.refresh_token === `refresh-${sourcedId}`)
+                    : undefined;
+                if (student === undefined) {
+                    send(400, { error: "invalid_grant" });
+                    return;
+                }
+
+                send(200, this._tokensFor(student));
+                return;
+            }
+            case "GET /oauth2/userInfo": {
+                const student = this._studentOf(req.headers.authorization);
+                if (student === undefined) {
+                    send(401, { error: "invalid_token" });
+                    return;
+                }
+
+                send(200, {
+                    sub: student.sourcedId,
+                    email: student.email,
+                    given_name: student.givenName,
+                    family_name: student.familyName
+                });
+                return;
+            }
+            case `POST ${ASSESSMENT_RESULTS_PATH}`: {
+                const sourcedId = (body as { readonly assessmentResult?: { readonly sourcedId?: string } } | undefined)?.assessmentResult?.sourcedId;
+                if (sourcedId === undefined) {
+                    send(400, { imsx_codeMajor: "failure", imsx_description: "Missing assessmentResult" });
+                    return;
+                }
+
+                send(201, { sourcedIdPairs: { suppliedSourcedId: sourcedId, allocatedSourcedId: sourcedId } });
+                return;
+            }
+            case `POST ${CALIPER_EVENTS_PATH}`: {
+                if (!Array.isArray((body as { readonly data?: unknown } | undefined)?.data)) {
+                    send(400, { error: "Missing data" });
+                    return;
+                }
+
+                send(200, { status: "accepted" });
+                return;
+            }
+            default:
+                send(404, { error: `No mock for ${method} ${path}` });
+        }
+    }
+}
+
+if (require.main === module) {
+    const timeBack = new MockTimeBack({ port: Number(process.env.MOCK_TIMEBACK_PORT ?? 8100) });
+    void timeBack.start().then(url => {
+        console.log(`Mock TimeBack server listening on ${url}`);
+        console.log("Point the game server at it in server/config.json:");
+        console.log(JSON.stringify({
+            timeBack: {
+                apiUrl: url,
+                caliperUrl: url,
+                auth: { jwks: `${url}/.well-known/jwks.json`, issuer: url, audience: timeBack.clientId }
+            }
+        }, null, 4));
+        console.log("And the client, in client/src/scripts/config.ts:");
+        console.log(JSON.stringify({ timeBack: { apiUrl: url, caliperUrl: url, authority: url, clientId: timeBack.clientId } }, null, 4));
+        console.log(`Recorded requests can be read from ${url}/__mock/requests`);
+    });
+}
@@ -0,0 +1,204 @@
+import { afterEach, describe, expect, test } from "@jest/globals";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DeliveryStatus, deliveryStatusOf, Outbox, type OutboxOptions } from "../../server/src/learningRecords/outbox";
+
+const outboxes: Outbox[] = [];
+const directories: string[] = [];
+
+function createOutbox(options: OutboxOptions = {}, journalPath?: string): Outbox {
+    if (journalPath === undefined) {
+        const directory = mkdtempSync(join(tmpdir(), "outbox-"));
+        directories.push(directory);
+        journalPath = join(directory, "journal.ndjson");
+    }
+
+    // Flushed by hand, so that tests don't depend on timing
+    const outbox = new Outbox(journalPath, { flushInterval: 3600000, baseRetryDelay: 0, ...options });
+    outboxes.push(outbox);
+    return outbox;
+}
+
+/**
+ * A channel that answers every delivery with the given status, and remembers what it was sent
+ */
+function channel(status: DeliveryStatus | (() => DeliveryStatus), options: { readonly batchSize?: number, readonly batchKey?: (payload: string) => string } = {}): {
+    readonly batches: string[][]
+    readonly batchSize?: number
+    readonly batchKey?: (payload: string) => string
+    send(payloads: string[]): Promise<DeliveryStatus>
+} {
+    const batches: string[][] = [];
+    return {
+        ...options,
+        batches,
+        send: async payloads => {
+            batches.push(payloads);
+            return typeof status === "function" ? status() : status;
+        }
+    };
+}
+
+afterEach(async() => {
+    for (const outbox of outboxes.splice(0)) await outbox.stop();
+    for (const directory of directories.splice(0)) rmSync(directory, { recursive: true, force: true });
+});
+
+describe("outbox delivery", () => {
+    test("delivered records leave the outbox", async() => {
+        const outbox = createOutbox();
+        const results = channel(DeliveryStatus.Delivered);
+        outbox.registerChannel("results", results);
+
+        outbox.enqueue("results", "a");
+        await outbox.flush();
+
+        expect(results.batches).toEqual([["a"]]);
+        expect(outbox.size).toBe(0);
+    });
+
+    test("records that should be retried stay until they run out of attempts", async() => {
+        const outbox = createOutbox({ maxAttempts: 3 });
+        const results = channel(DeliveryStatus.Retry);
+        outbox.registerChannel("results", results);
+
+        outbox.enqueue("results", "a");
+        await outbox.flush();
+        await outbox.flush();
+        expect(outbox.size).toBe(1);
+
+        await outbox.flush();
+        expect(results.batches).toHaveLength(3);
+        expect(outbox.size).toBe(0);
+    });
+
+    test("retries wait for their backoff delay", async() => {
+        const outbox = createOutbox({ baseRetryDelay: 60000 });
+        const results = channel(DeliveryStatus.Retry);
+        outbox.registerChannel("results", results);
+
+        outbox.enqueue("results", "a");
+        await outbox.flush();
+        await outbox.flush();
+
+        expect(results.batches).toHaveLength(1);
+        expect(outbox.size).toBe(1);
+    });
+
+    test("rejected records are dropped right away", async() => {
+        const outbox = createOutbox();
+        const results = channel(DeliveryStatus.Rejected);
+        outbox.registerChannel("results", results);
+
+        outbox.enqueue("results", "a");
+        await outbox.flush();
+
+        expect(results.batches).toHaveLength(1);
+        expect(outbox.size).toBe(0);
+    });
+
+    test("a channel that throws is retried", async() => {
+        const outbox = createOutbox();
+        let calls = 0;
+        outbox.registerChannel("results", channel(() => {
+            if (calls++ === 0) throw new Error("network down");
+            return DeliveryStatus.Delivered;
+        }));
+
+        outbox.enqueue("results", "a");
+        await outbox.flush();
+        expect(outbox.size).toBe(1);
+
+        await outbox.flush();
+        expect(outbox.size).toBe(0);
+    });
+
+    test("records for channels that aren't registered are kept", async() => {
+        const outbox = createOutbox();
+
+        outbox.enqueue("results", "a");
+        await outbox.flush();
+        expect(outbox.size).toBe(1);
+
+        outbox.registerChannel("results", channel(DeliveryStatus.Delivered));
+        await outbox.flush();
+        expect(outbox.size).toBe(0);
+    });
+
+    test("records are batched up to the batch size, and only with records that share their key", async() => {
+        const outbox = createOutbox();
+        const events = channel(DeliveryStatus.Delivered, { batchSize: 2, batchKey: payload => payload[0] });
+        outbox.registerChannel("events", events);
+
+        for (const payload of ["a1", "b1", "a2", "a3"]) outbox.enqueue("events", payload);
+        await outbox.flush();
+
+        expect(events.batches).toHaveLength(3);
+        expect(events.batches).toEqual(expect.arrayContaining([["a1", "a2"], ["a3"], ["b1"]]));
+    });
+});
+
+describe("outbox journal", () => {
+    test("records still pending when an outbox stops are delivered by the next one", async() => {
+        const first = createOutbox();
+        first.registerChannel("results", channel(DeliveryStatus.Delivered));
+        first.enqueue("results", "delivered");
+        await first.flush();
+        first.enqueue("results", "pending");
+        await first.stop();
+
+        const second = createOutbox({}, first.journalPath);
+        const results = channel(DeliveryStatus.Delivered);
+        second.registerChannel("results", results);
+        await second.flush();
+
+        expect(results.batches).toEqual([["pending"]]);
+    });
+
+    test("replayed journals are compacted down to the pending records", async() => {
+        const first = createOutbox();
+        first.registerChannel("results", channel(DeliveryStatus.Delivered));
+        first.enqueue("results", "delivered");
+        await first.flush();
+        first.enqueue("results", "pending");
+        await first.stop();
+
+        const second = createOutbox({}, first.journalPath);
+        await second.stop();
+
+        const lines = readFileSync(first.journalPath, "utf8").split("\n").filter(line => line);
+        expect(lines).toHaveLength(1);
+        expect(lines[0]).toContain("pending");
+    });
+
+    test("stopped outboxes don't deliver until they're started again", async() => {
+        const outbox = createOutbox({ flushInterval: 10 });
+        const results = channel(DeliveryStatus.Delivered);
+        outbox.registerChannel("results", results);
+        await outbox.stop();
+
+        outbox.enqueue("results", "a");
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(results.batches).toHaveLength(0);
+
+        outbox.start();
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(results.batches).toEqual([["a"]]);
+    });
+});
+
+describe("delivery status of HTTP responses", () => {
+    test.each([
+        [200, DeliveryStatus.Delivered],
+        [201, DeliveryStatus.Delivered],
+        [408, DeliveryStatus.Retry],
+        [429, DeliveryStatus.Retry],
+        [503, DeliveryStatus.Retry],
+        [400, DeliveryStatus.Rejected],
+        [401, DeliveryStatus.Rejected],
+        [404, DeliveryStatus.Rejected]
+    ])("status %i", (status, expected) => {
+        expect(deliveryStatusOf(new Response(null, { status }))).toBe(expected);
+    });
+});
@@ -0,0 +1,157 @@
+import { afterAll, describe, expect, test } from "@jest/globals";
+import { appendFileSync, rmSync } from "node:fs";
+import { PracticeBank, type StarterKit } from "../../server/src/math/practice";
+import { progressLedger, type LedgerEntry } from "../../server/src/math/progressLedger";
+import { type Player } from "../../server/src/objects/player";
+
+let students = 0;
+
+function createPlayer(verified = true): Player & { readonly items: Map<string, number> } {
+    const items = new Map<string, number>();
+
+    return {
+        studentId: verified ? `student ${++students}` : undefined,
+        disconnected: false,
+        items,
+        dirty: {},
+        inventory: {
+            items: {
+                hasItem: (item: string) => items.has(item),
+                getItem: (item: string) => items.get(item) ?? 0,
+                incrementItem: (item: string, count: number) => items.set(item, (items.get(item) ?? 0) + count)
+            },
+            backpack: { maxCapacity: { "gauze": 5, "cola": 2, "9mm": 120 } },
+            slotsByDefType: {},
+            weapons: []
+        },
+        learningSummary: { recordItems: () => { /* not needed here */ } }
+    } as unknown as Player & { readonly items: Map<string, number> };
+}
+
+const kits: readonly StarterKit[] = [
+    { points: 10, items: { gauze: 3, cola: 1 } },
+    { points: 5, items: { "9mm": 30 } }
+];
+
+function bankPoints(bank: PracticeBank, player: Player, answers: number): void {
+    for (let i = 0; i < answers; i++) bank.bank(player);
+}
+
+afterAll(async() => {
+    await progressLedger.flush();
+    rmSync(progressLedger.path, { force: true });
+});
+
+describe("banking practice points", () => {
+    test("kits are sorted from cheapest to most expensive, which sets the most points that can be banked", () => {
+        const bank = new PracticeBank(kits);
+
+        expect(bank.kits.map(({ points }) => points)).toEqual([5, 10]);
+        expect(bank.maxPoints).toBe(10);
+    });
+
+    test("each solved practice problem banks points", () => {
+        const bank = new PracticeBank(kits, 2);
+        const player = createPlayer();
+
+        expect(bank.bank(player)).toBe(2);
+        expect(bank.bank(player)).toBe(4);
+        expect(bank.banked(player)).toBe(4);
+    });
+
+    test("points stop being banked once the most expensive kit can be afforded", () => {
+        const bank = new PracticeBank(kits, 3);
+        const player = createPlayer();
+
+        bankPoints(bank, player, 5);
+
+        expect(bank.banked(player)).toBe(10);
+    });
+
+    test("players who aren't verified students can't bank points", () => {
+        const bank = new PracticeBank(kits);
+        const player = createPlayer(false);
+
+        expect(bank.bank(player)).toBe(0);
+        expect(bank.banked(player)).toBe(0);
+    });
+});
+
+describe("starter kits", () => {
+    test("students are given the most expensive kit they can afford, and it's paid for", async() => {
+        const bank = new PracticeBank(kits);
+        const player = createPlayer();
+        bankPoints(bank, player, 7);
+
+        const kit = await bank.grantKit(player);
+
+        expect(kit?.points).toBe(5);
+        expect(player.items.get("9mm")).toBe(30);
+        expect(bank.banked(player)).toBe(2);
+    });
+
+    test("kit items are given up to what the backpack can hold", async() => {
+        const bank = new PracticeBank([{ points: 1, items: { gauze: 10 } }]);
+        const player = createPlayer();
+        bank.bank(player);
+
+        await bank.grantKit(player);
+
+        expect(player.items.get("gauze")).toBe(5);
+    });
+
+    test("students who can't afford a kit aren't given one", async() => {
+        const bank = new PracticeBank(kits);
+        const player = createPlayer();
+        bankPoints(bank, player, 4);
+
+        expect(await bank.grantKit(player)).toBeUndefined();
+        expect(player.items.size).toBe(0);
+        expect(bank.banked(player)).toBe(4);
+    });
+
+    test("points spent in another game aren't spent again", async() => {
+        const bank = new PracticeBank(kits);
+        const player = createPlayer();
+        bankPoints(bank, player, 10);
+        await progressLedger.flush();
+
+        // Another worker gave the student a kit in the meantime
+        const entry: LedgerEntry = { type: "kit", studentId: player.studentId ?? "", time: new Date().toISOString(), points: 10 };
+        appendFileSync(progressLedger.path, `${JSON.stringify({ ...entry, writer: "other" })}\n`);
+
+        expect(await bank.grantKit(player)).toBeUndefined();
+        expect(bank.banked(player)).toBe(0);
+    });
+
+    test("the balance never goes below 0, even if two games spend the same points", async() => {
+        const bank = new PracticeBank(kits);
+        const player = createPlayer();
+        bankPoints(bank, player, 10);
+        await progressLedger.flush();
+
+        const entry: LedgerEntry = { type: "kit", studentId: player.studentId ?? "", time: new Date().toISOString(), points: 10 };
+        appendFileSync(progressLedger.path, `${JSON.stringify({ ...entry, writer: "other" })}\n`);
+        progressLedger.recordKit(player.studentId ?? "", 10);
+        await progressLedger.load(player.studentId ?? "");
+
+        expect(bank.banked(player)).toBe(0);
+        expect(bank.bank(player)).toBe(1);
+    });
+
+    test("players who left before their progress was read aren't given a kit", async() => {
+        const bank = new PracticeBank(kits);
+        const player = createPlayer();
+        bankPoints(bank, player, 10);
+        player.disconnected = true;
+
+        expect(await bank.grantKit(player)).toBeUndefined();
+        expect(bank.banked(player)).toBe(10);
+    });
+
+    test("players who aren't verified students aren't given a kit", async() => {
+        const bank = new PracticeBank(kits);
+
+        expect(await bank.grantKit(createPlayer(false))).toBeUndefined();
+    });
+});
@@ -0,0 +1,246 @@
+import { AnswerType, type MathAnswer, MathAnswers, type MathExpression, type MathOperand, MathOperator, OperandKind } from "@common/utils/mathProblems";
+import { describe, expect, test } from "@jest/globals";
+import { claimAnswer, evaluate } from "../../server/src/math/distractors";
+import { type GeneratedProblem, type ProblemContext, type ProblemGenerator, ProblemGeneratorRegistry, ProblemGenerators } from "../../server/src/math/problemGenerators";
+
+/**
+ * Enough to run into the edges of each generator's random ranges
+ */
+const SAMPLES = 200;
+
+const context: ProblemContext = {
+    gun: { idString: "ak47", ammoType: "762mm", loaded: 12, capacity: 30, reserve: 95 },
+    health: 60,
+    maxHealth: 100,
+    gas: { oldRadius: 300, newRadius: 180, dps: 2 }
+};
+
+/**
+ * Every problem a generator makes at each of its difficulty levels
+ */
+function sample(generator: ProblemGenerator, problemContext = context): Array<GeneratedProblem & { readonly difficulty: number }> {
+    const problems: Array<GeneratedProblem & { readonly difficulty: number }> = [];
+    for (let difficulty = generator.difficulty.min; difficulty <= generator.difficulty.max; difficulty++) {
+        for (let i = 0; i < SAMPLES; i++) problems.push({ ...generator.generate(difficulty, problemContext), difficulty });
+    }
+    return problems;
+}
+
+function numbers(operand: MathOperand): number[] {
+    switch (operand.kind) {
+        case OperandKind.Number: return [operand.value];
+        case OperandKind.Expression: return operand.operands.flatMap(numbers);
+        default: return [];
+    }
+}
+
+/**
+ * Whether the answer is right. For equations, it has to make both sides equal.
+ * Values are compared the way players' answers are, since fractions of numbers don't always evaluate exactly
+ */
+function solves({ expression, answer }: GeneratedProblem): boolean {
+    if (answer.type !== AnswerType.Integer) return false;
+
+    const decimal = (value: number): MathAnswer => ({ type: AnswerType.Decimal, value });
+
+    if (expression.operator !== MathOperator.Equals) return MathAnswers.equal(answer, decimal(evaluate(expression)));
+
+    const { operands: [left, right] } = claimAnswer(expression, answer.value);
+    return MathAnswers.equal(decimal(evaluate(right)), decimal(evaluate(left)));
+}
+
+function generator(idString: string): ProblemGenerator {
+    const found = ProblemGenerators.get(idString);
+    if (found === undefined) throw new Error(`No problem generator ${idString}`);
+    return found;
+}
+
+describe("problem generators", () => {
+    test.each([...ProblemGenerators].map(generator => [generator.idString, generator] as const))("%s gives the right whole number answer to its problems", (_, generator) => {
+        for (const problem of sample(generator)) {
+            expect(problem.answer.type).toBe(AnswerType.Integer);
+            expect(solves(problem)).toBe(true);
+        }
+    });
+
+    test("difficulty ranges are within 1 and 10", () => {
+        for (const { difficulty: { min, max } } of ProblemGenerators) {
+            expect(min).toBeGreaterThanOrEqual(1);
+            expect(max).toBeLessThanOrEqual(10);
+        }
+    });
+
+    test("every family is made up of the generators that belong to it", () => {
+        expect(ProblemGenerators.families.sort()).toEqual([
+            "basic",
+            "fractions",
+            "missing_operand",
+            "multi_digit",
+            "negative",
+            "order_of_operations",
+            "percentages",
+            "word_problems"
+        ]);
+
+        expect(ProblemGenerators.forFamilies(["fractions", "percentages"]).map(({ idString }) => idString)).toEqual(["fraction_of_number", "percent_of_number"]);
+        expect(ProblemGenerators.forFamilies([])).toEqual([]);
+    });
+});
+
+describe("basic facts", () => {
+    test.each(["basic_addition", "basic_subtraction", "basic_multiplication", "basic_division"])("%s sticks to facts up to 9 at difficulty 1 and 12 at difficulty 2", idString => {
+        for (const { expression, answer, difficulty } of sample(generator(idString))) {
+            const max = difficulty === 1 ? 9 : 12;
+            const facts = expression.operator === MathOperator.Divide
+                ? [answer.type === AnswerType.Integer ? answer.value : NaN, numbers(expression)[1]]
+                : numbers(expression);
+
+            for (const value of facts) {
+                expect(value).toBeGreaterThanOrEqual(1);
+                expect(value).toBeLessThanOrEqual(max);
+            }
+        }
+    });
+
+    test("subtraction never goes below 0", () => {
+        for (const { expression } of sample(generator("basic_subtraction"))) {
+            expect(evaluate(expression)).toBeGreaterThanOrEqual(0);
+        }
+    });
+});
+
+describe("multi-digit arithmetic", () => {
+    test("operands of additions get more digits as the difficulty goes up", () => {
+        const digits = (value: number): number => `${value}`.length;
+        const expected: Record<number, [number, number]> = {
+            3: [2, 1],
+            4: [2, 2],
+            5: [3, 2],
+            6: [3, 3]
+        };
+
+        for (const { expression, difficulty } of sample(generator("multi_digit_addition"))) {
+            expect(numbers(expression).map(digits)).toEqual(expected[difficulty]);
+        }
+    });
+
+    test("subtractions never go below 0", () => {
+        for (const { expression } of sample(generator("multi_digit_subtraction"))) {
+            expect(evaluate(expression)).toBeGreaterThanOrEqual(0);
+        }
+    });
+});
+
+describe("negative numbers", () => {
+    test.each(["negative_addition", "negative_subtraction", "negative_multiplication"])("%s always involves a negative number", idString => {
+        for (const { expression, answer } of sample(generator(idString))) {
+            const values = [...numbers(expression), answer.type === AnswerType.Integer ? answer.value : 0];
+            expect(values.some(value => value < 0)).toBe(true);
+        }
+    });
+});
+
+describe("order of operations", () => {
+    test("problems mix two operations, and only bring in subtraction and division from difficulty 6", () => {
+        const operators = (operand: MathOperand): MathOperator[] => operand.kind === OperandKind.Expression
+            ? [operand.operator, ...operand.operands.flatMap(operators)]
+            : [];
+
+        for (const { expression, difficulty } of sample(generator("order_of_operations"))) {
+            const used = operators(expression);
+            expect(used).toHaveLength(2);
+
+            if (difficulty < 6) {
+                expect(used).not.toContain(MathOperator.Subtract);
+                expect(used).not.toContain(MathOperator.Divide);
+            }
+        }
+    });
+});
+
+describe("fractions and percentages", () => {
+    test("only unit fractions are used at difficulty 4", () => {
+        for (const { expression, difficulty } of sample(generator("fraction_of_number"))) {
+            const [fraction] = expression.operands;
+            expect(fraction.kind).toBe(OperandKind.Fraction);
+            if (fraction.kind !== OperandKind.Fraction) continue;
+
+            expect(fraction.numerator).toBeLessThan(fraction.denominator);
+            if (difficulty === 4) expect(fraction.numerator).toBe(1);
+        }
+    });
+
+    test("only 10% and 50% are used at difficulty 5", () => {
+        for (const { expression, difficulty } of sample(generator("percent_of_number"))) {
+            if (difficulty === 5) expect([10, 50]).toContain(numbers(expression)[0]);
+        }
+    });
+});
+
+describe("missing operands", () => {
+    test.each(["missing_addend", "missing_subtrahend", "missing_factor", "missing_dividend"])("%s is an equation with one unknown", idString => {
+        const unknowns = (operand: MathOperand): number => operand.kind === OperandKind.Unknown
+            ? 1
+            : operand.kind === OperandKind.Expression ? unknowns(operand.operands[0]) + unknowns(operand.operands[1]) : 0;
+
+        for (const { expression } of sample(generator(idString))) {
+            expect(expression.operator).toBe(MathOperator.Equals);
+            expect(unknowns(expression)).toBe(1);
+        }
+    });
+});
+
+describe("word problems", () => {
+    const noGun: ProblemContext = { health: 100, maxHealth: 100 };
+
+    test.each([
+        ["word_ammo_total", { ...context, gun: { ...context.gun, loaded: 0 } }],
+        ["word_health_missing", noGun],
+        ["word_gas_shrink", noGun],
+        ["word_gas_damage", { ...context, gas: { oldRadius: 300, newRadius: 180, dps: 1.5 } }],
+        ["word_magazines", noGun],
+        ["word_full_reloads", { ...context, gun: { ...context.gun, reserve: 20 } }]
+    ] as ReadonlyArray<[string, ProblemContext]>)("%s doesn't fit situations it can't be set in", (idString, problemContext) => {
+        const wordProblem = generator(idString);
+
+        expect(wordProblem.fits?.(context)).toBe(true);
+        expect(wordProblem.fits?.(problemContext)).toBe(false);
+    });
+
+    test("word problems are worded with the player's situation", () => {
+        const [{ words }] = sample(generator("word_ammo_total"));
+
+        expect(words).toEqual({
+            key: "ammo_total",
+            operands: [{ kind: OperandKind.Number, value: 12 }, { kind: OperandKind.Number, value: 95 }],
+            items: ["ak47", "762mm"]
+        });
+    });
+
+    test("rounds left over are taken off before counting full reloads", () => {
+        const [{ expression, answer }] = sample(generator("word_full_reloads"));
+        const [reserve] = expression.operands as [MathExpression, MathOperand];
+
+        expect(numbers(reserve)).toEqual([95, 5]);
+        expect(answer).toEqual({ type: AnswerType.Integer, value: 3 });
+    });
+});
+
+describe("registering problem generators", () => {
+    const base: ProblemGenerator = {
+        idString: "test",
+        family: "test",
+        skillId: "test",
+        operation: "ADDITION",
+        difficulty: { min: 1, max: 1 },
+        generate: () => generator("basic_addition").generate(1, context)
+    };
+
+    test("generators can't share an ID", () => {
+        expect(() => new ProblemGeneratorRegistry().register(base, base)).toThrow("Duplicate problem generator: test");
+    });
+
+    test("difficulty ranges can't be backwards", () => {
+        expect(() => new ProblemGeneratorRegistry().register({ ...base, difficulty: { min: 3, max: 2 } })).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,260 @@
+import { AnswerType, MathOperator, OperandKind } from "@common/utils/mathProblems";
+import { afterEach, describe, expect, test } from "@jest/globals";
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type LedgerEntry, ProgressLedger } from "../../server/src/math/progressLedger";
+import { type MathFact, type ReviewItem } from "../../server/src/math/reviewQueue";
+
+const directories: string[] = [];
+
+function ledgerPath(): string {
+    const directory = mkdtempSync(join(tmpdir(), "ledger-"));
+    directories.push(directory);
+    return join(directory, "progress-ledger.ndjson");
+}
+
+/**
+ * Writes entries the way another worker would
+ */
+function write(path: string, ...entries: LedgerEntry[]): void {
+    appendFileSync(path, entries.map(entry => `${JSON.stringify({ ...entry, writer: "other" })}\n`).join(""));
+}
+
+function fact(a: number, b: number): MathFact {
+    return {
+        expression: {
+            kind: OperandKind.Expression,
+            operator: MathOperator.Add,
+            operands: [{ kind: OperandKind.Number, value: a }, { kind: OperandKind.Number, value: b }]
+        },
+        answer: { type: AnswerType.Integer, value: a + b },
+        skillId: "add_single_digit",
+        operation: "ADDITION",
+        difficulty: 1
+    };
+}
+
+function review(item: ReviewItem): LedgerEntry {
+    return { type: "review", studentId: "alice", time: "", item };
+}
+
+function answer(isCorrect: boolean, attemptNumber: number, xp: number, skillId = "add_single_digit"): LedgerEntry {
+    return { type: "answer", studentId: "alice", time: "", skillId, isCorrect, attemptNumber, xp };
+}
+
+/**
+ * An answer written on a line longer than the ledger reads at a time
+ */
+function longAnswer(xp: number): LedgerEntry {
+    return { ...answer(true, 1, xp), time: " ".repeat(3 << 20) };
+}
+
+afterEach(() => {
+    for (const directory of directories.splice(0)) rmSync(directory, { recursive: true, force: true });
+});
+
+describe("folding the ledger", () => {
+    test("students with no entries have no progress", async() => {
+        const ledger = new ProgressLedger(ledgerPath());
+
+        expect(await ledger.load("alice")).toMatchObject({ totalXP: 0, problemsAttempted: 0, gamesPlayed: 0, practicePoints: 0 });
+    });
+
+    test("every answer adds its XP, but only first attempts count towards accuracy", async() => {
+        const path = ledgerPath();
+        write(path, answer(false, 1, 0), answer(true, 2, 5), answer(true, 1, 10), answer(true, 1, 10, "sub_single_digit"));
+
+        const progress = await new ProgressLedger(path).load("alice");
+
+        expect(progress.totalXP).toBe(25);
+        expect(progress.problemsAttempted).toBe(3);
+        expect(progress.problemsCorrect).toBe(2);
+        expect(progress.skills).toEqual({
+            add_single_digit: { attempted: 2, correct: 1 },
+            sub_single_digit: { attempted: 1, correct: 1 }
+        });
+    });
+
+    test("only the latest state of each reviewed fact is kept, and learned facts leave the queue", async() => {
+        const path = ledgerPath();
+        write(
+            path,
+            review({ fact: fact(2, 3), box: 1, due: 0 }),
+            review({ fact: fact(2, 3), box: 2, due: 100 }),
+            review({ fact: fact(4, 4), box: 1, due: 0 }),
+            review({ fact: fact(4, 4), box: 0, due: 0 })
+        );
+
+        const { reviews } = await new ProgressLedger(path).load("alice");
+
+        expect([...reviews.values()]).toEqual([{ fact: fact(2, 3), box: 2, due: 100 }]);
+    });
+
+    test("the latest estimate of each skill is kept", async() => {
+        const path = ledgerPath();
+        write(
+            path,
+            { type: "mastery", studentId: "alice", time: "", skillId: "add_single_digit", skill: { rating: 1010, attempts: 1, correct: 1 }, overall: 1005 },
+            { type: "mastery", studentId: "alice", time: "", skillId: "add_single_digit", skill: { rating: 995, attempts: 2, correct: 1 }, overall: 998 }
+        );
+
+        const { mastery } = await new ProgressLedger(path).load("alice");
+
+        expect(mastery.overall).toBe(998);
+        expect(mastery.skills.get("add_single_digit")).toEqual({ rating: 995, attempts: 2, correct: 1 });
+    });
+
+    test("games and banked points are tallied, and kits spend points", async() => {
+        const path = ledgerPath();
+        write(
+            path,
+            { type: "game", studentId: "alice", time: "" },
+            { type: "game", studentId: "alice", time: "" },
+            { type: "practice", studentId: "alice", time: "", points: 7 },
+            { type: "kit", studentId: "alice", time: "", points: 5 }
+        );
+
+        const progress = await new ProgressLedger(path).load("alice");
+
+        expect(progress.gamesPlayed).toBe(2);
+        expect(progress.practicePoints).toBe(2);
+    });
+
+    test("students' progress is kept apart", async() => {
+        const path = ledgerPath();
+        write(path, answer(true, 1, 10), { type: "answer", studentId: "bob", time: "", skillId: "add_single_digit", isCorrect: true, attemptNumber: 1, xp: 3 });
+
+        const ledger = new ProgressLedger(path);
+
+        expect((await ledger.load("alice")).totalXP).toBe(10);
+        expect((await ledger.load("bob")).totalXP).toBe(3);
+    });
+
+    test("lines still being written are folded in once they're complete", async() => {
+        const path = ledgerPath();
+        const line = JSON.stringify(answer(true, 1, 10));
+        appendFileSync(path, line.slice(0, 10));
+
+        const ledger = new ProgressLedger(path);
+        expect((await ledger.load("alice")).totalXP).toBe(0);
+
+        appendFileSync(path, `${line.slice(10)}\n`);
+        expect((await ledger.load("alice")).totalXP).toBe(10);
+    });
+
+    test("lines longer than a read are folded in, along with the ones after them", async() => {
+        const path = ledgerPath();
+        write(path, answer(true, 1, 1), longAnswer(10), answer(true, 1, 100));
+
+        expect((await new ProgressLedger(path).load("alice")).totalXP).toBe(111);
+    });
+});
+
+describe("writing to the ledger", () => {
+    test("recorded entries count straight away, without waiting for the ledger to be read", () => {
+        const ledger = new ProgressLedger(ledgerPath());
+
+        ledger.recordAnswer("alice", "add_single_digit", true, 1, 10);
+
+        expect(ledger.get("alice").totalXP).toBe(10);
+    });
+
+    test("a worker's own entries aren't folded in twice when it reads the ledger", async() => {
+        const ledger = new ProgressLedger(ledgerPath());
+
+        ledger.recordAnswer("alice", "add_single_digit", true, 1, 10);
+        await ledger.flush();
+
+        expect((await ledger.load("alice")).totalXP).toBe(10);
+    });
+
+    test("entries written by other workers are folded in on the next load", async() => {
+        const path = ledgerPath();
+        const ledger = new ProgressLedger(path);
+
+        ledger.recordAnswer("alice", "add_single_digit", true, 1, 10);
+        write(path, answer(true, 1, 5));
+        expect(ledger.get("alice").totalXP).toBe(10);
+
+        expect((await ledger.load("alice")).totalXP).toBe(15);
+    });
+
+    test("entries are read back the same by another worker", async() => {
+        const path = ledgerPath();
+        const ledger = new ProgressLedger(path);
+
+        ledger.recordGame("alice");
+        ledger.recordAnswer("alice", "add_single_digit", true, 1, 10);
+        ledger.recordReview("alice", { fact: fact(2, 3), box: 1, due: 50 });
+        ledger.recordMastery("alice", "add_single_digit", { rating: 1010, attempts: 1, correct: 1 }, 1005);
+        ledger.recordPractice("alice", 3);
+        await ledger.flush();
+
+        expect(await new ProgressLedger(path).load("alice")).toEqual(ledger.get("alice"));
+    });
+});
+
+describe("compacting the ledger", () => {
+    test("the ledger is replaced by a snapshot of each student, and its entries are archived", async() => {
+        const path = ledgerPath();
+        write(
+            path,
+            answer(true, 1, 10),
+            review({ fact: fact(2, 3), box: 1, due: 50 }),
+            { type: "mastery", studentId: "alice", time: "", skillId: "add_single_digit", skill: { rating: 1010, attempts: 1, correct: 1 }, overall: 1005 },
+            { type: "game", studentId: "bob", time: "" }
+        );
+        const before = readFileSync(path, "utf8");
+        const expected = await new ProgressLedger(path).load("alice");
+
+        const archive = new ProgressLedger(path).compact();
+
+        expect(archive).toBeDefined();
+        expect(readFileSync(archive ?? "", "utf8")).toBe(before);
+
+        const snapshots = readFileSync(path, "utf8").split("\n").filter(line => line).map(line => JSON.parse(line) as LedgerEntry);
+        expect(snapshots.map(({ type, studentId }) => ({ type, studentId }))).toEqual([
+            { type: "snapshot", studentId: "alice" },
+            { type: "snapshot", studentId: "bob" }
+        ]);
+
+        const ledger = new ProgressLedger(path);
+        expect(await ledger.load("alice")).toEqual(expected);
+        expect((await ledger.load("bob")).gamesPlayed).toBe(1);
+    });
+
+    test("entries written after a compaction are folded in on top of the snapshots", async() => {
+        const path = ledgerPath();
+        write(path, answer(true, 1, 10));
+        new ProgressLedger(path).compact();
+
+        write(path, answer(true, 1, 5));
+
+        expect((await new ProgressLedger(path).load("alice")).totalXP).toBe(15);
+    });
+
+    test("lines longer than a read are kept in the snapshots", async() => {
+        const path = ledgerPath();
+        write(path, longAnswer(10), answer(true, 1, 5));
+        new ProgressLedger(path).compact();
+
+        expect((await new ProgressLedger(path).load("alice")).totalXP).toBe(15);
+    });
+
+    test("ledgers holding nothing but snapshots aren't compacted again", () => {
+        const path = ledgerPath();
+        write(path, answer(true, 1, 10));
+        new ProgressLedger(path).compact();
+
+        expect(new ProgressLedger(path).compact()).toBeUndefined();
+    });
+
+    test("empty ledgers aren't compacted", () => {
+        const path = ledgerPath();
+
+        expect(new ProgressLedger(path).compact()).toBeUndefined();
+        expect(readFileSync(path, "utf8")).toBe("");
+        expect(existsSync(`${path}.tmp`)).toBe(false);
+    });
+});
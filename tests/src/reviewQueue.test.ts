@@ -0,0 +1,147 @@
+import { AnswerType, MathOperator, OperandKind } from "@common/utils/mathProblems";
+import { describe, expect, test } from "@jest/globals";
+import { type MathFact, ReviewQueue } from "../../server/src/math/reviewQueue";
+
+function fact(a: number, b: number): MathFact {
+    return {
+        expression: {
+            kind: OperandKind.Expression,
+            operator: MathOperator.Multiply,
+            operands: [{ kind: OperandKind.Number, value: a }, { kind: OperandKind.Number, value: b }]
+        },
+        answer: { type: AnswerType.Integer, value: a * b },
+        skillId: "mul_single_digit",
+        operation: "MULTIPLICATION",
+        difficulty: 1
+    };
+}
+
+/**
+ * Short intervals, and no spacing between reviews, unless a test is about them
+ */
+function createQueue(spacing = 0): ReviewQueue {
+    return new ReviewQueue([10, 100, 1000], spacing);
+}
+
+describe("Leitner boxes", () => {
+    test("facts answered correctly the first time aren't queued", () => {
+        const queue = createQueue();
+
+        expect(queue.record("alice", fact(7, 8), true, 0)).toBeUndefined();
+        expect(queue.next("alice", 1e9)).toBeUndefined();
+    });
+
+    test("missed facts go in the first box, and are due once its interval has passed", () => {
+        const queue = createQueue();
+
+        expect(queue.record("alice", fact(7, 8), false, 0)).toEqual({ fact: fact(7, 8), box: 1, due: 10 });
+        expect(queue.next("alice", 9)).toBeUndefined();
+        expect(queue.next("alice", 10)).toEqual(fact(7, 8));
+    });
+
+    test("each correct answer moves a fact up a box, where it waits longer", () => {
+        const queue = createQueue();
+        queue.record("alice", fact(7, 8), false, 0);
+
+        expect(queue.record("alice", fact(7, 8), true, 10)).toMatchObject({ box: 2, due: 110 });
+        expect(queue.record("alice", fact(7, 8), true, 110)).toMatchObject({ box: 3, due: 1110 });
+    });
+
+    test("a wrong answer sends a fact back to the first box", () => {
+        const queue = createQueue();
+        queue.record("alice", fact(7, 8), false, 0);
+        queue.record("alice", fact(7, 8), true, 10);
+        queue.record("alice", fact(7, 8), true, 110);
+
+        expect(queue.record("alice", fact(7, 8), false, 1110)).toMatchObject({ box: 1, due: 1120 });
+    });
+
+    test("facts answered correctly in the last box have been learned, and leave the queue", () => {
+        const queue = createQueue();
+        queue.record("alice", fact(7, 8), false, 0);
+        queue.record("alice", fact(7, 8), true, 10);
+        queue.record("alice", fact(7, 8), true, 110);
+
+        expect(queue.record("alice", fact(7, 8), true, 1110)).toEqual({ fact: fact(7, 8), box: 0, due: 1110 });
+        expect(queue.next("alice", 1e9)).toBeUndefined();
+
+        // Once learned, answering it correctly again doesn't queue it
+        expect(queue.record("alice", fact(7, 8), true, 1e9)).toBeUndefined();
+    });
+
+    test("the same fact missed twice is only queued once", () => {
+        const queue = createQueue();
+        queue.record("alice", fact(7, 8), false, 0);
+        queue.record("alice", fact(7, 8), false, 5);
+
+        expect(queue.next("alice", 15)).toEqual(fact(7, 8));
+        expect(queue.next("alice", 15)).toEqual(fact(7, 8));
+        queue.record("alice", fact(7, 8), true, 15);
+        expect(queue.next("alice", 15)).toBeUndefined();
+    });
+
+    test("word problems are reviewed as their numbers alone", () => {
+        const queue = createQueue();
+        const worded: MathFact = { ...fact(30, 4), words: { key: "magazines", operands: [], items: ["ak47"] } };
+
+        expect(queue.record("alice", worded, false, 0)?.fact).toEqual(fact(30, 4));
+    });
+});
+
+describe("serving reviews", () => {
+    test("the most overdue fact is served first", () => {
+        const queue = createQueue();
+        queue.record("alice", fact(7, 8), false, 5);
+        queue.record("alice", fact(6, 9), false, 0);
+        queue.record("alice", fact(4, 3), false, 50);
+
+        expect(queue.next("alice", 20)).toEqual(fact(6, 9));
+    });
+
+    test("reviews are spaced out between other problems", () => {
+        const queue = createQueue(2);
+        queue.record("alice", fact(7, 8), false, 0);
+        queue.record("alice", fact(6, 9), false, 0);
+
+        const served = Array.from({ length: 6 }, () => queue.next("alice", 100));
+
+        expect(served).toEqual([undefined, undefined, fact(7, 8), undefined, undefined, fact(7, 8)]);
+    });
+
+    test("problems served while nothing is due count towards the spacing", () => {
+        const queue = createQueue(2);
+        queue.next("alice", 0);
+        queue.next("alice", 0);
+        queue.record("alice", fact(7, 8), false, 0);
+
+        expect(queue.next("alice", 10)).toEqual(fact(7, 8));
+    });
+
+    test("each student has their own queue", () => {
+        const queue = createQueue();
+        queue.record("alice", fact(7, 8), false, 0);
+
+        expect(queue.next("bob", 100)).toBeUndefined();
+        expect(queue.next("alice", 100)).toEqual(fact(7, 8));
+    });
+
+    test("loading a saved queue replaces the student's queue", () => {
+        const queue = createQueue();
+        queue.record("alice", fact(7, 8), false, 0);
+
+        queue.load("alice", [{ fact: fact(6, 9), box: 2, due: 50 }]);
+
+        expect(queue.next("alice", 49)).toBeUndefined();
+        expect(queue.next("alice", 50)).toEqual(fact(6, 9));
+        expect(queue.record("alice", fact(6, 9), true, 50)).toMatchObject({ box: 3, due: 1050 });
+    });
+
+    test("forgetting a student empties their queue", () => {
+        const queue = createQueue();
+        queue.record("alice", fact(7, 8), false, 0);
+
+        queue.delete("alice");
+
+        expect(queue.next("alice", 100)).toBeUndefined();
+    });
+});
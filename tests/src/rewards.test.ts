@@ -0,0 +1,185 @@
+import { Backpacks } from "@common/definitions/items/backpacks";
+import { type ModeName } from "@common/definitions/modes";
+import { DefinitionType } from "@common/utils/objectDefinitions";
+import { describe, expect, test } from "@jest/globals";
+import { MathRewardTables } from "../../server/src/data/mathRewardTables";
+import { awardReward, pickReward } from "../../server/src/math/rewards";
+import { type Player } from "../../server/src/objects/player";
+
+/**
+ * Enough to run into the edges of the rewards' random counts
+ */
+const SAMPLES = 200;
+
+const rewardItems = MathRewardTables.normal.rewards.map(({ item }) => item);
+
+const modes = Object.keys(MathRewardTables) as ModeName[];
+
+interface FakePlayer {
+    readonly items: Map<string, number>
+    readonly equipped: string[]
+}
+
+/**
+ * @param capacity What the player's backpack can hold of each item. Items left out can't be held at all
+ * @param held What the player is already carrying
+ */
+function createPlayer(
+    capacity: Record<string, number>,
+    held: Record<string, number> = {},
+    throwableEquipped = false,
+    modeName: ModeName = "normal"
+): Player & FakePlayer {
+    const items = new Map(Object.entries(held));
+    const equipped: string[] = [];
+    const weapons: unknown[] = [];
+    if (throwableEquipped) weapons[3] = {};
+
+    return {
+        items,
+        equipped,
+        game: { modeName },
+        health: 100,
+        maxHealth: 100,
+        activeItem: undefined,
+        dirty: {},
+        inventory: {
+            items: {
+                hasItem: (item: string) => items.has(item),
+                getItem: (item: string) => items.get(item) ?? 0,
+                incrementItem: (item: string, count: number) => items.set(item, (items.get(item) ?? 0) + count)
+            },
+            backpack: { maxCapacity: capacity },
+            slotsByDefType: { [DefinitionType.Throwable]: [3] },
+            weapons,
+            useItem: (item: string) => equipped.push(item)
+        }
+    } as unknown as Player & FakePlayer;
+}
+
+/**
+ * A backpack with room for a lot of everything
+ */
+function roomy(): Record<string, number> {
+    return Object.fromEntries(modes.flatMap(mode => MathRewardTables[mode].rewards.map(({ item }) => [item, 1000])));
+}
+
+describe("awarding rewards", () => {
+    test("rewards are given in full when there's room for them", () => {
+        const player = createPlayer({ gauze: 15 }, { gauze: 3 });
+
+        expect(awardReward(player, "gauze", 5)).toBe(5);
+        expect(player.items.get("gauze")).toBe(8);
+        expect(player.dirty.items).toBe(true);
+    });
+
+    test("rewards are cut down to what the backpack has room for", () => {
+        const player = createPlayer({ gauze: 5 }, { gauze: 3 });
+
+        expect(awardReward(player, "gauze", 5)).toBe(2);
+        expect(player.items.get("gauze")).toBe(5);
+    });
+
+    test("nothing is given when the backpack is full", () => {
+        const player = createPlayer({ gauze: 5 }, { gauze: 5 });
+
+        expect(awardReward(player, "gauze", 5)).toBe(0);
+        expect(player.items.get("gauze")).toBe(5);
+        expect(player.dirty.items).toBeUndefined();
+    });
+
+    test("nothing is given of items the backpack can't hold", () => {
+        const player = createPlayer({});
+
+        expect(awardReward(player, "gauze", 5)).toBe(0);
+        expect(player.items.has("gauze")).toBe(false);
+    });
+
+    test("throwables are equipped if no other throwable is", () => {
+        const player = createPlayer({ frag_grenade: 3 });
+
+        awardReward(player, "frag_grenade", 1);
+
+        expect(player.equipped).toEqual(["frag_grenade"]);
+    });
+
+    test("throwables don't replace the one that's equipped", () => {
+        const player = createPlayer({ frag_grenade: 3 }, {}, true);
+
+        awardReward(player, "frag_grenade", 1);
+
+        expect(player.items.get("frag_grenade")).toBe(1);
+        expect(player.equipped).toEqual([]);
+    });
+});
+
+describe("picking rewards", () => {
+    test("rewards come from the table for the game's mode", () => {
+        const player = createPlayer(roomy());
+
+        for (let i = 0; i < SAMPLES; i++) {
+            const { rewardType, rewardCount } = pickReward(player, 1);
+            const reward = MathRewardTables.normal.rewards.find(({ item }) => item === rewardType);
+
+            expect(reward).toBeDefined();
+            expect(rewardCount).toBeGreaterThanOrEqual(reward?.min ?? NaN);
+            expect(rewardCount).toBeLessThanOrEqual(reward?.max ?? NaN);
+        }
+    });
+
+    test.each(modes)("%s games give rewards from their own table", mode => {
+        const player = createPlayer(roomy(), {}, false, mode);
+        const items = MathRewardTables[mode].rewards.map(({ item }) => item);
+
+        for (let i = 0; i < SAMPLES; i++) {
+            expect(items).toContain(pickReward(player, 1).rewardType);
+        }
+    });
+
+    test.each(modes)("every reward in %s games can be carried", mode => {
+        const bag = Backpacks.fromString("bag");
+
+        for (const { item } of MathRewardTables[mode].rewards) {
+            expect(bag.maxCapacity[item]).toBeGreaterThan(0);
+        }
+    });
+
+    test("harder problems pay more", () => {
+        const player = createPlayer({ gauze: 1000 });
+
+        // Gauze pays 2 to 5 for the easiest problems, and 90% more at difficulty 10
+        for (let i = 0; i < SAMPLES; i++) {
+            const { rewardCount } = pickReward(player, 10);
+
+            expect(rewardCount).toBeGreaterThanOrEqual(4);
+            expect(rewardCount).toBeLessThanOrEqual(10);
+        }
+    });
+
+    test("items the player has no room for are skipped", () => {
+        const capacity = Object.fromEntries(rewardItems.map(item => [item, 5]));
+        const player = createPlayer(capacity, { ...capacity, cola: 0 });
+
+        for (let i = 0; i < SAMPLES; i++) {
+            expect(pickReward(player, 1).rewardType).toBe("cola");
+        }
+    });
+
+    test("reward counts are cut down to what the backpack has room for", () => {
+        const player = createPlayer({ "9mm": 120 }, { "9mm": 116 });
+
+        for (let i = 0; i < SAMPLES; i++) {
+            expect(pickReward(player, 5)).toEqual({ rewardType: "9mm", rewardCount: 4 });
+        }
+    });
+
+    test("a reward is still picked when the player has no room for anything", () => {
+        const player = createPlayer({});
+
+        const { rewardType, rewardCount } = pickReward(player, 1);
+
+        expect(rewardItems).toContain(rewardType);
+        expect(rewardCount).toBeGreaterThan(0);
+        expect(awardReward(player, rewardType, rewardCount)).toBe(0);
+    });
+});
@@ -0,0 +1,140 @@
+import { PerkIds, Perks, type PerkDefinition } from "@common/definitions/items/perks";
+import { describe, expect, test } from "@jest/globals";
+import { StreakTracker } from "../../server/src/math/streaks";
+import { type Player } from "../../server/src/objects/player";
+
+function createPlayer(id = 1): Player & { readonly perks: Set<PerkDefinition>, readonly expire: () => void } {
+    const perks = new Set<PerkDefinition>();
+    const timeouts: Array<() => void> = [];
+
+    return {
+        id,
+        perks,
+        hasPerk: (perk: PerkDefinition) => perks.has(perk),
+        addPerk: (perk: PerkDefinition) => perks.add(perk),
+        removePerk: (perk: PerkDefinition) => perks.delete(perk),
+        game: {
+            addTimeout: (callback: () => void) => {
+                let killed = false;
+                timeouts.push(() => { if (!killed) callback(); });
+                return { kill: () => { killed = true; } };
+            }
+        },
+        expire: () => {
+            for (const timeout of timeouts.splice(0)) timeout();
+        }
+    } as unknown as Player & { readonly perks: Set<PerkDefinition>, readonly expire: () => void };
+}
+
+describe("streak multipliers", () => {
+    test.each([
+        [0, 1],
+        [2, 1],
+        [3, 1.25],
+        [4, 1.25],
+        [5, 1.5],
+        [9, 1.5],
+        [10, 2],
+        [50, 2]
+    ])("a streak of %i multiplies rewards by %d", (streak, multiplier) => {
+        expect(new StreakTracker().multiplierFor(streak)).toBe(multiplier);
+    });
+
+    test("the highest multiplier reached applies, whatever order the tiers are given in", () => {
+        const tracker = new StreakTracker([{ streak: 10, multiplier: 3 }, { streak: 2, multiplier: 1.5 }]);
+
+        expect(tracker.multiplierFor(2)).toBe(1.5);
+        expect(tracker.multiplierFor(12)).toBe(3);
+    });
+
+    test("correct answers extend the streak, and its multiplier goes up with it", () => {
+        const tracker = new StreakTracker();
+        const player = createPlayer();
+
+        const multipliers = Array.from({ length: 5 }, (_, i) => tracker.record(player, true, i).multiplier);
+
+        expect(multipliers).toEqual([1, 1, 1.25, 1.25, 1.5]);
+        expect(tracker.current(player, 5)).toBe(5);
+    });
+
+    test("a wrong answer breaks the streak", () => {
+        const tracker = new StreakTracker();
+        const player = createPlayer();
+
+        for (let i = 0; i < 4; i++) tracker.record(player, true, i);
+
+        expect(tracker.record(player, false, 4)).toMatchObject({ streak: 0, multiplier: 1 });
+        expect(tracker.record(player, true, 5).streak).toBe(1);
+    });
+
+    test("going too long without answering breaks the streak", () => {
+        const tracker = new StreakTracker(undefined, undefined, 1000);
+        const player = createPlayer();
+
+        for (let i = 0; i < 4; i++) tracker.record(player, true, i);
+        expect(tracker.current(player, 1003)).toBe(4);
+        expect(tracker.current(player, 1004)).toBe(0);
+
+        expect(tracker.record(player, true, 1004).streak).toBe(1);
+    });
+
+    test("each player has their own streak", () => {
+        const tracker = new StreakTracker();
+        const alice = createPlayer(1);
+        const bob = createPlayer(2);
+
+        tracker.record(alice, true, 0);
+        tracker.record(alice, true, 1);
+
+        expect(tracker.record(bob, true, 2).streak).toBe(1);
+        expect(tracker.current(alice, 2)).toBe(2);
+    });
+});
+
+describe("streak milestones", () => {
+    test("milestones are reached exactly once per streak", () => {
+        const tracker = new StreakTracker();
+        const player = createPlayer();
+
+        const milestones = Array.from({ length: 12 }, (_, i) => tracker.record(player, true, i).milestone?.streak);
+
+        expect(milestones.filter(streak => streak !== undefined)).toEqual([5, 10]);
+    });
+
+    test("a milestone's perk lasts until it wears off", () => {
+        const perk = Perks.fromString(PerkIds.AdvancedAthletics);
+        const tracker = new StreakTracker();
+        const player = createPlayer();
+
+        tracker.grantPerk(player, { streak: 5, perk, duration: 15000 });
+        expect(player.perks.has(perk)).toBe(true);
+
+        player.expire();
+        expect(player.perks.has(perk)).toBe(false);
+    });
+
+    test("perks the player already had aren't taken away", () => {
+        const perk = Perks.fromString(PerkIds.AdvancedAthletics);
+        const tracker = new StreakTracker();
+        const player = createPlayer();
+        player.perks.add(perk);
+
+        tracker.grantPerk(player, { streak: 5, perk, duration: 15000 });
+        player.expire();
+
+        expect(player.perks.has(perk)).toBe(true);
+    });
+
+    test("forgetting a player cancels their perks' timeouts", () => {
+        const perk = Perks.fromString(PerkIds.AdvancedAthletics);
+        const tracker = new StreakTracker();
+        const player = createPlayer();
+
+        tracker.grantPerk(player, { streak: 5, perk, duration: 15000 });
+        tracker.delete(player);
+        player.expire();
+
+        expect(player.perks.has(perk)).toBe(true);
+        expect(tracker.current(player)).toBe(0);
+    });
+});
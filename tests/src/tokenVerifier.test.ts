@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TokenVerifier, type TokenVerifierOptions } from "../../server/src/timeBack/tokenVerifier";
+import { MockTimeBack } from "./mockTimeBack";
+
+const timeBack = new MockTimeBack();
+let directory: string;
+let options: TokenVerifierOptions;
+
+beforeAll(async() => {
+    const url = await timeBack.start();
+
+    // Loaded from a file, so that the verifier doesn't keep refreshing the keys in the background
+    directory = mkdtempSync(join(tmpdir(), "jwks-"));
+    const jwks = join(directory, "jwks.json");
+    writeFileSync(jwks, await (await fetch(`${url}/.well-known/jwks.json`)).text());
+
+    options = { jwks, issuer: url, audience: timeBack.clientId };
+});
+
+afterAll(async() => {
+    await timeBack.stop();
+    rmSync(directory, { recursive: true, force: true });
+});
+
+function now(): number {
+    return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Swaps a token's payload for another one, keeping the original signature
+ */
+function tamper(token: string, claims: Record<string, unknown>): string {
+    const [header, payload, signature] = token.split(".");
+    const decoded = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Record<string, unknown>;
+    return [header, Buffer.from(JSON.stringify({ ...decoded, ...claims })).toString("base64url"), signature].join(".");
+}
+
+describe("accepted tokens", () => {
+    test("tokens signed by the issuer are verified as the student they were issued to", () => {
+        const token = timeBack.issueToken("student-1");
+        const { exp } = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString("utf8")) as { readonly exp: number };
+
+        expect(new TokenVerifier(options).verify(token)).toEqual({ res: { studentId: "student-1", expiresAt: exp * 1000 } });
+    });
+
+    test("tokens that expired within the clock tolerance are accepted", () => {
+        const token = timeBack.issueToken("student-1", { exp: now() - 20 });
+
+        expect(new TokenVerifier(options).verify(token)).toHaveProperty("res");
+    });
+
+    test("tokens that become valid within the clock tolerance are accepted", () => {
+        const token = timeBack.issueToken("student-1", { nbf: now() + 20 });
+
+        expect(new TokenVerifier(options).verify(token)).toHaveProperty("res");
+    });
+
+    test("the audience can be one of several", () => {
+        const token = timeBack.issueToken("student-1", { aud: ["another-client", timeBack.clientId] });
+
+        expect(new TokenVerifier(options).verify(token)).toHaveProperty("res");
+    });
+
+    test("any issuer is accepted if none is configured", () => {
+        const token = timeBack.issueToken("student-1", { iss: "https://elsewhere.example" });
+
+        expect(new TokenVerifier({ ...options, issuer: undefined }).verify(token)).toHaveProperty("res");
+    });
+});
+
+describe("rejected tokens", () => {
+    test.each([
+        ["expired tokens", { exp: now() - 60 }, "token expired"],
+        ["tokens without an expiry", { exp: undefined }, "token expired"],
+        ["tokens that aren't valid yet", { nbf: now() + 60 }, "token not yet valid"],
+        ["tokens from another issuer", { iss: "https://elsewhere.example" }, "unexpected issuer https://elsewhere.example"],
+        ["tokens for another audience", { aud: "another-client" }, "unexpected audience"],
+        ["tokens for none of several audiences", { aud: ["another-client", "a-third-client"] }, "unexpected audience"],
+        ["access tokens issued to another client", { client_id: "another-client" }, "unexpected audience"],
+        ["tokens without a subject", { sub: "" }, "missing subject"]
+    ])("%s", (_, claims, err) => {
+        expect(new TokenVerifier(options).verify(timeBack.issueToken("student-1", claims))).toEqual({ err });
+    });
+
+    test("the clock tolerance can be changed", () => {
+        const token = timeBack.issueToken("student-1", { exp: now() - 20 });
+
+        expect(new TokenVerifier({ ...options, clockTolerance: 5 }).verify(token)).toEqual({ err: "token expired" });
+    });
+
+    test("tokens whose payload was changed after signing are rejected", () => {
+        const token = tamper(timeBack.issueToken("student-1"), { sub: "student-2" });
+
+        expect(new TokenVerifier(options).verify(token)).toEqual({ err: "invalid signature" });
+    });
+
+    test("tokens signed by another issuer are rejected", async() => {
+        const other = new MockTimeBack();
+        await other.start();
+        const token = other.issueToken("student-1", { iss: options.issuer });
+        await other.stop();
+
+        expect(new TokenVerifier(options).verify(token)).toEqual({ err: `unknown key ${other.keyId}` });
+    });
+
+    test("tokens whose signature was cut short are rejected", () => {
+        const token = timeBack.issueToken("student-1");
+
+        expect(new TokenVerifier(options).verify(token.slice(0, -10))).toEqual({ err: "invalid signature" });
+    });
+
+    test("unsigned tokens are rejected", () => {
+        const [, payload] = timeBack.issueToken("student-1").split(".");
+        const header = Buffer.from(JSON.stringify({ alg: "none" })).toString("base64url");
+
+        expect(new TokenVerifier(options).verify(`${header}.${payload}.`)).toEqual({ err: "unsupported algorithm none" });
+    });
+
+    test.each(["", "not a token", "a.b", "a.b.c"])("malformed token %p", token => {
+        expect(new TokenVerifier(options).verify(token)).toEqual({ err: "malformed token" });
+    });
+});